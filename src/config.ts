@@ -1,6 +1,7 @@
 import { existsSync } from 'fs';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import fs from 'fs-extra';
+import { detectInstallLayout } from './ggpk/bundle-source';
 
 export interface Config {
   poe2Path: string;
@@ -89,6 +90,18 @@ export function getGGPKPath(config: Config): string {
   throw new Error(`Content.ggpk not found. Checked:\n${possiblePaths.join('\n')}`);
 }
 
+/**
+ * Get the path the bundle commands should read from, auto-detecting the install layout:
+ * Content.ggpk for standalone installs, the game directory for Steam installs
+ * (whose Bundles2 files are loose on disk). `poe2Path` may also point at the game's
+ * executable or its Bundles2 directory; the result is always one of the two forms
+ * bun_extract_file.exe accepts.
+ */
+export function getInstallPath(config: Config): string {
+  const install = detectInstallLayout(config.poe2Path);
+  return install.layout === 'ggpk' ? install.path : dirname(install.path);
+}
+
 /**
  * Resolve tool path (handles relative paths from script directory)
  */
@@ -0,0 +1,173 @@
+// DAT Database - follows foreignrow/row references between tables
+// Tables are parsed on first use and cached, so resolving a handful of rows only
+// loads the tables those rows actually point at.
+
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type { DATParser, SchemaColumn } from './dat-parser';
+
+/** Columns tried, in order, when a reference is shown as a single value */
+export const DEFAULT_DISPLAY_COLUMNS = ['Name', 'Id', 'Text'];
+
+/**
+ * Returns the .datc64 contents of a table (by schema name, e.g. "BaseItemTypes"),
+ * or null if it isn't available
+ */
+export type TableSource = (tableName: string) => Buffer | null | Promise<Buffer | null>;
+
+export interface ResolveOptions {
+  /** Levels of references to follow (default: 1); 0 returns rows untouched */
+  depth?: number;
+  /**
+   * Replace references with one value of the referenced row instead of the whole row:
+   * true uses DEFAULT_DISPLAY_COLUMNS, an array names the columns to try
+   */
+  display?: boolean | string[];
+}
+
+/**
+ * Pick a human-readable value for a row, or undefined if it has none of the columns
+ */
+export function displayValue(row: any, columns: string[] = DEFAULT_DISPLAY_COLUMNS): unknown {
+  for (const column of columns) {
+    const value = row[column];
+    if (value !== null && value !== undefined && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+export class DatDatabase {
+  private parser: DATParser;
+  private source: TableSource;
+  private tables = new Map<string, Promise<any[] | null>>();
+  // Lookups for references that target a column other than the row index
+  private columnIndexes = new Map<string, Map<unknown, any>>();
+
+  constructor(parser: DATParser, source: TableSource) {
+    this.parser = parser;
+    this.source = source;
+  }
+
+  /**
+   * Read tables from a directory of extracted .datc64 files, optionally falling back to
+   * another source (e.g. the game archive) for tables that aren't there
+   */
+  static fromDirectory(parser: DATParser, dir: string, fallback?: TableSource): DatDatabase {
+    return new DatDatabase(parser, async tableName => {
+      for (const fileName of [`${tableName.toLowerCase()}.datc64`, `${tableName}.datc64`]) {
+        const filePath = join(dir, fileName);
+        if (existsSync(filePath)) {
+          return readFile(filePath);
+        }
+      }
+      return fallback ? fallback(tableName) : null;
+    });
+  }
+
+  /**
+   * All rows of a table, or null if the table is unknown or can't be loaded
+   */
+  getTable(tableName: string): Promise<any[] | null> {
+    const key = tableName.toLowerCase();
+    let table = this.tables.get(key);
+    if (!table) {
+      table = this.loadTable(tableName);
+      this.tables.set(key, table);
+    }
+    return table;
+  }
+
+  private async loadTable(tableName: string): Promise<any[] | null> {
+    const schema = this.parser.getTableSchema(tableName);
+    if (!schema) return null;
+
+    const buffer = await this.source(schema.name);
+    if (!buffer) return null;
+
+    const parsed = this.parser.parse(buffer, schema.name);
+    if (parsed.error && parsed.rows.length === 0) return null;
+    return parsed.rows;
+  }
+
+  async getRow(tableName: string, rid: number): Promise<any | null> {
+    const rows = await this.getTable(tableName);
+    return rows?.[rid] ?? null;
+  }
+
+  /**
+   * Fetch a row with its references replaced by the rows (or display values) they point at
+   */
+  async resolve(tableName: string, rid: number, options: ResolveOptions = {}): Promise<any | null> {
+    const row = await this.getRow(tableName, rid);
+    return row ? this.resolveRow(tableName, row, options) : null;
+  }
+
+  /**
+   * Resolve the references in an already parsed row. Returns a copy; references that
+   * can't be followed (missing table or row) keep their original value.
+   */
+  async resolveRow(tableName: string, row: any, options: ResolveOptions = {}): Promise<any> {
+    const depth = options.depth ?? 1;
+    const table = this.parser.getTableSchema(tableName);
+    if (!table || depth <= 0) return row;
+
+    const resolved = { ...row };
+    for (let colIdx = 0; colIdx < table.columns.length; colIdx++) {
+      const col = table.columns[colIdx];
+      // enumrow references name an enumeration, which the parser has already applied
+      if (col.type === 'enumrow') continue;
+      const targetTable = col.references?.table ?? (col.type === 'row' ? table.name : null);
+      if (!targetTable) continue;
+
+      const fieldName = col.name || `_unknown${colIdx}`;
+      const value = row[fieldName];
+      if (value === null || value === undefined) continue;
+
+      const resolveOne = (key: unknown) =>
+        this.resolveReference(targetTable, col, key, { ...options, depth: depth - 1 });
+
+      resolved[fieldName] = Array.isArray(value)
+        ? await Promise.all(value.map(resolveOne))
+        : await resolveOne(value);
+    }
+    return resolved;
+  }
+
+  private async resolveReference(
+    targetTable: string,
+    col: SchemaColumn,
+    key: unknown,
+    options: ResolveOptions
+  ): Promise<unknown> {
+    if (key === null || key === undefined) return key;
+
+    const target = col.references?.column
+      ? await this.findByColumn(targetTable, col.references.column, key)
+      : await this.getRow(targetTable, Number(key));
+    if (!target) return key;
+
+    if (options.display) {
+      const columns = Array.isArray(options.display) ? options.display : undefined;
+      return displayValue(target, columns) ?? key;
+    }
+    return this.resolveRow(targetTable, target, options);
+  }
+
+  private async findByColumn(tableName: string, column: string, value: unknown): Promise<any> {
+    const indexKey = `${tableName.toLowerCase()}.${column}`;
+    let index = this.columnIndexes.get(indexKey);
+    if (!index) {
+      index = new Map();
+      for (const row of (await this.getTable(tableName)) ?? []) {
+        if (!index.has(row[column])) {
+          index.set(row[column], row);
+        }
+      }
+      this.columnIndexes.set(indexKey, index);
+    }
+    return index.get(value) ?? null;
+  }
+}
@@ -0,0 +1,167 @@
+// Row-level diff between two versions of a DAT table
+// Rows are matched by a key column rather than by position, since patches insert and
+// reorder rows freely.
+
+import type { SchemaTable } from './dat-parser';
+
+/** Pseudo-column holding the row index; used as the key when a table has no unique column */
+export const ROW_ID_COLUMN = '_rid';
+
+export interface ColumnChange {
+  column: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ModifiedRow {
+  key: string;
+  oldRid: number;
+  newRid: number;
+  changes: ColumnChange[];
+}
+
+export interface DatDiff {
+  table: string;
+  keyColumn: string;
+  added: { key: string; row: any }[];
+  removed: { key: string; row: any }[];
+  modified: ModifiedRow[];
+  unchanged: number;
+}
+
+/**
+ * Pick the column rows are matched by: the first unique string column (usually `Id`),
+ * then any other unique scalar column, then the row index
+ */
+export function pickKeyColumn(table: SchemaTable): string {
+  const unique = table.columns.filter(col => col.unique && !col.array && col.name);
+  const key = unique.find(col => col.type === 'string') ?? unique[0];
+  return key?.name ?? ROW_ID_COLUMN;
+}
+
+/**
+ * Key every row. Rows without a key value fall back to `#rid:<row index>`, and repeated
+ * keys get a `#n` suffix so no row is silently dropped. A `#` in a key value is
+ * doubled, so neither can collide with a real value such as `#rid:5` or `Foo#2`.
+ */
+function keyRows(rows: any[], keyColumn: string): Map<string, any> {
+  const keyed = new Map<string, any>();
+  const seen = new Map<string, number>();
+
+  for (const row of rows) {
+    const value = row[keyColumn];
+    let key =
+      value === null || value === undefined
+        ? `#rid:${row[ROW_ID_COLUMN]}`
+        : String(value).replace(/#/g, '##');
+
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    if (count > 1) {
+      key = `${key}#${count}`;
+    }
+    keyed.set(key, row);
+  }
+
+  return keyed;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  // Arrays and NaN floats
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function diffRows(
+  tableName: string,
+  oldRows: any[],
+  newRows: any[],
+  keyColumn: string
+): DatDiff {
+  const diff: DatDiff = {
+    table: tableName,
+    keyColumn,
+    added: [],
+    removed: [],
+    modified: [],
+    unchanged: 0,
+  };
+
+  const oldKeyed = keyRows(oldRows, keyColumn);
+  const newKeyed = keyRows(newRows, keyColumn);
+
+  for (const [key, oldRow] of oldKeyed) {
+    const newRow = newKeyed.get(key);
+    if (!newRow) {
+      diff.removed.push({ key, row: oldRow });
+      continue;
+    }
+
+    // Row indices shift whenever rows are inserted, so they never count as a change
+    const columns = new Set([...Object.keys(oldRow), ...Object.keys(newRow)]);
+    columns.delete(ROW_ID_COLUMN);
+
+    const changes: ColumnChange[] = [];
+    for (const column of columns) {
+      if (!sameValue(oldRow[column], newRow[column])) {
+        changes.push({ column, before: oldRow[column] ?? null, after: newRow[column] ?? null });
+      }
+    }
+
+    if (changes.length > 0) {
+      diff.modified.push({
+        key,
+        oldRid: oldRow[ROW_ID_COLUMN],
+        newRid: newRow[ROW_ID_COLUMN],
+        changes,
+      });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  for (const [key, newRow] of newKeyed) {
+    if (!oldKeyed.has(key)) {
+      diff.added.push({ key, row: newRow });
+    }
+  }
+
+  return diff;
+}
+
+/** RFC 6902 operation; `path` points into the table as an object keyed by the key column */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+}
+
+// RFC 6901 escaping for JSON pointer segments
+function pointerSegment(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Express the diff as a JSON patch that turns the old table into the new one
+ */
+export function toJsonPatch(diff: DatDiff): JsonPatchOperation[] {
+  const operations: JsonPatchOperation[] = [];
+
+  for (const { key } of diff.removed) {
+    operations.push({ op: 'remove', path: `/${pointerSegment(key)}` });
+  }
+  for (const row of diff.modified) {
+    for (const change of row.changes) {
+      operations.push({
+        op: 'replace',
+        path: `/${pointerSegment(row.key)}/${pointerSegment(change.column)}`,
+        value: change.after,
+      });
+    }
+  }
+  for (const { key, row } of diff.added) {
+    operations.push({ op: 'add', path: `/${pointerSegment(key)}`, value: row });
+  }
+
+  return operations;
+}
@@ -4,13 +4,31 @@
 
 import * as path from 'path';
 import { logger } from '../utils/logger';
+import { outputExtension, writeTableOutput, type OutputFormat } from './row-formatter';
 
 // Schema types
-interface SchemaColumn {
+export interface SchemaColumn {
   name: string | null;
   description: string | null;
   array: boolean;
-  type: 'bool' | 'i16' | 'i32' | 'u16' | 'u32' | 'f32' | 'string' | 'row' | 'foreignrow' | 'enumrow' | 'array';
+  type:
+    | 'bool'
+    | 'i8'
+    | 'u8'
+    | 'i16'
+    | 'u16'
+    | 'i32'
+    | 'u32'
+    | 'i64'
+    | 'u64'
+    | 'f32'
+    | 'string'
+    | 'row'
+    | 'foreignrow'
+    | 'enumrow'
+    | 'array';
+  /** Stored as a pair of values (e.g. a min/max range), read as `[min, max]` */
+  interval?: boolean;
   unique: boolean;
   localized: boolean;
   references: { table: string; column?: string } | null;
@@ -19,25 +37,43 @@ interface SchemaColumn {
   files: string[] | null;
 }
 
-interface SchemaTable {
+export interface SchemaTable {
   validFor: number; // 1=POE1, 2=POE2, 3=both
   name: string;
   columns: SchemaColumn[];
 }
 
-interface Schema {
+export interface SchemaEnumeration {
+  validFor: number;
+  name: string;
+  /** Value of the first enumerator (0 or 1) */
+  indexing: number;
+  enumerators: (string | null)[];
+}
+
+export interface Schema {
   version: number;
   createdAt: number;
   tables: SchemaTable[];
+  enumerations?: SchemaEnumeration[];
+}
+
+export interface ParserOptions {
+  /** Keep the numeric value of enumrow columns in an extra `<column>_value` field */
+  keepEnumValues?: boolean;
 }
 
 // Field sizes in bytes for datc64 format
 const FIELD_SIZES: Record<string, number> = {
   bool: 1,
+  i8: 1,
+  u8: 1,
   i16: 2,
   u16: 2,
   i32: 4,
   u32: 4,
+  i64: 8,
+  u64: 8,
   f32: 4,
   string: 8, // offset in variable data
   row: 8, // self-referencing key (can be -1 for null)
@@ -48,32 +84,106 @@ const FIELD_SIZES: Record<string, number> = {
 
 // Null values
 const NULL_ROW = -1n; // 0xFFFFFFFFFFFFFFFF
-const NULL_FOREIGN_ROW = 0xFFFFFFFFFFFFFFFEn; // -2
+const NULL_FOREIGN_ROW = BigInt.asIntN(64, 0xFFFFFFFFFFFFFFFEn); // -2
 const NULL_MARKER = BigInt.asIntN(64, 0xFEFEFEFEFEFEFEFEn); // 0xFEFEFEFEFEFEFEFE - another null marker
 
+// Bytes taken by one value of a column; interval columns store two
+function valueSize(type: string, interval = false): number {
+  return (FIELD_SIZES[type] || 8) * (interval ? 2 : 1);
+}
+
+/**
+ * Bytes a column takes in the fixed-size part of a row
+ */
+export function columnSize(col: SchemaColumn): number {
+  return col.array ? 16 : valueSize(col.type, col.interval); // arrays are length (8) + offset (8)
+}
+
+// 64-bit integers become numbers when they fit, strings otherwise (JSON has no bigint)
+function toSafeInteger(value: bigint): number | string {
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value.toString();
+}
+
+/**
+ * Largest .datc64 file parse-all reads. Rows are streamed to the output, but the input
+ * file is still read into memory whole.
+ */
+export const MAX_DAT_FILE_SIZE = 100 * 1024 * 1024;
+
 // Magic bytes separating fixed and variable data
 const VARIABLE_DATA_MAGIC = Buffer.from([0xBB, 0xBB, 0xBB, 0xBB, 0xBB, 0xBB, 0xBB, 0xBB]);
 
+export interface DatLayout {
+  rowCount: number;
+  /** Row size measured from the data (more reliable than the schema) */
+  rowSize: number;
+  fixedDataStart: number;
+  /** Position of the magic bytes; variable data offsets are relative to it */
+  variableDataStart: number;
+}
+
+/**
+ * Locate the fixed and variable data sections of a .datc64 file
+ */
+export function readDatLayout(buffer: Buffer): DatLayout | { error: string } {
+  // Read row count (first 4 bytes)
+  if (buffer.length < 4) {
+    return { error: 'Buffer too small' };
+  }
+  const rowCount = buffer.readUInt32LE(0);
+  const fixedDataStart = 4;
+
+  // Find variable data section (look for magic bytes)
+  const magicIndex = buffer.indexOf(VARIABLE_DATA_MAGIC, fixedDataStart);
+  if (magicIndex === -1) {
+    return rowCount === 0
+      ? { rowCount, rowSize: 0, fixedDataStart, variableDataStart: buffer.length }
+      : { error: 'Magic bytes not found' };
+  }
+
+  const fixedDataLength = magicIndex - fixedDataStart;
+  return {
+    rowCount,
+    rowSize: rowCount > 0 ? Math.floor(fixedDataLength / rowCount) : 0,
+    fixedDataStart,
+    variableDataStart: magicIndex,
+  };
+}
+
 export class DATParser {
   private schema: Schema;
   private tableMap: Map<string, SchemaTable>;
+  private enumMap: Map<string, SchemaEnumeration>;
   private isPOE2: boolean;
+  private options: ParserOptions;
 
-  constructor(schema: Schema, isPOE2 = true) {
+  constructor(schema: Schema, isPOE2 = true, options: ParserOptions = {}) {
     this.schema = schema;
     this.isPOE2 = isPOE2;
+    this.options = options;
     this.tableMap = new Map();
+    this.enumMap = new Map();
     
-    // Build table map (case-insensitive)
-    for (const table of schema.tables) {
+    const isValid = (validFor: number) => {
       // Filter by game version
-      const validForPOE2 = (table.validFor & 2) !== 0;
-      const validForPOE1 = (table.validFor & 1) !== 0;
-      
-      if ((isPOE2 && validForPOE2) || (!isPOE2 && validForPOE1)) {
+      const validForPOE2 = (validFor & 2) !== 0;
+      const validForPOE1 = (validFor & 1) !== 0;
+      return (isPOE2 && validForPOE2) || (!isPOE2 && validForPOE1);
+    };
+    
+    // Build table and enumeration maps (case-insensitive)
+    for (const table of schema.tables) {
+      if (isValid(table.validFor)) {
         this.tableMap.set(table.name.toLowerCase(), table);
       }
     }
+    for (const enumeration of schema.enumerations ?? []) {
+      if (isValid(enumeration.validFor)) {
+        this.enumMap.set(enumeration.name.toLowerCase(), enumeration);
+      }
+    }
   }
 
   /**
@@ -98,21 +208,62 @@ export class DATParser {
     return Array.from(this.tableMap.keys()).sort();
   }
 
+  /**
+   * Get enumeration by name
+   */
+  getEnumeration(name: string): SchemaEnumeration | undefined {
+    return this.enumMap.get(name.toLowerCase());
+  }
+
+  /**
+   * List all available enumerations
+   */
+  listEnumerations(): string[] {
+    return Array.from(this.enumMap.values(), enumeration => enumeration.name).sort();
+  }
+
   /**
    * Calculate fixed row size for a table
    */
   private calculateRowSize(table: SchemaTable): number {
     let size = 0;
     for (const col of table.columns) {
-      if (col.array) {
-        size += 16; // array is always length (8) + offset (8)
-      } else {
-        size += FIELD_SIZES[col.type] || 8;
-      }
+      size += columnSize(col);
     }
     return size;
   }
 
+  /**
+   * Fixed row size the schema describes for a table
+   */
+  getSchemaRowSize(tableName: string): number | undefined {
+    const table = this.getTableSchema(tableName);
+    return table ? this.calculateRowSize(table) : undefined;
+  }
+
+  /**
+   * Field names of parsed rows in column order, starting with `_rid`
+   */
+  getColumnNames(tableName: string): string[] {
+    const table = this.getTableSchema(tableName);
+    if (!table) return [];
+
+    const names = ['_rid'];
+    table.columns.forEach((col, colIdx) => {
+      const fieldName = col.name || `_unknown${colIdx}`;
+      names.push(fieldName);
+      if (
+        col.type === 'enumrow' &&
+        this.options.keepEnumValues &&
+        col.references &&
+        this.getEnumeration(col.references.table)
+      ) {
+        names.push(`${fieldName}_value`);
+      }
+    });
+    return names;
+  }
+
   /**
    * Parse a .datc64 file
    */
@@ -122,84 +273,135 @@ export class DATParser {
       return { rows: [], rowCount: 0, error: `Unknown table: ${tableName}` };
     }
 
-    // Read row count (first 4 bytes)
-    if (buffer.length < 4) {
-      return { rows: [], rowCount: 0, error: 'Buffer too small' };
+    const layout = readDatLayout(buffer);
+    if ('error' in layout) {
+      return { rows: [], rowCount: 0, error: layout.error };
     }
-    const rowCount = buffer.readUInt32LE(0);
 
-    if (rowCount === 0) {
-      return { rows: [], rowCount: 0 };
+    const rows: any[] = [];
+    try {
+      for (const row of this.readRows(buffer, table, layout)) {
+        rows.push(row);
+      }
+    } catch (e) {
+      return { rows, rowCount: layout.rowCount, error: `Parse error at row ${rows.length}: ${e}` };
     }
 
-    // Find variable data section (look for magic bytes)
-    const fixedDataStart = 4;
-    const magicIndex = buffer.indexOf(VARIABLE_DATA_MAGIC, fixedDataStart);
-    
-    if (magicIndex === -1) {
-      return { rows: [], rowCount: 0, error: 'Magic bytes not found' };
+    return { rows, rowCount: layout.rowCount };
+  }
+
+  /**
+   * Parse a .datc64 file one row at a time, so a table never has to be held in memory
+   * as a whole. Throws if the table is unknown or the file can't be read as a table.
+   * A row that fails to parse also throws, unless `status` is given: then iteration
+   * stops there and the error is left in `status.error`, as `parse` reports it.
+   */
+  *iterateRows(buffer: Buffer, tableName: string, status?: { error?: string }): Generator<any> {
+    const table = this.getTableSchema(tableName);
+    if (!table) {
+      throw new Error(`Unknown table: ${tableName}`);
     }
-    
-    // Variable data offsets are relative to magic bytes position (NOT after them!)
-    const variableDataStart = magicIndex;
-    
-    // Calculate actual row size from data (more reliable than schema)
-    const fixedDataLength = magicIndex - fixedDataStart;
-    const actualRowSize = Math.floor(fixedDataLength / rowCount);
-    
-    // Calculate expected row size from schema
-    const schemaRowSize = this.calculateRowSize(table);
-    
-    // Use actual row size if it differs from schema (schema may be outdated)
-    const rowSize = actualRowSize;
-    
-    if (actualRowSize !== schemaRowSize) {
-      // Schema mismatch - this is common with evolving schemas
-      // We'll still try to parse, but might have issues
+
+    const layout = readDatLayout(buffer);
+    if ('error' in layout) {
+      throw new Error(layout.error);
     }
 
-    const rows: any[] = [];
+    let rowIndex = 0;
+    try {
+      for (const row of this.readRows(buffer, table, layout)) {
+        yield row;
+        rowIndex++;
+      }
+    } catch (e) {
+      const error = `Parse error at row ${rowIndex}: ${e}`;
+      if (!status) {
+        throw new Error(error);
+      }
+      status.error = error;
+    }
+  }
+
+  private *readRows(buffer: Buffer, table: SchemaTable, layout: DatLayout): Generator<any> {
+    const { rowCount, fixedDataStart, variableDataStart } = layout;
+    
+    // Use the actual row size even if it differs from the schema's (schema may be outdated).
+    // Columns past the end of the row are left out; `dat-validate` reports these mismatches.
+    const rowSize = layout.rowSize;
+
     let offset = fixedDataStart;
 
-    try {
-      for (let i = 0; i < rowCount; i++) {
-        const row: any = { _rid: i };
-        const rowStart = offset;
+    for (let i = 0; i < rowCount; i++) {
+      const row: any = { _rid: i };
+      const rowStart = offset;
+      
+      for (let colIdx = 0; colIdx < table.columns.length; colIdx++) {
+        const col = table.columns[colIdx];
+        const fieldName = col.name || `_unknown${colIdx}`;
         
-        for (let colIdx = 0; colIdx < table.columns.length; colIdx++) {
-          const col = table.columns[colIdx];
-          const fieldName = col.name || `_unknown${colIdx}`;
-          
-          // Don't read past row boundary
-          if (offset >= rowStart + rowSize) {
-            break;
+        // Don't read past row boundary
+        if (offset >= rowStart + rowSize) {
+          break;
+        }
+        
+        try {
+          if (col.array) {
+            const { value, bytesRead } = this.readArray(buffer, offset, variableDataStart, col.type, col.interval);
+            row[fieldName] = value;
+            offset += bytesRead;
+          } else {
+            const { value, bytesRead } = this.readValue(buffer, offset, variableDataStart, col.type, col.interval);
+            row[fieldName] = value;
+            offset += bytesRead;
           }
           
-          try {
-            if (col.array) {
-              const { value, bytesRead } = this.readArray(buffer, offset, variableDataStart, col.type);
-              row[fieldName] = value;
-              offset += bytesRead;
-            } else {
-              const { value, bytesRead } = this.readField(buffer, offset, variableDataStart, col.type);
-              row[fieldName] = value;
-              offset += bytesRead;
-            }
-          } catch (e) {
-            row[fieldName] = null;
-            offset += col.array ? 16 : (FIELD_SIZES[col.type] || 8);
+          if (col.type === 'enumrow') {
+            this.applyEnumeration(row, fieldName, col);
           }
+        } catch (e) {
+          row[fieldName] = null;
+          offset += col.array ? 16 : valueSize(col.type, col.interval);
         }
-        
-        // Ensure we advance to next row even if schema is incomplete
-        offset = rowStart + rowSize;
-        rows.push(row);
       }
-    } catch (e) {
-      return { rows, rowCount, error: `Parse error at row ${rows.length}: ${e}` };
+      
+      // Ensure we advance to next row even if schema is incomplete
+      offset = rowStart + rowSize;
+      yield row;
+    }
+  }
+
+  /**
+   * Replace an enumrow value (or array of values) with enumerator names. Values without
+   * a named enumerator are left as numbers.
+   */
+  private applyEnumeration(row: any, fieldName: string, col: SchemaColumn): void {
+    const enumeration = col.references ? this.getEnumeration(col.references.table) : undefined;
+    if (!enumeration) return;
+
+    const toName = (value: number) => enumeration.enumerators[value - enumeration.indexing] ?? value;
+    const value = row[fieldName];
+    if (this.options.keepEnumValues) {
+      row[`${fieldName}_value`] = value;
     }
+    row[fieldName] = Array.isArray(value) ? value.map(toName) : toName(value);
+  }
 
-    return { rows, rowCount };
+  /**
+   * Read a field value, or a `[min, max]` pair for interval columns
+   */
+  private readValue(
+    buffer: Buffer,
+    offset: number,
+    variableDataStart: number,
+    type: string,
+    interval = false
+  ): { value: any; bytesRead: number } {
+    if (!interval) {
+      return this.readField(buffer, offset, variableDataStart, type);
+    }
+    const min = this.readField(buffer, offset, variableDataStart, type);
+    const max = this.readField(buffer, offset + min.bytesRead, variableDataStart, type);
+    return { value: [min.value, max.value], bytesRead: min.bytesRead + max.bytesRead };
   }
 
   /**
@@ -215,6 +417,12 @@ export class DATParser {
       case 'bool':
         return { value: buffer.readUInt8(offset) !== 0, bytesRead: 1 };
 
+      case 'i8':
+        return { value: buffer.readInt8(offset), bytesRead: 1 };
+
+      case 'u8':
+        return { value: buffer.readUInt8(offset), bytesRead: 1 };
+
       case 'i16':
         return { value: buffer.readInt16LE(offset), bytesRead: 2 };
 
@@ -228,6 +436,12 @@ export class DATParser {
       case 'u32':
         return { value: buffer.readUInt32LE(offset), bytesRead: 4 };
 
+      case 'i64':
+        return { value: toSafeInteger(buffer.readBigInt64LE(offset)), bytesRead: 8 };
+
+      case 'u64':
+        return { value: toSafeInteger(buffer.readBigUInt64LE(offset)), bytesRead: 8 };
+
       case 'f32':
         return { value: buffer.readFloatLE(offset), bytesRead: 4 };
 
@@ -269,7 +483,8 @@ export class DATParser {
     buffer: Buffer,
     offset: number,
     variableDataStart: number,
-    elementType: string
+    elementType: string,
+    interval = false
   ): { value: any[]; bytesRead: number } {
     const length = buffer.readBigInt64LE(offset);
     const arrayOffset = buffer.readBigInt64LE(offset + 8);
@@ -303,7 +518,7 @@ export class DATParser {
     const values: any[] = [];
     
     let elementOffset = dataOffset;
-    const elementSize = FIELD_SIZES[elementType] || 8;
+    const elementSize = valueSize(elementType, interval);
 
     for (let i = 0; i < count; i++) {
       // Bounds check
@@ -312,7 +527,7 @@ export class DATParser {
       }
       
       try {
-        const { value } = this.readField(buffer, elementOffset, variableDataStart, elementType);
+        const { value } = this.readValue(buffer, elementOffset, variableDataStart, elementType, interval);
         values.push(value);
         elementOffset += elementSize;
       } catch {
@@ -358,7 +573,13 @@ export class DATParser {
    */
   async parseFile(filePath: string): Promise<{ rows: any[]; rowCount: number; tableName: string; error?: string }> {
     const arrayBuffer = await Bun.file(filePath).arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+    return this.parseNamed(Buffer.from(arrayBuffer), filePath);
+  }
+
+  /**
+   * Parse file contents, taking the table name from the file's path
+   */
+  parseNamed(buffer: Buffer, filePath: string): { rows: any[]; rowCount: number; tableName: string; error?: string } {
     const baseName = path.basename(filePath, '.datc64');
     const tableName = baseName.replace(/^[^a-zA-Z]*/, ''); // Remove leading non-alpha chars
     
@@ -372,10 +593,17 @@ export interface ParseAllOptions {
   pretty?: boolean;
   limit?: number;
   useCache?: boolean;
+  /** Keep numeric enumrow values alongside enumerator names */
+  keepEnumValues?: boolean;
+  format?: OutputFormat;
+  /** Joins array elements in CSV/TSV cells */
+  arraySeparator?: string;
 }
 
 export interface ParseAllResult {
   success: number;
+  /** Tables written up to a row that failed to parse (also counted in `success`) */
+  partial: number;
   failed: number;
   skipped: number;
   cached: number;
@@ -413,7 +641,7 @@ export async function parseAllDatFiles(
   
   // Load schema
   const schema = await DATParser.loadSchema(schemaPath);
-  const parser = new DATParser(schema, true);
+  const parser = new DATParser(schema, true, { keepEnumValues: options.keepEnumValues });
   
   logger.info(`Loaded schema v${schema.version} with ${parser.listTables().length} tables for POE2`);
 
@@ -436,6 +664,7 @@ export async function parseAllDatFiles(
   await fsp.mkdir(outputDir, { recursive: true });
 
   let success = 0;
+  let partial = 0;
   let failed = 0;
   let skipped = 0;
   let cached = 0;
@@ -446,7 +675,7 @@ export async function parseAllDatFiles(
     const file = datFiles[i];
     const tableName = file.replace('.datc64', '');
     const inputPath = path.join(dataDir, file);
-    const outputPath = path.join(outputDir, `${tableName}.json`);
+    const outputPath = path.join(outputDir, tableName + outputExtension(options.format));
 
     // Progress indicator
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
@@ -471,20 +700,27 @@ export async function parseAllDatFiles(
 
     try {
       // Bun-optimized: Bun.file() is 2x faster than fs.promises.readFile
-      const arrayBuffer = await Bun.file(inputPath).arrayBuffer();
+      const file = Bun.file(inputPath);
+      if (file.size > MAX_DAT_FILE_SIZE) {
+        process.stdout.write(`\n[x] Failed: ${tableName}: File too large: ${(file.size / 1024 / 1024).toFixed(1)}MB\n`);
+        failed++;
+        continue;
+      }
+      const arrayBuffer = await file.arrayBuffer();
       const buffer = Buffer.from(arrayBuffer);
-      const result = parser.parse(buffer, tableName);
 
-      if (result.error) {
-        process.stdout.write(`\n[!] Partial: ${tableName}: ${result.error}\n`);
+      // Written row by row as the table is parsed
+      const status: { error?: string } = {};
+      await writeTableOutput(outputPath, parser.iterateRows(buffer, tableName, status), parser, tableName, {
+        format: options.format,
+        pretty: options.pretty,
+        arraySeparator: options.arraySeparator
+      });
+
+      if (status.error) {
+        process.stdout.write(`\n[!] Partial: ${tableName}: ${status.error}\n`);
+        partial++;
       }
-
-      const json = options.pretty
-        ? JSON.stringify(result.rows, null, 2)
-        : JSON.stringify(result.rows);
-      
-      // Bun-optimized: Bun.write() is faster than fs.promises.writeFile
-      await Bun.write(outputPath, json);
       success++;
     } catch (e) {
       process.stdout.write(`\n[x] Failed: ${tableName}: ${e}\n`);
@@ -496,5 +732,5 @@ export async function parseAllDatFiles(
   const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
   process.stdout.write(`\r[100%] ${total}/${total} files (${totalTime}s)` + ' '.repeat(30) + '\n');
 
-  return { success, failed, skipped, cached };
+  return { success, partial, failed, skipped, cached };
 }
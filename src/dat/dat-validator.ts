@@ -0,0 +1,216 @@
+// DAT Validator - compares each table's schema row size with the size found in the data
+// Schemas lag behind patches, so a mismatch usually means columns were added or removed.
+// For missing bytes we look at the values across rows to guess what the columns are.
+
+import { columnSize, readDatLayout, type DATParser } from './dat-parser';
+
+export type ValidationStatus = 'ok' | 'mismatch' | 'empty' | 'error';
+
+export interface ColumnRange {
+  name: string;
+  type: string;
+  /** Byte offset of the column within a row */
+  offset: number;
+  size: number;
+}
+
+/** Column type guessed from the bytes the schema doesn't cover */
+export interface GuessedColumn {
+  type: 'foreignrow' | 'array' | 'string' | 'row' | 'i64' | 'i32' | 'bool' | 'u8';
+  offset: number;
+  size: number;
+}
+
+export interface TableValidation {
+  table: string;
+  status: ValidationStatus;
+  rowCount: number;
+  schemaRowSize: number;
+  actualRowSize: number;
+  /** actualRowSize - schemaRowSize; positive when the schema is missing columns */
+  delta: number;
+  /** Trailing bytes of each row that no schema column reads */
+  unreadBytes: { offset: number; size: number } | null;
+  /** Schema columns that end past the actual row size */
+  overflowingColumns: ColumnRange[];
+  guess: GuessedColumn[];
+  /** Short description of the guess, e.g. "1 foreignrow + 1 bool" */
+  guessSummary: string | null;
+  error?: string;
+}
+
+const NULL_QWORD = 0xfefefefefefefefen;
+// Largest row index we believe in; anything above is not a reference
+const MAX_ROW_INDEX = 0xffffffn;
+// Rows sampled when guessing; big tables don't need every row to decide
+const MAX_SAMPLED_ROWS = 4096;
+
+interface RowData {
+  buffer: Buffer;
+  rowOffsets: number[];
+  /** Length of the variable data section, including the magic bytes */
+  variableDataLength: number;
+}
+
+function every(data: RowData, test: (rowStart: number) => boolean): boolean {
+  return data.rowOffsets.every(test);
+}
+
+// References hold a row index, or the null marker
+function looksLikeRowIndex(value: bigint): boolean {
+  return value === NULL_QWORD || value <= MAX_ROW_INDEX;
+}
+
+// Offsets into the variable data section start after the magic bytes
+function looksLikeDataOffset(value: bigint, data: RowData): boolean {
+  return value >= 8n && value < BigInt(data.variableDataLength);
+}
+
+function guessColumn(data: RowData, offset: number, remaining: number): GuessedColumn {
+  const { buffer } = data;
+  const qword = (rowStart: number, at: number) => buffer.readBigUInt64LE(rowStart + at);
+
+  if (remaining >= 16) {
+    // foreignrow: row index followed by an unused key half (zero or null)
+    const isForeignRow = every(data, row => {
+      const key = qword(row, offset + 8);
+      return looksLikeRowIndex(qword(row, offset)) && (key === 0n || key === NULL_QWORD);
+    });
+    if (isForeignRow) return { type: 'foreignrow', offset, size: 16 };
+
+    // array: element count followed by an offset into variable data
+    const isArray = every(data, row => {
+      const count = qword(row, offset);
+      return (
+        count <= BigInt(data.variableDataLength) &&
+        (count === 0n || looksLikeDataOffset(qword(row, offset + 8), data))
+      );
+    });
+    if (isArray) return { type: 'array', offset, size: 16 };
+  }
+
+  if (remaining >= 8) {
+    if (every(data, row => looksLikeDataOffset(qword(row, offset), data))) {
+      return { type: 'string', offset, size: 8 };
+    }
+    if (every(data, row => looksLikeRowIndex(qword(row, offset)))) {
+      return { type: 'row', offset, size: 8 };
+    }
+    // 64-bit integers mostly hold small values, so the high dword only repeats the sign of
+    // the low one; two unrelated i32 columns rarely line up like that in every row
+    const isI64 = every(data, row => {
+      const value = buffer.readBigInt64LE(row + offset);
+      return value >= -0x80000000n && value <= 0x7fffffffn;
+    });
+    if (isI64) return { type: 'i64', offset, size: 8 };
+  }
+
+  // Bools are single bytes, so they're what leaves a row size that isn't a multiple of 4
+  const isBool = every(data, row => buffer[row + offset] <= 1);
+  if (isBool && remaining % 4 !== 0) return { type: 'bool', offset, size: 1 };
+  if (remaining >= 4) return { type: 'i32', offset, size: 4 };
+  if (isBool) return { type: 'bool', offset, size: 1 };
+  return { type: 'u8', offset, size: 1 };
+}
+
+/**
+ * Guess the columns stored in `size` bytes at `offset` of every row
+ */
+function guessColumns(data: RowData, offset: number, size: number): GuessedColumn[] {
+  const guess: GuessedColumn[] = [];
+  let position = offset;
+  while (position < offset + size) {
+    const column = guessColumn(data, position, offset + size - position);
+    guess.push(column);
+    position += column.size;
+  }
+  return guess;
+}
+
+/**
+ * Describe a guess as counts per type, in order of first appearance
+ */
+export function summarizeGuess(guess: GuessedColumn[]): string {
+  const counts = new Map<string, number>();
+  for (const column of guess) {
+    counts.set(column.type, (counts.get(column.type) ?? 0) + 1);
+  }
+  return [...counts].map(([type, count]) => `${count} ${type}`).join(' + ');
+}
+
+/**
+ * Check a table's schema against its .datc64 contents
+ */
+export function validateTable(
+  parser: DATParser,
+  buffer: Buffer,
+  tableName: string
+): TableValidation {
+  const table = parser.getTableSchema(tableName);
+  const result: TableValidation = {
+    table: table?.name ?? tableName,
+    status: 'ok',
+    rowCount: 0,
+    schemaRowSize: 0,
+    actualRowSize: 0,
+    delta: 0,
+    unreadBytes: null,
+    overflowingColumns: [],
+    guess: [],
+    guessSummary: null,
+  };
+
+  if (!table) {
+    return { ...result, status: 'error', error: 'No schema for table' };
+  }
+  result.schemaRowSize = parser.getSchemaRowSize(table.name)!;
+
+  const layout = readDatLayout(buffer);
+  if ('error' in layout) {
+    return { ...result, status: 'error', error: layout.error };
+  }
+  result.rowCount = layout.rowCount;
+  if (layout.rowCount === 0) {
+    // Nothing to measure the row size from
+    return { ...result, status: 'empty' };
+  }
+
+  result.actualRowSize = layout.rowSize;
+  result.delta = layout.rowSize - result.schemaRowSize;
+  if (result.delta === 0) return result;
+  result.status = 'mismatch';
+
+  if (result.delta < 0) {
+    let offset = 0;
+    table.columns.forEach((col, i) => {
+      const size = columnSize(col);
+      if (offset + size > layout.rowSize) {
+        result.overflowingColumns.push({
+          name: col.name || `_unknown${i}`,
+          type: col.type,
+          offset,
+          size,
+        });
+      }
+      offset += size;
+    });
+    return result;
+  }
+
+  result.unreadBytes = { offset: result.schemaRowSize, size: result.delta };
+
+  const sampled = Math.min(layout.rowCount, MAX_SAMPLED_ROWS);
+  const step = layout.rowCount / sampled;
+  const rowOffsets = Array.from(
+    { length: sampled },
+    (_, i) => layout.fixedDataStart + Math.floor(i * step) * layout.rowSize
+  );
+  const data: RowData = {
+    buffer,
+    rowOffsets,
+    variableDataLength: buffer.length - layout.variableDataStart,
+  };
+  result.guess = guessColumns(data, result.schemaRowSize, result.delta);
+  result.guessSummary = summarizeGuess(result.guess);
+  return result;
+}
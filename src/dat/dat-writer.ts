@@ -0,0 +1,205 @@
+// DAT Writer - serializes rows back into the .datc64 format DATParser reads
+// Layout: [rowCount:u32][fixed-size rows][0xBB x 8][variable data]. Strings and array
+// elements go to the variable data in row order, and offsets into it are measured from
+// the start of the 0xBB marker. Like game files, identical strings are stored once and
+// shared, empty arrays point at the end of the variable data written so far, and nulls
+// are 0xFE bytes. A table laid out that way is written back byte for byte from its
+// parsed rows.
+
+import {
+  columnSize,
+  type Schema,
+  type SchemaColumn,
+  type SchemaEnumeration,
+  type SchemaTable,
+} from './dat-parser';
+
+const VARIABLE_DATA_MAGIC = Buffer.alloc(8, 0xbb);
+// Null marker for row, foreignrow and string references
+const NULL_MARKER = 0xfefefefefefefefen;
+
+/**
+ * Variable data of one table. It starts with the magic, so the first payload is at
+ * offset 8.
+ */
+class VariableData {
+  readonly chunks: Buffer[] = [VARIABLE_DATA_MAGIC];
+  private size = VARIABLE_DATA_MAGIC.length;
+  private strings = new Map<string, number>();
+
+  /** Append `data` and return its offset */
+  append(data: Buffer): number {
+    const offset = this.size;
+    this.chunks.push(data);
+    this.size += data.length;
+    return offset;
+  }
+
+  /** Offset of a string, appended the first time it is seen */
+  appendString(value: string): number {
+    let offset = this.strings.get(value);
+    if (offset === undefined) {
+      // UTF-16LE with a 4-byte null terminator
+      offset = this.append(Buffer.concat([Buffer.from(value, 'utf16le'), Buffer.alloc(4)]));
+      this.strings.set(value, offset);
+    }
+    return offset;
+  }
+}
+
+export class DATWriter {
+  private enumMap = new Map<string, SchemaEnumeration>();
+
+  /**
+   * `schema` is only needed for its enumerations, to turn enumerator names in enumrow
+   * columns back into numbers
+   */
+  constructor(schema?: Pick<Schema, 'enumerations'>) {
+    for (const enumeration of schema?.enumerations ?? []) {
+      this.enumMap.set(enumeration.name.toLowerCase(), enumeration);
+    }
+  }
+
+  /**
+   * Encode rows for `table`. Rows are keyed by column name (or `_unknown<index>` for
+   * unnamed columns) as DATParser produces them; missing values are written as zero or
+   * null. Interval columns take `[min, max]` pairs.
+   */
+  write(rows: Record<string, unknown>[], table: SchemaTable): Buffer {
+    const rowSize = table.columns.reduce((size, col) => size + columnSize(col), 0);
+
+    const fixed = Buffer.alloc(4 + rows.length * rowSize);
+    fixed.writeUInt32LE(rows.length, 0);
+
+    const variable = new VariableData();
+
+    let pos = 4;
+    for (const row of rows) {
+      table.columns.forEach((col, colIdx) => {
+        const fieldName = col.name || `_unknown${colIdx}`;
+        const value = col.type === 'enumrow' ? this.enumValue(row, fieldName, col) : row[fieldName];
+
+        if (col.array) {
+          const values = Array.isArray(value) ? value : [];
+          const elementSize = columnSize({ ...col, array: false });
+          const elements = Buffer.alloc(values.length * elementSize);
+          values.forEach((element, i) => {
+            this.writeValue(elements, i * elementSize, col, element, variable);
+          });
+          fixed.writeBigUInt64LE(BigInt(values.length), pos);
+          // An empty array appends nothing and points at the current end of the data
+          fixed.writeBigUInt64LE(BigInt(variable.append(elements)), pos + 8);
+        } else {
+          this.writeValue(fixed, pos, col, value, variable);
+        }
+        pos += columnSize(col);
+      });
+    }
+
+    return Buffer.concat([fixed, ...variable.chunks]);
+  }
+
+  /**
+   * Numeric value of an enumrow column: the `<column>_value` field if the rows were
+   * parsed with keepEnumValues, otherwise enumerator names mapped back to numbers
+   */
+  private enumValue(row: Record<string, unknown>, fieldName: string, col: SchemaColumn): unknown {
+    if (`${fieldName}_value` in row) {
+      return row[`${fieldName}_value`];
+    }
+
+    const value = row[fieldName];
+    const enumeration = col.references
+      ? this.enumMap.get(col.references.table.toLowerCase())
+      : undefined;
+    const toNumber = (name: unknown) => {
+      if (typeof name !== 'string') return name;
+      const index = enumeration?.enumerators.indexOf(name) ?? -1;
+      if (index === -1) {
+        throw new Error(`Unknown enumerator ${name} for ${fieldName}`);
+      }
+      return index + enumeration!.indexing;
+    };
+    return Array.isArray(value) ? value.map(toNumber) : toNumber(value);
+  }
+
+  private writeValue(
+    buffer: Buffer,
+    offset: number,
+    col: SchemaColumn,
+    value: unknown,
+    variable: VariableData
+  ): void {
+    if (!col.interval) {
+      this.writeField(buffer, offset, col.type, value, variable);
+      return;
+    }
+    const [min, max] = Array.isArray(value) ? value : [];
+    const size = columnSize({ ...col, array: false, interval: false });
+    this.writeField(buffer, offset, col.type, min, variable);
+    this.writeField(buffer, offset + size, col.type, max, variable);
+  }
+
+  private writeField(
+    buffer: Buffer,
+    offset: number,
+    type: string,
+    value: unknown,
+    variable: VariableData
+  ): void {
+    const isNull = value === null || value === undefined;
+
+    switch (type) {
+      case 'bool':
+        buffer.writeUInt8(value ? 1 : 0, offset);
+        break;
+      case 'i8':
+        buffer.writeInt8(Number(value ?? 0), offset);
+        break;
+      case 'u8':
+        buffer.writeUInt8(Number(value ?? 0), offset);
+        break;
+      case 'i16':
+        buffer.writeInt16LE(Number(value ?? 0), offset);
+        break;
+      case 'u16':
+        buffer.writeUInt16LE(Number(value ?? 0), offset);
+        break;
+      case 'i32':
+      case 'enumrow':
+        buffer.writeInt32LE(Number(value ?? 0), offset);
+        break;
+      case 'u32':
+        buffer.writeUInt32LE(Number(value ?? 0), offset);
+        break;
+      case 'i64':
+        buffer.writeBigInt64LE(BigInt(String(value ?? 0)), offset);
+        break;
+      case 'u64':
+        buffer.writeBigUInt64LE(BigInt(String(value ?? 0)), offset);
+        break;
+      case 'f32':
+        buffer.writeFloatLE(Number(value ?? 0), offset);
+        break;
+      case 'string':
+        if (isNull) {
+          buffer.writeBigUInt64LE(NULL_MARKER, offset);
+        } else {
+          buffer.writeBigUInt64LE(BigInt(variable.appendString(String(value))), offset);
+        }
+        break;
+      case 'row':
+        buffer.writeBigUInt64LE(isNull ? NULL_MARKER : BigInt(Number(value)), offset);
+        break;
+      case 'foreignrow':
+        // The second half is unused and zero, except in nulls
+        buffer.writeBigUInt64LE(isNull ? NULL_MARKER : BigInt(Number(value)), offset);
+        buffer.writeBigUInt64LE(isNull ? NULL_MARKER : 0n, offset + 8);
+        break;
+      default:
+        // DATParser reads unknown types as 8-byte integers
+        buffer.writeBigInt64LE(BigInt(String(value ?? 0)), offset);
+        break;
+    }
+  }
+}
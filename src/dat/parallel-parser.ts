@@ -3,6 +3,8 @@ import { readdir, mkdir } from 'fs/promises';
 import * as path from 'path';
 import { cpus } from 'os';
 import { logger } from '../utils/logger';
+import type { ParserOptions } from './dat-parser';
+import { outputExtension, type OutputFormat, type OutputOptions } from './row-formatter';
 
 interface ParseTask {
   inputPath: string;
@@ -23,10 +25,18 @@ export interface ParallelParseOptions {
   limit?: number;
   concurrency?: number;
   useCache?: boolean;
+  /** Keep numeric enumrow values alongside enumerator names */
+  keepEnumValues?: boolean;
+  format?: OutputFormat;
+  pretty?: boolean;
+  /** Joins array elements in CSV/TSV cells */
+  arraySeparator?: string;
 }
 
 export interface ParallelParseResult {
   success: number;
+  /** Tables written up to a row that failed to parse (also counted in `success`) */
+  partial: number;
   failed: number;
   skipped: number;
   cached: number;
@@ -42,6 +52,8 @@ function runWorkerBatch(
   schemaPath: string,
   tasks: ParseTask[],
   useCache: boolean,
+  parserOptions: ParserOptions,
+  outputOptions: OutputOptions,
   onProgress?: (completed: number, currentFile?: string) => void
 ): Promise<ParseResult[]> {
   return new Promise((resolve, reject) => {
@@ -57,7 +69,8 @@ function runWorkerBatch(
         worker.postMessage({ 
           type: 'batch', 
           tasks,
-          checkCache: useCache
+          checkCache: useCache,
+          outputOptions
         });
       } else if (msg.type === 'progress') {
         // Progress update - count=0 means "starting", count=1 means "done"
@@ -77,7 +90,7 @@ function runWorkerBatch(
     };
     
     // Initialize worker with schema
-    worker.postMessage({ type: 'init', schemaPath });
+    worker.postMessage({ type: 'init', schemaPath, parserOptions });
   });
 }
 
@@ -111,7 +124,7 @@ export async function parseAllDatFilesParallel(
   logger.info(`Found ${datFiles.length} .datc64 files to parse`);
   
   if (datFiles.length === 0) {
-    return { success: 0, failed: 0, skipped: 0, cached: 0, totalRows: 0, elapsedMs: 0 };
+    return { success: 0, partial: 0, failed: 0, skipped: 0, cached: 0, totalRows: 0, elapsedMs: 0 };
   }
   
   // Ensure output dir exists
@@ -122,7 +135,7 @@ export async function parseAllDatFilesParallel(
     const tableName = file.replace('.datc64', '');
     return {
       inputPath: path.join(inputDir, file),
-      outputPath: path.join(outputDir, `${tableName}.json`),
+      outputPath: path.join(outputDir, tableName + outputExtension(options.format)),
       tableName
     };
   });
@@ -177,7 +190,15 @@ export async function parseAllDatFilesParallel(
   try {
     // Run all worker batches in parallel
     const batchPromises = batches.map(batch => 
-      runWorkerBatch(workerUrl, schemaPath, batch, options.useCache !== false, onProgress)
+      runWorkerBatch(
+        workerUrl,
+        schemaPath,
+        batch,
+        options.useCache !== false,
+        { keepEnumValues: options.keepEnumValues },
+        { format: options.format, pretty: options.pretty, arraySeparator: options.arraySeparator },
+        onProgress
+      )
     );
     
     const batchResults = await Promise.all(batchPromises);
@@ -196,6 +217,7 @@ export async function parseAllDatFilesParallel(
     // Aggregate results
     const stats: ParallelParseResult = {
       success: 0,
+      partial: 0,
       failed: 0,
       skipped: 0,
       cached: 0,
@@ -210,6 +232,10 @@ export async function parseAllDatFilesParallel(
       } else if (result.success) {
         stats.success++;
         stats.totalRows += result.rowCount;
+        if (result.error) {
+          stats.partial++;
+          logger.warn(`Partial: ${result.tableName}: ${result.error}`);
+        }
       } else if (result.error === 'No schema') {
         stats.skipped++;
       } else {
@@ -0,0 +1,545 @@
+// Parquet Writer - writes parsed DAT rows as an Apache Parquet file
+// Rows are buffered per row group and flushed to disk as each group fills, so memory is
+// bounded by the row group size rather than the table size. Pages are written
+// uncompressed with PLAIN values and RLE levels, which every Parquet reader supports.
+
+import { closeSync, openSync, writeSync } from 'fs';
+import type { DATParser } from './dat-parser';
+
+const MAGIC = Buffer.from('PAR1');
+const CREATED_BY = 'ggpk-extract';
+
+/** Rows per row group; each group's column values are held in memory until flushed */
+export const DEFAULT_ROW_GROUP_SIZE = 65536;
+
+// Parquet physical types
+const PhysicalType = {
+  BOOLEAN: 0,
+  INT32: 1,
+  INT64: 2,
+  FLOAT: 4,
+  BYTE_ARRAY: 6,
+} as const;
+
+// Parquet converted types (logical annotations)
+const ConvertedType = {
+  UTF8: 0,
+  LIST: 3,
+  UINT_8: 11,
+  UINT_16: 12,
+  UINT_32: 13,
+  UINT_64: 14,
+  INT_8: 15,
+  INT_16: 16,
+  INT_64: 18,
+} as const;
+
+const Repetition = {
+  REQUIRED: 0,
+  OPTIONAL: 1,
+  REPEATED: 2,
+} as const;
+
+const Encoding = {
+  PLAIN: 0,
+  RLE: 3,
+} as const;
+
+export interface ParquetColumn {
+  /** Field name in parsed rows */
+  name: string;
+  type: 'boolean' | 'int32' | 'int64' | 'float' | 'string';
+  converted?: number;
+  /** Written as a LIST of elements */
+  array: boolean;
+}
+
+/**
+ * Parquet columns for a table's parsed rows: `_rid` followed by the schema's columns.
+ * Intervals are written as JSON strings; enumrow columns with a known enumeration hold
+ * enumerator names.
+ */
+export function parquetColumns(parser: DATParser, tableName: string): ParquetColumn[] {
+  const table = parser.getTableSchema(tableName);
+  if (!table) return [];
+
+  const names = new Set(parser.getColumnNames(tableName));
+  const columns: ParquetColumn[] = [{ name: '_rid', type: 'int32', array: false }];
+
+  table.columns.forEach((col, colIdx) => {
+    const name = col.name || `_unknown${colIdx}`;
+    const column = (type: ParquetColumn['type'], converted?: number): ParquetColumn => ({
+      name,
+      type,
+      converted,
+      array: col.array,
+    });
+
+    if (col.interval) {
+      columns.push(column('string', ConvertedType.UTF8));
+      return;
+    }
+    switch (col.type) {
+      case 'bool':
+        columns.push(column('boolean'));
+        break;
+      case 'i8':
+        columns.push(column('int32', ConvertedType.INT_8));
+        break;
+      case 'u8':
+        columns.push(column('int32', ConvertedType.UINT_8));
+        break;
+      case 'i16':
+        columns.push(column('int32', ConvertedType.INT_16));
+        break;
+      case 'u16':
+        columns.push(column('int32', ConvertedType.UINT_16));
+        break;
+      case 'i32':
+        columns.push(column('int32'));
+        break;
+      case 'u32':
+        columns.push(column('int32', ConvertedType.UINT_32));
+        break;
+      case 'u64':
+        columns.push(column('int64', ConvertedType.UINT_64));
+        break;
+      case 'f32':
+        columns.push(column('float'));
+        break;
+      case 'string':
+        columns.push(column('string', ConvertedType.UTF8));
+        break;
+      case 'enumrow': {
+        const mapped = col.references && parser.getEnumeration(col.references.table);
+        columns.push(mapped ? column('string', ConvertedType.UTF8) : column('int32'));
+        if (names.has(`${name}_value`)) {
+          columns.push({ name: `${name}_value`, type: 'int32', array: col.array });
+        }
+        break;
+      }
+      default:
+        // i64, row and foreignrow
+        columns.push(column('int64', ConvertedType.INT_64));
+    }
+  });
+
+  return columns;
+}
+
+// --- Thrift compact protocol ---------------------------------------------------------
+// Just enough of it to write the footer and page headers. A struct is a list of fields;
+// each field is [id, type, value].
+
+type ThriftField =
+  | [number, 'i32', number]
+  | [number, 'i64', number | bigint]
+  | [number, 'string', string]
+  | [number, 'struct', ThriftField[]]
+  | [number, 'i32[]', number[]]
+  | [number, 'string[]', string[]]
+  | [number, 'struct[]', ThriftField[][]];
+
+const COMPACT_TYPES = { i32: 5, i64: 6, string: 8, list: 9, struct: 12 } as const;
+
+class ThriftWriter {
+  private bytes: number[] = [];
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+
+  private varint(value: bigint): void {
+    while (value >= 0x80n) {
+      this.bytes.push(Number(value & 0x7fn) | 0x80);
+      value >>= 7n;
+    }
+    this.bytes.push(Number(value));
+  }
+
+  private zigzag(value: number | bigint): void {
+    const n = BigInt(value);
+    this.varint(BigInt.asUintN(64, (n << 1n) ^ (n >> 63n)));
+  }
+
+  private binary(value: string): void {
+    const data = Buffer.from(value, 'utf8');
+    this.varint(BigInt(data.length));
+    for (const byte of data) this.bytes.push(byte);
+  }
+
+  private listHeader(size: number, elementType: number): void {
+    if (size < 15) {
+      this.bytes.push((size << 4) | elementType);
+    } else {
+      this.bytes.push(0xf0 | elementType);
+      this.varint(BigInt(size));
+    }
+  }
+
+  writeStruct(fields: ThriftField[]): void {
+    let lastId = 0;
+    for (const [id, type, value] of fields) {
+      const compactType = type.endsWith('[]')
+        ? COMPACT_TYPES.list
+        : COMPACT_TYPES[type as keyof typeof COMPACT_TYPES];
+      const delta = id - lastId;
+      if (delta > 0 && delta <= 15) {
+        this.bytes.push((delta << 4) | compactType);
+      } else {
+        this.bytes.push(compactType);
+        this.zigzag(id);
+      }
+      lastId = id;
+
+      switch (type) {
+        case 'i32':
+        case 'i64':
+          this.zigzag(value as number | bigint);
+          break;
+        case 'string':
+          this.binary(value as string);
+          break;
+        case 'struct':
+          this.writeStruct(value as ThriftField[]);
+          break;
+        case 'i32[]':
+          this.listHeader((value as number[]).length, COMPACT_TYPES.i32);
+          for (const item of value as number[]) this.zigzag(item);
+          break;
+        case 'string[]':
+          this.listHeader((value as string[]).length, COMPACT_TYPES.string);
+          for (const item of value as string[]) this.binary(item);
+          break;
+        case 'struct[]':
+          this.listHeader((value as ThriftField[][]).length, COMPACT_TYPES.struct);
+          for (const item of value as ThriftField[][]) this.writeStruct(item);
+          break;
+      }
+    }
+    this.bytes.push(0); // stop
+  }
+}
+
+function thrift(fields: ThriftField[]): Buffer {
+  const writer = new ThriftWriter();
+  writer.writeStruct(fields);
+  return writer.toBuffer();
+}
+
+// --- Column encoding -----------------------------------------------------------------
+
+const PHYSICAL_TYPES: Record<ParquetColumn['type'], number> = {
+  boolean: PhysicalType.BOOLEAN,
+  int32: PhysicalType.INT32,
+  int64: PhysicalType.INT64,
+  float: PhysicalType.FLOAT,
+  string: PhysicalType.BYTE_ARRAY,
+};
+
+// Levels of an optional scalar, and of an optional list of optional elements
+// (null list = 0, empty list = 1, null element = 2, element = 3)
+const maxDefinitionLevel = (column: ParquetColumn) => (column.array ? 3 : 1);
+const maxRepetitionLevel = (column: ParquetColumn) => (column.array ? 1 : 0);
+
+/**
+ * RLE/bit-packed hybrid encoding of levels, using RLE runs only, with the 4-byte
+ * length prefix data pages expect
+ */
+function encodeLevels(levels: number[], maxLevel: number): Buffer {
+  const bitWidth = Math.ceil(Math.log2(maxLevel + 1));
+  const valueBytes = Math.ceil(bitWidth / 8);
+  const bytes: number[] = [];
+
+  for (let i = 0; i < levels.length; ) {
+    let run = 1;
+    while (i + run < levels.length && levels[i + run] === levels[i]) run++;
+
+    let header = run << 1;
+    while (header >= 0x80) {
+      bytes.push((header & 0x7f) | 0x80);
+      header >>>= 7;
+    }
+    bytes.push(header);
+    for (let b = 0; b < valueBytes; b++) bytes.push((levels[i] >> (8 * b)) & 0xff);
+    i += run;
+  }
+
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(bytes.length);
+  return Buffer.concat([length, Buffer.from(bytes)]);
+}
+
+function encodeValues(column: ParquetColumn, values: unknown[]): Buffer {
+  switch (column.type) {
+    case 'boolean': {
+      const buffer = Buffer.alloc(Math.ceil(values.length / 8));
+      values.forEach((value, i) => {
+        if (value) buffer[i >> 3] |= 1 << (i & 7);
+      });
+      return buffer;
+    }
+    case 'int32': {
+      const buffer = Buffer.alloc(values.length * 4);
+      values.forEach((value, i) => buffer.writeInt32LE(Number(value) | 0, i * 4));
+      return buffer;
+    }
+    case 'int64': {
+      const buffer = Buffer.alloc(values.length * 8);
+      values.forEach((value, i) =>
+        buffer.writeBigInt64LE(BigInt.asIntN(64, BigInt(value as number | string)), i * 8)
+      );
+      return buffer;
+    }
+    case 'float': {
+      const buffer = Buffer.alloc(values.length * 4);
+      values.forEach((value, i) => buffer.writeFloatLE(Number(value), i * 4));
+      return buffer;
+    }
+    case 'string': {
+      const parts: Buffer[] = [];
+      for (const value of values) {
+        const data = Buffer.from(
+          typeof value === 'string' ? value : (JSON.stringify(value) ?? ''),
+          'utf8'
+        );
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(data.length);
+        parts.push(length, data);
+      }
+      return Buffer.concat(parts);
+    }
+  }
+}
+
+class ColumnBuffer {
+  column: ParquetColumn;
+  values: unknown[] = [];
+  definitionLevels: number[] = [];
+  repetitionLevels: number[] = [];
+
+  constructor(column: ParquetColumn) {
+    this.column = column;
+  }
+
+  add(value: unknown): void {
+    const isNull = value === null || value === undefined;
+    if (!this.column.array) {
+      this.definitionLevels.push(isNull ? 0 : 1);
+      if (!isNull) this.values.push(value);
+      return;
+    }
+
+    if (isNull || !Array.isArray(value)) {
+      this.repetitionLevels.push(0);
+      this.definitionLevels.push(isNull ? 0 : 1);
+      return;
+    }
+    if (value.length === 0) {
+      this.repetitionLevels.push(0);
+      this.definitionLevels.push(1);
+      return;
+    }
+    value.forEach((element, i) => {
+      this.repetitionLevels.push(i === 0 ? 0 : 1);
+      if (element === null || element === undefined) {
+        this.definitionLevels.push(2);
+      } else {
+        this.definitionLevels.push(3);
+        this.values.push(element);
+      }
+    });
+  }
+
+  clear(): void {
+    this.values = [];
+    this.definitionLevels = [];
+    this.repetitionLevels = [];
+  }
+
+  /**
+   * One data page holding the whole column chunk
+   */
+  encodePage(): { header: Buffer; body: Buffer; numValues: number } {
+    const { column } = this;
+    const parts: Buffer[] = [];
+    if (maxRepetitionLevel(column) > 0) {
+      parts.push(encodeLevels(this.repetitionLevels, maxRepetitionLevel(column)));
+    }
+    parts.push(encodeLevels(this.definitionLevels, maxDefinitionLevel(column)));
+    parts.push(encodeValues(column, this.values));
+    const body = Buffer.concat(parts);
+
+    const numValues = this.definitionLevels.length;
+    const header = thrift([
+      [1, 'i32', 0], // DATA_PAGE
+      [2, 'i32', body.length],
+      [3, 'i32', body.length],
+      [
+        5,
+        'struct',
+        [
+          [1, 'i32', numValues],
+          [2, 'i32', Encoding.PLAIN],
+          [3, 'i32', Encoding.RLE],
+          [4, 'i32', Encoding.RLE],
+        ],
+      ],
+    ]);
+    return { header, body, numValues };
+  }
+}
+
+function schemaElements(columns: ParquetColumn[]): ThriftField[][] {
+  const elements: ThriftField[][] = [
+    [
+      [4, 'string', 'schema'],
+      [5, 'i32', columns.length],
+    ],
+  ];
+
+  for (const column of columns) {
+    const leaf = (name: string): ThriftField[] => {
+      const fields: ThriftField[] = [
+        [1, 'i32', PHYSICAL_TYPES[column.type]],
+        [3, 'i32', Repetition.OPTIONAL],
+        [4, 'string', name],
+      ];
+      if (column.converted !== undefined) fields.push([6, 'i32', column.converted]);
+      return fields;
+    };
+
+    if (column.array) {
+      elements.push(
+        [
+          [3, 'i32', Repetition.OPTIONAL],
+          [4, 'string', column.name],
+          [5, 'i32', 1],
+          [6, 'i32', ConvertedType.LIST],
+        ],
+        [
+          [3, 'i32', Repetition.REPEATED],
+          [4, 'string', 'list'],
+          [5, 'i32', 1],
+        ],
+        leaf('element')
+      );
+    } else {
+      elements.push(leaf(column.name));
+    }
+  }
+
+  return elements;
+}
+
+/**
+ * Writes rows to a Parquet file one row group at a time
+ */
+export class ParquetWriter {
+  private columns: ParquetColumn[];
+  private fd: number;
+  private offset = 0;
+  private buffers: ColumnBuffer[];
+  private bufferedRows = 0;
+  private totalRows = 0;
+  private rowGroups: ThriftField[][] = [];
+  private rowGroupSize: number;
+
+  constructor(
+    outputPath: string,
+    columns: ParquetColumn[],
+    options: { rowGroupSize?: number } = {}
+  ) {
+    this.columns = columns;
+    this.rowGroupSize = options.rowGroupSize ?? DEFAULT_ROW_GROUP_SIZE;
+    this.buffers = columns.map(column => new ColumnBuffer(column));
+    this.fd = openSync(outputPath, 'w');
+    this.write(MAGIC);
+  }
+
+  private write(data: Buffer): void {
+    writeSync(this.fd, data);
+    this.offset += data.length;
+  }
+
+  writeRow(row: any): void {
+    for (const buffer of this.buffers) {
+      buffer.add(row[buffer.column.name]);
+    }
+    this.bufferedRows++;
+    if (this.bufferedRows >= this.rowGroupSize) {
+      this.flush();
+    }
+  }
+
+  writeRows(rows: Iterable<any>): void {
+    for (const row of rows) {
+      this.writeRow(row);
+    }
+  }
+
+  private flush(): void {
+    if (this.bufferedRows === 0) return;
+
+    const chunks: ThriftField[][] = [];
+    let groupSize = 0;
+    for (const buffer of this.buffers) {
+      const { column } = buffer;
+      const { header, body, numValues } = buffer.encodePage();
+      const pageOffset = this.offset;
+      this.write(header);
+      this.write(body);
+      buffer.clear();
+
+      const chunkSize = header.length + body.length;
+      groupSize += chunkSize;
+      chunks.push([
+        [2, 'i64', pageOffset],
+        [
+          3,
+          'struct',
+          [
+            [1, 'i32', PHYSICAL_TYPES[column.type]],
+            [2, 'i32[]', [Encoding.PLAIN, Encoding.RLE]],
+            [3, 'string[]', column.array ? [column.name, 'list', 'element'] : [column.name]],
+            [4, 'i32', 0], // UNCOMPRESSED
+            [5, 'i64', numValues],
+            [6, 'i64', chunkSize],
+            [7, 'i64', chunkSize],
+            [9, 'i64', pageOffset],
+          ],
+        ],
+      ]);
+    }
+
+    this.rowGroups.push([
+      [1, 'struct[]', chunks],
+      [2, 'i64', groupSize],
+      [3, 'i64', this.bufferedRows],
+    ]);
+    this.totalRows += this.bufferedRows;
+    this.bufferedRows = 0;
+  }
+
+  /**
+   * Flush the last row group and write the footer. Returns the number of rows written.
+   */
+  close(): number {
+    try {
+      this.flush();
+      const footer = thrift([
+        [1, 'i32', 1],
+        [2, 'struct[]', schemaElements(this.columns)],
+        [3, 'i64', this.totalRows],
+        [4, 'struct[]', this.rowGroups],
+        [6, 'string', CREATED_BY],
+      ]);
+      const length = Buffer.alloc(4);
+      length.writeUInt32LE(footer.length);
+      this.write(Buffer.concat([footer, length, MAGIC]));
+    } finally {
+      closeSync(this.fd);
+    }
+    return this.totalRows;
+  }
+}
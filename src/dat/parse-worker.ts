@@ -1,7 +1,8 @@
 // DAT Parser Worker - runs in a separate thread for parallel processing
 // Uses Bun's Web Worker API
 
-import { DATParser } from './dat-parser';
+import { DATParser, MAX_DAT_FILE_SIZE, type ParserOptions } from './dat-parser';
+import { writeTableOutput, type OutputOptions } from './row-formatter';
 
 declare var self: Worker;
 
@@ -22,15 +23,17 @@ interface ParseResult {
 interface WorkerMessage {
   type: 'init' | 'batch';
   schemaPath?: string;
+  parserOptions?: ParserOptions;
   tasks?: ParseTask[];
   checkCache?: boolean;
+  outputOptions?: OutputOptions;
 }
 
 let parser: DATParser | null = null;
 
-async function initParser(schemaPath: string): Promise<void> {
+async function initParser(schemaPath: string, options: ParserOptions = {}): Promise<void> {
   const schema = await DATParser.loadSchema(schemaPath);
-  parser = new DATParser(schema, true);
+  parser = new DATParser(schema, true, options);
 }
 
 async function isCached(inputPath: string, outputPath: string): Promise<boolean> {
@@ -46,7 +49,7 @@ async function isCached(inputPath: string, outputPath: string): Promise<boolean>
   }
 }
 
-async function parseFile(task: ParseTask, checkCache: boolean): Promise<ParseResult> {
+async function parseFile(task: ParseTask, checkCache: boolean, outputOptions: OutputOptions): Promise<ParseResult> {
   if (!parser) {
     return { tableName: task.tableName, success: false, rowCount: 0, error: 'Parser not initialized' };
   }
@@ -78,24 +81,24 @@ async function parseFile(task: ParseTask, checkCache: boolean): Promise<ParseRes
       return { tableName: task.tableName, success: false, rowCount: 0, error: 'Empty file' };
     }
     
-    // Skip extremely large files that might cause issues (>100MB)
-    if (size > 100 * 1024 * 1024) {
+    // The whole file is read into memory, so skip extremely large ones
+    if (size > MAX_DAT_FILE_SIZE) {
       return { tableName: task.tableName, success: false, rowCount: 0, error: `File too large: ${(size / 1024 / 1024).toFixed(1)}MB` };
     }
     
+    // Rows are written as they're parsed, so the output side uses little memory
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
-    const result = parser.parse(buffer, task.tableName);
-    
-    // Write JSON (compact for smaller files)
-    const json = JSON.stringify(result.rows);
-    await Bun.write(task.outputPath, json);
+    const status: { error?: string } = {};
+    const rows = parser.iterateRows(buffer, task.tableName, status);
+    const rowCount = await writeTableOutput(task.outputPath, rows, parser, task.tableName, outputOptions);
     
+    // Rows before a parse error are kept; the error marks the table as partial
     return { 
       tableName: task.tableName, 
       success: true, 
-      rowCount: result.rowCount,
-      error: result.error 
+      rowCount,
+      error: status.error
     };
   } catch (e) {
     return { 
@@ -107,14 +110,14 @@ async function parseFile(task: ParseTask, checkCache: boolean): Promise<ParseRes
   }
 }
 
-async function parseBatch(tasks: ParseTask[], checkCache: boolean): Promise<ParseResult[]> {
+async function parseBatch(tasks: ParseTask[], checkCache: boolean, outputOptions: OutputOptions): Promise<ParseResult[]> {
   const results: ParseResult[] = [];
   
   for (const task of tasks) {
     // Send "starting" progress so main thread knows what file we're on
     self.postMessage({ type: 'progress', count: 0, currentFile: task.tableName });
     
-    const result = await parseFile(task, checkCache);
+    const result = await parseFile(task, checkCache, outputOptions);
     results.push(result);
     
     // Send "completed" progress
@@ -126,20 +129,20 @@ async function parseBatch(tasks: ParseTask[], checkCache: boolean): Promise<Pars
 
 // Bun Web Worker message handler
 self.onmessage = async (event: MessageEvent<WorkerMessage>) => {
-  const { type, schemaPath, tasks, checkCache } = event.data;
+  const { type, schemaPath, parserOptions, tasks, checkCache, outputOptions } = event.data;
   
   try {
     switch (type) {
       case 'init':
         if (schemaPath) {
-          await initParser(schemaPath);
+          await initParser(schemaPath, parserOptions);
           self.postMessage({ type: 'ready' });
         }
         break;
         
       case 'batch':
         if (tasks) {
-          const results = await parseBatch(tasks, checkCache ?? false);
+          const results = await parseBatch(tasks, checkCache ?? false, outputOptions ?? {});
           self.postMessage({ type: 'batch-result', results });
         }
         break;
@@ -0,0 +1,157 @@
+// Row Formatter - serializes parsed DAT rows for parse-all-dat output
+// JSON keeps values as parsed; CSV and TSV flatten them into one cell per column so the
+// files open directly in a spreadsheet. Parquet is binary and goes through ParquetWriter.
+
+import { unlink } from 'fs/promises';
+import type { DATParser } from './dat-parser';
+import { ParquetWriter, parquetColumns } from './parquet-writer';
+
+export type OutputFormat = 'json' | 'ndjson' | 'csv' | 'tsv' | 'parquet';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'ndjson', 'csv', 'tsv', 'parquet'];
+
+/** Joins array elements inside a CSV/TSV cell */
+export const DEFAULT_ARRAY_SEPARATOR = '|';
+
+export interface OutputOptions {
+  format?: OutputFormat;
+  /** Indent JSON output */
+  pretty?: boolean;
+  arraySeparator?: string;
+}
+
+/**
+ * File extension (with dot) for an output format
+ */
+export function outputExtension(format: OutputFormat = 'json'): string {
+  return `.${format}`;
+}
+
+function cellText(value: unknown, arraySeparator: string): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) {
+    // Nested arrays (e.g. arrays of intervals) stay as JSON inside the flattened cell
+    const items = value.map(item =>
+      Array.isArray(item) ? JSON.stringify(item) : cellText(item, arraySeparator)
+    );
+    // Elements containing the separator couldn't be split apart again, so write JSON
+    if (items.some(item => item.includes(arraySeparator))) return JSON.stringify(value);
+    return items.join(arraySeparator);
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// RFC 4180: quote cells containing the delimiter, quotes or line breaks
+function csvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// TSV has no quoting, so tabs and line breaks inside a cell become spaces
+function tsvCell(text: string): string {
+  return text.replace(/[\t\r\n]/g, ' ');
+}
+
+// Text is handed to the file writer in pieces of about this many characters
+const WRITE_CHUNK_SIZE = 1 << 20;
+
+/**
+ * Serialize rows in the given format, one piece at a time, so output can be written as
+ * rows are parsed. `columns` is the header row for CSV/TSV and the order of cells in
+ * each line; JSON formats write rows as they are.
+ */
+export function* formatRows(
+  rows: Iterable<any>,
+  columns: string[],
+  options: OutputOptions = {}
+): Generator<string> {
+  const format = options.format ?? 'json';
+
+  switch (format) {
+    case 'json': {
+      // Same text JSON.stringify(rows) would produce for the whole array
+      let first = true;
+      for (const row of rows) {
+        const json = options.pretty
+          ? '  ' + JSON.stringify(row, null, 2).replace(/\n/g, '\n  ')
+          : JSON.stringify(row);
+        yield (first ? '[' + (options.pretty ? '\n' : '') : options.pretty ? ',\n' : ',') + json;
+        first = false;
+      }
+      yield first ? '[]' : options.pretty ? '\n]' : ']';
+      break;
+    }
+    case 'ndjson':
+      for (const row of rows) {
+        yield JSON.stringify(row) + '\n';
+      }
+      break;
+    case 'csv':
+    case 'tsv': {
+      const escape = format === 'csv' ? csvCell : tsvCell;
+      const delimiter = format === 'csv' ? ',' : '\t';
+      const arraySeparator = options.arraySeparator ?? DEFAULT_ARRAY_SEPARATOR;
+      const line = (cells: string[]) => cells.map(escape).join(delimiter) + '\n';
+      yield line(columns);
+      for (const row of rows) {
+        yield line(columns.map(column => cellText(row[column], arraySeparator)));
+      }
+      break;
+    }
+    default:
+      throw new Error(`Unknown output format: ${format}`);
+  }
+}
+
+/**
+ * Write a table's rows to `outputPath` in the requested format as they come in, so an
+ * iterator over a huge table is written in constant memory. Returns the number of rows.
+ */
+export async function writeTableOutput(
+  outputPath: string,
+  rows: Iterable<any>,
+  parser: DATParser,
+  tableName: string,
+  options: OutputOptions = {}
+): Promise<number> {
+  let rowCount = 0;
+  const counted = (function* () {
+    for (const row of rows) {
+      rowCount++;
+      yield row;
+    }
+  })();
+
+  try {
+    if (options.format === 'parquet') {
+      const writer = new ParquetWriter(outputPath, parquetColumns(parser, tableName));
+      try {
+        writer.writeRows(counted);
+      } finally {
+        writer.close();
+      }
+      return rowCount;
+    }
+
+    const sink = Bun.file(outputPath).writer();
+    try {
+      let pending = '';
+      for (const text of formatRows(counted, parser.getColumnNames(tableName), options)) {
+        pending += text;
+        if (pending.length >= WRITE_CHUNK_SIZE) {
+          sink.write(pending);
+          await sink.flush();
+          pending = '';
+        }
+      }
+      sink.write(pending);
+    } finally {
+      await sink.end();
+    }
+  } catch (e) {
+    // A half-written file would look up to date to the next run's cache check
+    await unlink(outputPath).catch(() => {});
+    throw e;
+  }
+  return rowCount;
+}
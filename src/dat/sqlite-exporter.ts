@@ -0,0 +1,223 @@
+// SQLite export - writes parsed DAT tables into a SQLite database
+// Each table keeps its row index as `_rid`, which is what foreignrow/row columns point at,
+// so references become ordinary foreign keys that SQL joins can follow.
+
+import type { Database } from 'bun:sqlite';
+import type { DATParser, SchemaColumn, SchemaTable } from './dat-parser';
+
+export interface SqliteExportOptions {
+  /**
+   * Store array columns in `<Table>_<Column>` join tables (`_rid`, `_index`, `value`)
+   * instead of as JSON text
+   */
+  joinTables?: boolean;
+}
+
+interface ExportColumn {
+  /** Key of the value in parsed rows */
+  field: string;
+  /** Column name in SQLite, made unique since SQLite names are case-insensitive */
+  name: string;
+  col: SchemaColumn;
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function exportColumns(table: SchemaTable): ExportColumn[] {
+  const seen = new Set(['_rid']);
+  return table.columns.map((col, i) => {
+    const field = col.name || `_unknown${i}`;
+    let name = field;
+    if (seen.has(name.toLowerCase())) {
+      name = `${field}_${i}`;
+    }
+    seen.add(name.toLowerCase());
+    return { field, name, col };
+  });
+}
+
+/**
+ * SQLite type for a single value of a column
+ */
+function sqlType(parser: DATParser, col: SchemaColumn): string {
+  if (col.interval) return 'TEXT'; // [min, max] as JSON
+  switch (col.type) {
+    case 'string':
+      return 'TEXT';
+    case 'u64':
+      // SQLite integers are signed 64-bit, and INTEGER affinity would round larger
+      // values to REAL, so u64 is kept as decimal text
+      return 'TEXT';
+    case 'f32':
+      return 'REAL';
+    case 'enumrow':
+      // Mapped to enumerator names when the schema has the enumeration
+      return col.references && parser.getEnumeration(col.references.table) ? 'TEXT' : 'INTEGER';
+    default:
+      return 'INTEGER';
+  }
+}
+
+/**
+ * Whether a column of a table already in the database has a unique index of its own
+ */
+export type UniqueIndexCheck = (tableName: string, columnName: string) => boolean;
+
+/**
+ * Foreign key clause for a reference column, or null if it doesn't point at a row
+ */
+function referenceClause(
+  parser: DATParser,
+  table: SchemaTable,
+  col: SchemaColumn,
+  hasUniqueIndex: UniqueIndexCheck
+): string | null {
+  if (col.interval) return null;
+  if (col.type === 'row') return `REFERENCES ${quote(table.name)}(_rid)`;
+  if (col.type !== 'foreignrow' || !col.references) return null;
+
+  const target = parser.getTableSchema(col.references.table);
+  if (!target) return null;
+  if (!col.references.column) return `REFERENCES ${quote(target.name)}(_rid)`;
+
+  // SQLite needs a unique index on the parent column; the schema's `unique` isn't enough,
+  // since tables that break it only get a plain index
+  const targetColumn = exportColumns(target).find(c => c.field === col.references!.column);
+  return targetColumn && hasUniqueIndex(target.name, targetColumn.name)
+    ? `REFERENCES ${quote(target.name)}(${quote(targetColumn.name)})`
+    : null;
+}
+
+function toSqlValue(value: unknown, col: SchemaColumn): string | number | bigint | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (col.interval || typeof value === 'object') return JSON.stringify(value);
+  if (col.type === 'u64') return String(value);
+  // The parser gives 64-bit values beyond Number.MAX_SAFE_INTEGER as decimal strings
+  if (col.type === 'i64' && typeof value === 'string') return BigInt(value);
+  return value as string | number;
+}
+
+/**
+ * Check for unique indexes in `db` with PRAGMA index_list/index_info
+ */
+function uniqueIndexCheck(db: Database): UniqueIndexCheck {
+  return (tableName, columnName) => {
+    const indexes = db.query(`PRAGMA index_list(${quote(tableName)})`).all() as {
+      name: string;
+      unique: number;
+    }[];
+    return indexes.some(index => {
+      if (!index.unique) return false;
+      const columns = db.query(`PRAGMA index_info(${quote(index.name)})`).all() as {
+        name: string;
+      }[];
+      return columns.length === 1 && columns[0].name.toLowerCase() === columnName.toLowerCase();
+    });
+  };
+}
+
+function joinTableName(table: SchemaTable, column: ExportColumn): string {
+  return `${table.name}_${column.name}`;
+}
+
+/**
+ * CREATE TABLE statements for a schema table (and its join tables). References to a
+ * column other than `_rid` only get a foreign key when `hasUniqueIndex` confirms the
+ * parent column is unique.
+ */
+export function createTableSql(
+  parser: DATParser,
+  table: SchemaTable,
+  options: SqliteExportOptions = {},
+  hasUniqueIndex: UniqueIndexCheck = () => false
+): string[] {
+  const definitions = ['_rid INTEGER PRIMARY KEY'];
+  const joinTables: string[] = [];
+
+  for (const column of exportColumns(table)) {
+    const { col } = column;
+    const reference = referenceClause(parser, table, col, hasUniqueIndex);
+
+    if (col.array && options.joinTables) {
+      const value = ['value', sqlType(parser, col), reference].filter(Boolean).join(' ');
+      joinTables.push(
+        `CREATE TABLE ${quote(joinTableName(table, column))} (` +
+          `_rid INTEGER NOT NULL REFERENCES ${quote(table.name)}(_rid), ` +
+          `_index INTEGER NOT NULL, ${value}, PRIMARY KEY (_rid, _index))`
+      );
+      continue;
+    }
+
+    // Without join tables, arrays are JSON text and can be read with json_each()
+    const type = col.array ? 'TEXT' : sqlType(parser, col);
+    definitions.push(
+      [quote(column.name), type, col.array ? null : reference].filter(Boolean).join(' ')
+    );
+  }
+
+  return [`CREATE TABLE ${quote(table.name)} (${definitions.join(', ')})`, ...joinTables];
+}
+
+/**
+ * Create a table and insert its rows. Unique schema columns get a unique index, or a
+ * plain one when the data has duplicates; the names of those columns are returned.
+ * Foreign keys to a column other than `_rid` need the parent table exported first.
+ */
+export function exportTable(
+  db: Database,
+  parser: DATParser,
+  table: SchemaTable,
+  rows: any[],
+  options: SqliteExportOptions = {}
+): string[] {
+  const columns = exportColumns(table);
+  const scalarColumns = columns.filter(c => !(c.col.array && options.joinTables));
+  const arrayColumns = columns.filter(c => c.col.array && options.joinTables);
+
+  for (const sql of createTableSql(parser, table, options, uniqueIndexCheck(db))) {
+    db.run(sql);
+  }
+
+  const names = ['_rid', ...scalarColumns.map(c => quote(c.name))];
+  const insertRow = db.prepare(
+    `INSERT INTO ${quote(table.name)} (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})`
+  );
+  const insertElements = arrayColumns.map(column =>
+    db.prepare(
+      `INSERT INTO ${quote(joinTableName(table, column))} (_rid, _index, value) VALUES (?, ?, ?)`
+    )
+  );
+
+  db.transaction(() => {
+    for (const row of rows) {
+      insertRow.run(
+        row._rid,
+        ...scalarColumns.map(({ field, col }) => toSqlValue(row[field], col))
+      );
+      arrayColumns.forEach(({ field, col }, i) => {
+        const values: unknown[] = row[field] ?? [];
+        values.forEach((value, index) => {
+          insertElements[i].run(row._rid, index, toSqlValue(value, { ...col, array: false }));
+        });
+      });
+    }
+  })();
+
+  const duplicated: string[] = [];
+  for (const { name, col } of scalarColumns) {
+    if (!col.unique) continue;
+    const indexName = quote(`${table.name}_${name}_idx`);
+    const target = `${quote(table.name)}(${quote(name)})`;
+    try {
+      db.run(`CREATE UNIQUE INDEX ${indexName} ON ${target}`);
+    } catch (e) {
+      if ((e as { code?: string }).code !== 'SQLITE_CONSTRAINT_UNIQUE') throw e;
+      db.run(`CREATE INDEX ${indexName} ON ${target}`);
+      duplicated.push(name);
+    }
+  }
+  return duplicated;
+}
@@ -0,0 +1,90 @@
+// Extraction Manifest
+// Records what an extraction produced so later runs can skip unchanged files.
+// Stored as `.manifest.json` in the output directory, keyed by virtual path.
+
+import { existsSync } from 'fs';
+import { readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+export const MANIFEST_FILE = '.manifest.json';
+const MANIFEST_VERSION = 1;
+
+export interface ManifestEntry {
+  /** SHA-256 of the file's contents in the archive */
+  hash: string;
+  size: number;
+  /**
+   * Where the file sat in the bundle index. A file whose bundle, offset and size are
+   * unchanged is treated as unchanged without decompressing it.
+   */
+  bundle?: string;
+  offset?: number;
+  /** Files written for this entry, relative to the output directory (e.g. the .webp for a .dds) */
+  outputs: string[];
+  /** Conversion failed; the file is kept as extracted and retried only once it changes */
+  failed?: boolean;
+}
+
+export interface ExtractionManifest {
+  version: number;
+  updatedAt: string;
+  files: Record<string, ManifestEntry>;
+}
+
+export function getManifestPath(outputDir: string): string {
+  return join(outputDir, MANIFEST_FILE);
+}
+
+/**
+ * Load the manifest for an output directory. A missing or unreadable manifest
+ * yields an empty one, which makes the next run a full extraction.
+ */
+export async function loadManifest(outputDir: string): Promise<ExtractionManifest> {
+  const empty: ExtractionManifest = { version: MANIFEST_VERSION, updatedAt: '', files: {} };
+  const manifestPath = getManifestPath(outputDir);
+  if (!existsSync(manifestPath)) return empty;
+
+  try {
+    const manifest = JSON.parse(await readFile(manifestPath, 'utf-8')) as ExtractionManifest;
+    if (manifest.version !== MANIFEST_VERSION || typeof manifest.files !== 'object') {
+      return empty;
+    }
+    return manifest;
+  } catch {
+    return empty;
+  }
+}
+
+/**
+ * Write the manifest via a temporary file so an interrupted run never leaves it truncated
+ */
+export async function saveManifest(outputDir: string, manifest: ExtractionManifest): Promise<void> {
+  const manifestPath = getManifestPath(outputDir);
+  const tempPath = manifestPath + '.tmp';
+  manifest.updatedAt = new Date().toISOString();
+  await writeFile(tempPath, JSON.stringify(manifest, null, 2));
+  await rename(tempPath, manifestPath);
+}
+
+export function outputsExist(outputDir: string, entry: ManifestEntry): boolean {
+  return entry.outputs.every(output => existsSync(join(outputDir, output)));
+}
+
+/**
+ * Delete an entry's outputs, except those listed in `keep`. Returns the number removed.
+ */
+export async function removeOutputs(
+  outputDir: string,
+  entry: ManifestEntry,
+  keep: string[] = []
+): Promise<number> {
+  let removed = 0;
+  for (const output of entry.outputs) {
+    if (keep.includes(output)) continue;
+    try {
+      await unlink(join(outputDir, output));
+      removed++;
+    } catch {}
+  }
+  return removed;
+}
@@ -3,13 +3,32 @@
 // - DAT files → JSON (with DAT cleanup)
 // - DDS files → WebP (with DDS cleanup)
 // - Audio files → kept as-is
+// Extraction is incremental: a manifest in the output directory records each file's
+// bundle location, source hash and outputs, so unchanged files are skipped on later runs.
 
-import { extractByPattern, listBundledFiles, type ProgressCallback, type ProgressInfo } from '../ggpk/bundle-extractor';
-import { convertDDStoWebP } from '../utils/image-converter';
+import {
+  extractBundledFiles,
+  extractByPattern,
+  listBundledFiles,
+  openNativeBundles,
+  selectFiles,
+  type ProgressCallback,
+  type ProgressInfo
+} from '../ggpk/bundle-extractor';
+import type { BundledFileEntry } from '../ggpk/bundle-index';
+import {
+  loadManifest,
+  saveManifest,
+  outputsExist,
+  removeOutputs,
+  type ManifestEntry
+} from './extraction-manifest';
+import { convertDDStoWebP, isTexconvAvailable } from '../utils/image-converter';
 import { DATParser } from '../dat/dat-parser';
 import { readdir, unlink, stat, writeFile } from 'fs/promises';
-import { join, basename, extname } from 'path';
+import { join, basename, extname, relative, sep } from 'path';
 import { existsSync } from 'fs';
+import { createHash } from 'crypto';
 
 export interface ExtractionPipelineOptions {
   /** Path to Content.ggpk */
@@ -30,11 +49,18 @@ export interface ExtractionPipelineOptions {
 
 export interface PipelineResult {
   extracted: number;
+  /** Files left alone because the manifest shows them unchanged */
+  skipped: number;
+  /** Files no longer in the archive whose outputs were deleted */
+  removed: number;
   images: { converted: number; failed: number };
   data: { parsed: number; failed: number };
   elapsed: number;
 }
 
+const DDS_PATTERN = /\.dds$/i;
+const DAT_PATTERN = /\.dat(c?64)?$/i;
+
 /**
  * Extract files with automatic post-processing
  */
@@ -55,6 +81,8 @@ export async function runExtractionPipeline(
   const startTime = Date.now();
   const result: PipelineResult = {
     extracted: 0,
+    skipped: 0,
+    removed: 0,
     images: { converted: 0, failed: 0 },
     data: { parsed: 0, failed: 0 },
     elapsed: 0
@@ -68,128 +96,325 @@ export async function runExtractionPipeline(
     currentFile: 'Starting extraction...'
   });
 
-  const extractResult = await extractByPattern(ggpkPath, outputDir, pattern, {
-    excludeLanguages,
-    convertDDS: false, // We'll handle this ourselves
-    onProgress
+  const postProcessOptions = { convertImages, parseDatFiles, schemaPath };
+
+  if (openNativeBundles(ggpkPath)) {
+    await runIncremental(pattern, options, postProcessOptions, result);
+  } else {
+    // The exe writes files straight to disk, so there is nothing to hash beforehand:
+    // re-extract everything and post-process whatever is in the output directory
+    const extractResult = await extractByPattern(ggpkPath, outputDir, pattern, {
+      excludeLanguages,
+      convertDDS: false, // We'll handle this ourselves
+      onProgress
+    });
+
+    result.extracted = extractResult.extracted;
+
+    if (extractResult.extracted > 0) {
+      const files: string[] = [];
+      await scanDirectory(outputDir, filePath => {
+        files.push(relative(outputDir, filePath).split(sep).join('/'));
+      });
+      await postProcess(outputDir, files, postProcessOptions, result, onProgress);
+    }
+  }
+
+  result.elapsed = Date.now() - startTime;
+
+  onProgress?.({
+    phase: 'done',
+    current: result.extracted,
+    total: result.extracted + result.skipped,
+    elapsed: result.elapsed
   });
 
+  return result;
+}
+
+interface PostProcessOptions {
+  convertImages: boolean;
+  parseDatFiles: boolean;
+  schemaPath: string;
+}
+
+/**
+ * Extract only files whose contents changed since the last run, and delete the
+ * outputs of files that have disappeared from the archive. Files that kept their
+ * bundle location are skipped before decompressing; the rest are compared by hash.
+ */
+async function runIncremental(
+  pattern: string,
+  options: ExtractionPipelineOptions,
+  postProcessOptions: PostProcessOptions,
+  result: PipelineResult
+): Promise<void> {
+  const { ggpkPath, outputDir = './extracted', excludeLanguages = true, onProgress } = options;
+  const manifest = await loadManifest(outputDir);
+
+  const list = await listBundledFiles(ggpkPath, onProgress);
+  const selected = selectFiles(list.files, pattern, excludeLanguages);
+
+  // Only entries within this run's pattern are considered, so extracting one preset
+  // never removes another preset's files
+  const available = new Set(list.files);
+  for (const path of selectFiles(Object.keys(manifest.files), pattern, excludeLanguages)) {
+    if (!available.has(path)) {
+      await removeOutputs(outputDir, manifest.files[path]);
+      delete manifest.files[path];
+      result.removed++;
+    }
+  }
+
+  const locations = new Map(list.entries?.map(entry => [entry.path, entry]));
+  const changed = selected.filter(path => {
+    const previous = manifest.files[path];
+    const entry = locations.get(path);
+    if (
+      previous &&
+      entry &&
+      sameLocation(previous, entry) &&
+      isUpToDate(outputDir, path, previous, postProcessOptions)
+    ) {
+      result.skipped++;
+      return false;
+    }
+    return true;
+  });
+
+  const pending = new Map<string, Omit<ManifestEntry, 'outputs'>>();
+  const extractResult = await extractBundledFiles(
+    {
+      ggpkPath,
+      outputDir,
+      useRegex: false,
+      shouldWrite: (entry, data) => {
+        const hash = createHash('sha256').update(data).digest('hex');
+        const previous = manifest.files[entry.path];
+        if (
+          previous &&
+          previous.hash === hash &&
+          isUpToDate(outputDir, entry.path, previous, postProcessOptions)
+        ) {
+          // Moved within the bundles but unchanged: remember where it is now
+          previous.bundle = entry.bundleName;
+          previous.offset = entry.offset;
+          result.skipped++;
+          return false;
+        }
+        pending.set(entry.path, {
+          hash,
+          size: data.length,
+          bundle: entry.bundleName,
+          offset: entry.offset
+        });
+        return true;
+      }
+    },
+    changed,
+    onProgress
+  );
+
   result.extracted = extractResult.extracted;
 
-  // Phase 2: Post-process extracted files
-  if (extractResult.extracted > 0) {
-    // Find all files that need processing
-    const ddsFiles: string[] = [];
-    const datFiles: string[] = [];
-    
-    await scanDirectory(outputDir, (filePath) => {
-      const ext = extname(filePath).toLowerCase();
-      if (ext === '.dds') ddsFiles.push(filePath);
-      if (ext === '.datc64' || ext === '.dat') datFiles.push(filePath);
+  // Outputs from the previous version would otherwise survive (e.g. a stale .webp
+  // that convertDDStoWebP skips over); the freshly written file itself is kept
+  const written: string[] = [];
+  for (const path of pending.keys()) {
+    const previous = manifest.files[path];
+    if (previous) {
+      await removeOutputs(outputDir, previous, [path]);
+      delete manifest.files[path];
+    }
+    if (existsSync(join(outputDir, path))) {
+      written.push(path);
+    }
+  }
+
+  const { outputs, failed } = await postProcess(
+    outputDir,
+    written,
+    postProcessOptions,
+    result,
+    onProgress
+  );
+  for (const path of written) {
+    const entry: ManifestEntry = { ...pending.get(path)!, outputs: outputs.get(path) ?? [path] };
+    if (failed.has(path)) {
+      entry.failed = true;
+    }
+    manifest.files[path] = entry;
+  }
+
+  await saveManifest(outputDir, manifest);
+}
+
+/**
+ * What a file should turn into with the current options
+ */
+function expectedOutputs(path: string, options: PostProcessOptions): string[] {
+  if (options.convertImages && DDS_PATTERN.test(path)) {
+    return [path.replace(DDS_PATTERN, '.webp')];
+  }
+  if (options.parseDatFiles && DAT_PATTERN.test(path)) {
+    return [path.replace(DAT_PATTERN, '.json')];
+  }
+  return [path];
+}
+
+function sameOutputs(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((output, i) => output === b[i]);
+}
+
+function sameLocation(previous: ManifestEntry, entry: BundledFileEntry): boolean {
+  return (
+    previous.bundle === entry.bundleName &&
+    previous.offset === entry.offset &&
+    previous.size === entry.size
+  );
+}
+
+/**
+ * Whether a file's previous outputs are still on disk and still what the current
+ * options would produce. A failed conversion stands until the file changes.
+ */
+function isUpToDate(
+  outputDir: string,
+  path: string,
+  previous: ManifestEntry,
+  options: PostProcessOptions
+): boolean {
+  return (
+    (previous.failed || sameOutputs(previous.outputs, expectedOutputs(path, options))) &&
+    outputsExist(outputDir, previous)
+  );
+}
+
+/**
+ * Convert DDS and parse DAT files among `files` (paths relative to `outputDir`).
+ * Returns the outputs of each file that was converted or parsed, and the files whose
+ * conversion failed on their own contents (not for want of texconv or a schema).
+ */
+async function postProcess(
+  outputDir: string,
+  files: string[],
+  options: PostProcessOptions,
+  result: PipelineResult,
+  onProgress?: ProgressCallback
+): Promise<{ outputs: Map<string, string[]>; failed: Set<string> }> {
+  const { convertImages, parseDatFiles, schemaPath } = options;
+  const outputs = new Map<string, string[]>();
+  const failed = new Set<string>();
+
+  // Find all files that need processing
+  const ddsFiles = files.filter(file => DDS_PATTERN.test(file));
+  const datFiles = files.filter(file => DAT_PATTERN.test(file));
+
+  // Convert DDS to WebP
+  if (convertImages && ddsFiles.length > 0) {
+    const canConvert = isTexconvAvailable();
+    onProgress?.({
+      phase: 'extracting',
+      current: 0,
+      total: ddsFiles.length,
+      currentFile: `Converting ${ddsFiles.length} DDS files to WebP...`
     });
 
-    // Convert DDS to WebP
-    if (convertImages && ddsFiles.length > 0) {
+    for (let i = 0; i < ddsFiles.length; i++) {
+      const file = ddsFiles[i];
       onProgress?.({
         phase: 'extracting',
-        current: 0,
+        current: i + 1,
         total: ddsFiles.length,
-        currentFile: `Converting ${ddsFiles.length} DDS files to WebP...`
+        currentFile: `Converting: ${basename(file)}`
       });
 
-      for (let i = 0; i < ddsFiles.length; i++) {
-        const file = ddsFiles[i];
-        onProgress?.({
-          phase: 'extracting',
-          current: i + 1,
-          total: ddsFiles.length,
-          currentFile: `Converting: ${basename(file)}`
-        });
-
-        const success = await convertDDStoWebP(file, {
-          deleteOriginal: true,
-          quality: 90,
-          skipExisting: true
-        });
+      const success = await convertDDStoWebP(join(outputDir, file), {
+        deleteOriginal: true,
+        quality: 90,
+        skipExisting: true
+      });
 
-        if (success) {
-          result.images.converted++;
-        } else {
-          result.images.failed++;
+      if (success) {
+        outputs.set(file, [file.replace(DDS_PATTERN, '.webp')]);
+        result.images.converted++;
+      } else {
+        if (canConvert) {
+          failed.add(file);
         }
+        result.images.failed++;
       }
     }
+  }
+
+  // Parse DAT to JSON
+  if (parseDatFiles && datFiles.length > 0) {
+    onProgress?.({
+      phase: 'extracting',
+      current: 0,
+      total: datFiles.length,
+      currentFile: `Parsing ${datFiles.length} DAT files to JSON...`
+    });
+
+    // Load schema and create parser
+    let parser: DATParser | null = null;
+    try {
+      if (existsSync(schemaPath)) {
+        const schema = await DATParser.loadSchema(schemaPath);
+        parser = new DATParser(schema, true);
+      }
+    } catch (e) {
+      console.warn('Could not load schema:', e);
+    }
+
+    for (let i = 0; i < datFiles.length; i++) {
+      const file = datFiles[i];
+      const filePath = join(outputDir, file);
+      const tableName = basename(file).replace(DAT_PATTERN, '').toLowerCase();
 
-    // Parse DAT to JSON
-    if (parseDatFiles && datFiles.length > 0) {
       onProgress?.({
         phase: 'extracting',
-        current: 0,
+        current: i + 1,
         total: datFiles.length,
-        currentFile: `Parsing ${datFiles.length} DAT files to JSON...`
+        currentFile: `Parsing: ${tableName}`
       });
 
-      // Load schema and create parser
-      let parser: DATParser | null = null;
       try {
-        if (existsSync(schemaPath)) {
-          const schema = await DATParser.loadSchema(schemaPath);
-          parser = new DATParser(schema, true);
-        }
-      } catch (e) {
-        console.warn('Could not load schema:', e);
-      }
+        if (parser) {
+          const buffer = Buffer.from(await Bun.file(filePath).arrayBuffer());
+          const parsed = parser.parse(buffer, tableName);
 
-      for (let i = 0; i < datFiles.length; i++) {
-        const file = datFiles[i];
-        const tableName = basename(file).replace(/\.datc?64$/i, '').toLowerCase();
-        
-        onProgress?.({
-          phase: 'extracting',
-          current: i + 1,
-          total: datFiles.length,
-          currentFile: `Parsing: ${tableName}`
-        });
+          // An empty table is a valid parse; partial parses keep the rows they got
+          if (!parsed.error || parsed.rows.length > 0) {
+            // Write JSON next to the DAT file
+            const jsonFile = file.replace(DAT_PATTERN, '.json');
+            await writeFile(join(outputDir, jsonFile), JSON.stringify(parsed, null, 2));
 
-        try {
-          if (parser) {
-            const buffer = Buffer.from(await Bun.file(file).arrayBuffer());
-            const parsed = parser.parse(buffer, tableName);
-            
-            if (parsed && parsed.rows && parsed.rows.length > 0) {
-              // Write JSON next to the DAT file
-              const jsonPath = file.replace(/\.datc?64$/i, '.json');
-              await writeFile(jsonPath, JSON.stringify(parsed, null, 2));
-              
-              // Delete original DAT file
-              try {
-                await unlink(file);
-              } catch {}
-              
-              result.data.parsed++;
-            } else {
-              result.data.failed++;
-            }
+            // Delete original DAT file
+            try {
+              await unlink(filePath);
+            } catch {}
+
+            outputs.set(file, [jsonFile]);
+            result.data.parsed++;
           } else {
+            // A table missing from the schema may parse once the schema is updated
+            if (parser.getSchemaRowSize(tableName) !== undefined) {
+              failed.add(file);
+            }
             result.data.failed++;
           }
-        } catch (e) {
+        } else {
           result.data.failed++;
         }
+      } catch (e) {
+        failed.add(file);
+        result.data.failed++;
       }
     }
   }
 
-  result.elapsed = Date.now() - startTime;
-
-  onProgress?.({
-    phase: 'done',
-    current: result.extracted,
-    total: result.extracted,
-    elapsed: result.elapsed
-  });
-
-  return result;
+  return { outputs, failed };
 }
 
 /**
@@ -0,0 +1,93 @@
+// Async GGPK reader
+// Reads FILE record data through fs.promises file handles so many records can be
+// extracted concurrently without blocking the event loop.
+
+import { open, mkdir, unlink, type FileHandle } from 'fs/promises';
+import { createHash } from 'crypto';
+import { dirname } from 'path';
+import type { ExtractOptions, FileRecord } from './ggpk-reader';
+
+// Each concurrent extraction holds one chunk in memory at a time
+const CHUNK_SIZE = 8 * 1024 * 1024;
+
+export class AsyncGGPKReader {
+  private constructor(
+    private handle: FileHandle,
+    readonly filePath: string
+  ) {}
+
+  static async open(filePath: string): Promise<AsyncGGPKReader> {
+    return new AsyncGGPKReader(await open(filePath, 'r'), filePath);
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+
+  private async readAtOffset(offset: bigint, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(length);
+    let filled = 0;
+    while (filled < length) {
+      const { bytesRead } = await this.handle.read(
+        buffer,
+        filled,
+        length - filled,
+        Number(offset) + filled
+      );
+      if (bytesRead === 0) {
+        throw new Error(`Unexpected end of file reading ${length} bytes at offset ${offset}`);
+      }
+      filled += bytesRead;
+    }
+    return buffer;
+  }
+
+  /**
+   * Read a FILE record's data into memory
+   */
+  readFileData(fileRecord: FileRecord): Promise<Buffer> {
+    return this.readAtOffset(fileRecord.dataOffset, fileRecord.dataLength);
+  }
+
+  /**
+   * Copy a FILE record's data to disk chunk by chunk. Each chunk is written before
+   * the next is read, so memory use stays at one chunk per extraction.
+   */
+  async extractFile(
+    fileRecord: FileRecord,
+    outputPath: string,
+    options: ExtractOptions = {}
+  ): Promise<void> {
+    await mkdir(dirname(outputPath), { recursive: true });
+
+    const hasher = options.verify ? createHash('sha256') : null;
+    const output = await open(outputPath, 'w');
+
+    try {
+      let remaining = fileRecord.dataLength;
+      let currentOffset = fileRecord.dataOffset;
+
+      while (remaining > 0) {
+        const chunkSize = Math.min(CHUNK_SIZE, remaining);
+        const chunk = await this.readAtOffset(currentOffset, chunkSize);
+        hasher?.update(chunk);
+        await output.write(chunk);
+        currentOffset += BigInt(chunkSize);
+        remaining -= chunkSize;
+      }
+    } finally {
+      await output.close();
+    }
+
+    if (hasher) {
+      const actual = hasher.digest();
+      if (!actual.equals(fileRecord.hash)) {
+        await unlink(outputPath);
+        throw new Error(
+          `SHA-256 mismatch for ${fileRecord.name} at offset ${fileRecord.offset}: ` +
+            `expected ${fileRecord.hash.toString('hex')}, got ${actual.toString('hex')}`
+        );
+      }
+    }
+  }
+}
@@ -1,10 +1,15 @@
-// Bundle Extractor - Uses ooz's bun_extract_file.exe to extract from POE2 bundled GGPK
+// Bundle Extractor - Extracts from POE2's bundled GGPK
+// Reads the bundle index and bundles natively when an Oodle decompressor is available,
+// otherwise falls back to ooz's bun_extract_file.exe.
 // This handles the Oodle-compressed bundle files that make up most of POE2's content
 
 import { spawn } from 'bun';
-import { existsSync } from 'fs';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { postExtractConvertDDS } from '../utils/image-converter';
+import { createBlockDecompressor, type BlockDecompressor } from './decompressor';
+import { openBundleSource, loadBundleIndex, openBundle, type BundleSource } from './bundle-source';
+import type { BundleIndex, BundledFileEntry } from './bundle-index';
 
 // Progress callback type
 export type ProgressCallback = (info: ProgressInfo) => void;
@@ -53,12 +58,19 @@ export interface BundleExtractorOptions {
   outputDir: string;
   /** Use regex patterns instead of exact paths */
   useRegex?: boolean;
+  /**
+   * Called with each file's contents before it is written; return false to leave it
+   * on disk as-is. Only consulted when bundles are read natively.
+   */
+  shouldWrite?: (entry: BundledFileEntry, data: Buffer) => boolean;
 }
 
 export interface FileListResult {
   bundleCount: number;
   fileCount: number;
   files: string[];
+  /** Per-file bundle location and size (only when the index was read natively) */
+  entries?: BundledFileEntry[];
 }
 
 export interface ExtractionResult {
@@ -67,6 +79,54 @@ export interface ExtractionResult {
   total: number;
 }
 
+export interface NativeBundles {
+  source: BundleSource;
+  index: BundleIndex;
+  decompressor: BlockDecompressor;
+}
+
+// Parsed indexes, keyed by install path (parsing _.index.bin takes a few seconds)
+const nativeBundlesCache = new Map<string, NativeBundles>();
+
+/**
+ * Open the install's bundles for native reading.
+ * Returns null when no Oodle decompressor is available, so callers can fall back to the exe.
+ */
+export function openNativeBundles(ggpkPath: string): NativeBundles | null {
+  const cached = nativeBundlesCache.get(ggpkPath);
+  if (cached) return cached;
+
+  let decompressor: BlockDecompressor;
+  try {
+    decompressor = createBlockDecompressor();
+  } catch {
+    return null;
+  }
+
+  const source = openBundleSource(ggpkPath);
+  try {
+    const index = loadBundleIndex(source, decompressor);
+    const bundles = { source, index, decompressor };
+    nativeBundlesCache.set(ggpkPath, bundles);
+    return bundles;
+  } catch (error) {
+    source.close();
+    throw error;
+  }
+}
+
+/**
+ * Read a single bundled file into memory
+ */
+export function readBundledFile(bundles: NativeBundles, entry: BundledFileEntry): Buffer {
+  const reader = openBundle(bundles.source, entry.bundleName, bundles.decompressor);
+  try {
+    return reader.readRange(entry.offset, entry.size);
+  } finally {
+    reader.close();
+  }
+}
+
 /**
  * List all files available in the bundled GGPK with progress callback
  */
@@ -74,15 +134,37 @@ export async function listBundledFiles(
   ggpkPath: string,
   onProgress?: ProgressCallback
 ): Promise<FileListResult> {
-  const exe = findBunExtractExe();
   const startTime = Date.now();
-  
+
   onProgress?.({
     phase: 'indexing',
     current: 0,
     total: 0,
-    currentFile: 'Decompressing index bundle...'
+    currentFile: 'Reading bundle index...'
   });
+
+  const bundles = openNativeBundles(ggpkPath);
+  if (bundles) {
+    const entries = Array.from(bundles.index.entries());
+    const elapsed = Date.now() - startTime;
+    onProgress?.({
+      phase: 'done',
+      current: entries.length,
+      total: entries.length,
+      bundleCount: bundles.index.bundleCount,
+      fileCount: entries.length,
+      elapsed
+    });
+
+    return {
+      bundleCount: bundles.index.bundleCount,
+      fileCount: entries.length,
+      files: entries.map(e => e.path),
+      entries,
+    };
+  }
+
+  const exe = findBunExtractExe();
   
   const proc = spawn([exe, 'list-files', ggpkPath], {
     stdout: 'pipe',
@@ -148,6 +230,11 @@ export async function extractBundledFiles(
   patterns: string[],
   onProgress?: ProgressCallback
 ): Promise<ExtractionResult> {
+  const bundles = openNativeBundles(options.ggpkPath);
+  if (bundles) {
+    return extractNative(bundles, options, patterns, onProgress);
+  }
+
   const exe = findBunExtractExe();
   const startTime = Date.now();
   
@@ -258,6 +345,119 @@ export async function extractBundledFiles(
   return { extracted: 0, total: patterns.length, missed: patterns.length };
 }
 
+/**
+ * Extract files by reading bundles directly. Files are grouped by bundle and read in
+ * offset order so each bundle is opened once and neighbouring files share decompressed blocks.
+ */
+async function extractNative(
+  bundles: NativeBundles,
+  options: BundleExtractorOptions,
+  patterns: string[],
+  onProgress?: ProgressCallback
+): Promise<ExtractionResult> {
+  const startTime = Date.now();
+  const { index } = bundles;
+
+  let selected: BundledFileEntry[];
+  let missed = 0;
+
+  if (options.useRegex) {
+    const regexes = patterns.map(p => new RegExp(p));
+    selected = Array.from(index.entries()).filter(e => regexes.some(r => r.test(e.path)));
+  } else {
+    selected = [];
+    for (const pattern of patterns) {
+      const entry = index.getFile(pattern);
+      if (entry) {
+        selected.push(entry);
+      } else {
+        missed++;
+      }
+    }
+  }
+
+  const byBundle = new Map<string, BundledFileEntry[]>();
+  for (const entry of selected) {
+    const list = byBundle.get(entry.bundleName) ?? [];
+    list.push(entry);
+    byBundle.set(entry.bundleName, list);
+  }
+
+  const total = selected.length + missed;
+  let extracted = 0;
+  let skipped = 0;
+  let bytesExtracted = 0;
+  let lastProgressUpdate = 0;
+
+  onProgress?.({
+    phase: 'extracting',
+    current: 0,
+    total,
+    currentFile: 'Starting extraction...'
+  });
+
+  for (const [bundleName, entries] of byBundle) {
+    entries.sort((a, b) => a.offset - b.offset);
+    let reader;
+    try {
+      reader = openBundle(bundles.source, bundleName, bundles.decompressor);
+    } catch (error) {
+      console.warn(`Skipping bundle ${bundleName}:`, error);
+      missed += entries.length;
+      continue;
+    }
+
+    try {
+      for (const entry of entries) {
+        try {
+          const data = reader.readRange(entry.offset, entry.size);
+          if (options.shouldWrite && !options.shouldWrite(entry, data)) {
+            skipped++;
+          } else {
+            const outputPath = join(options.outputDir, entry.path);
+            mkdirSync(dirname(outputPath), { recursive: true });
+            writeFileSync(outputPath, data);
+            extracted++;
+            bytesExtracted += data.length;
+          }
+        } catch (error) {
+          console.warn(`Failed to extract ${entry.path}:`, error);
+          missed++;
+        }
+
+        // Throttle progress updates to ~10 per second, yielding so servers stay responsive
+        const now = Date.now();
+        if (now - lastProgressUpdate > 100) {
+          const elapsed = now - startTime;
+          onProgress?.({
+            phase: 'extracting',
+            current: extracted + skipped,
+            total,
+            currentFile: entry.path.slice(0, 60),
+            bytesExtracted,
+            elapsed,
+            rate: `${(bytesExtracted / 1024 / 1024 / Math.max(elapsed / 1000, 0.001)).toFixed(1)} MB/s`
+          });
+          lastProgressUpdate = now;
+          await new Promise(resolve => setImmediate(resolve));
+        }
+      }
+    } finally {
+      reader.close();
+    }
+  }
+
+  onProgress?.({
+    phase: 'done',
+    current: extracted,
+    total,
+    bytesExtracted,
+    elapsed: Date.now() - startTime
+  });
+
+  return { extracted, missed, total };
+}
+
 // Language patterns to exclude
 const NON_ENGLISH_PATTERNS = [
   '/french/', '/german/', '/japanese/', '/korean/', 
@@ -268,6 +468,15 @@ const NON_ENGLISH_PATTERNS = [
   '\\.traditional chinese\\.', '\\.simplified chinese\\.'
 ];
 
+/**
+ * Filter archive paths by a case-insensitive regex, optionally dropping non-English files
+ */
+export function selectFiles(files: string[], pattern: string, excludeLanguages = false): string[] {
+  const patternRegex = new RegExp(pattern, 'i');
+  const langRegex = new RegExp(NON_ENGLISH_PATTERNS.join('|'), 'i');
+  return files.filter(f => patternRegex.test(f) && !(excludeLanguages && langRegex.test(f)));
+}
+
 export interface ExtractOptions {
   excludeLanguages?: boolean;
   onProgress?: ProgressCallback;
@@ -305,12 +514,7 @@ export async function extractByPattern(
       currentFile: 'Filtering files by pattern...'
     });
     
-    const patternRegex = new RegExp(pattern, 'i');
-    const langRegex = new RegExp(NON_ENGLISH_PATTERNS.join('|'), 'i');
-    
-    const filteredFiles = allFiles.files.filter(f => 
-      patternRegex.test(f) && !langRegex.test(f)
-    );
+    const filteredFiles = selectFiles(allFiles.files, pattern, true);
     
     onProgress?.({
       phase: 'filtering',
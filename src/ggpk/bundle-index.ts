@@ -0,0 +1,217 @@
+// Bundles2 Index Parser
+// Reads the `_.index.bin` file table that maps every bundled file path to a
+// byte range inside one of the `.bundle.bin` files
+
+import { readFileSync } from 'fs';
+import { murmurHash64A, fnv1a64 } from './hash';
+
+export interface BundleRecord {
+  /** Bundle name relative to Bundles2, without the `.bundle.bin` suffix */
+  name: string;
+  uncompressedSize: number;
+}
+
+export interface BundledFileEntry {
+  path: string;
+  pathHash: bigint;
+  bundleIndex: number;
+  bundleName: string;
+  /** Offset of the file inside the bundle's uncompressed data */
+  offset: number;
+  size: number;
+}
+
+export interface DirectoryRecord {
+  pathHash: bigint;
+  offset: number;
+  size: number;
+  recursiveSize: number;
+}
+
+/**
+ * Decompresses a complete `.bundle.bin` file and returns its uncompressed data.
+ * `_.index.bin` is itself a bundle, and so is its trailing path section.
+ */
+export type BundleUnpacker = (bundle: Buffer) => Buffer;
+
+type PathHasher = (path: string) => bigint;
+
+const hashPathMurmur: PathHasher = path => murmurHash64A(Buffer.from(path.toLowerCase(), 'utf8'));
+const hashPathFnv: PathHasher = path => fnv1a64(Buffer.from(path.toLowerCase() + '++', 'utf8'));
+
+export class BundleIndex {
+  readonly bundles: BundleRecord[] = [];
+  readonly directories: DirectoryRecord[] = [];
+  private files = new Map<string, BundledFileEntry>();
+  private unnamedCount = 0;
+
+  /**
+   * @param indexData Uncompressed contents of `_.index.bin`
+   * @param unpack Used to decompress the path section embedded at the end of the index
+   */
+  constructor(indexData: Buffer, unpack: BundleUnpacker) {
+    let pos = 0;
+
+    const bundleCount = indexData.readUInt32LE(pos);
+    pos += 4;
+
+    for (let i = 0; i < bundleCount; i++) {
+      const nameLength = indexData.readUInt32LE(pos);
+      pos += 4;
+      const name = indexData.toString('utf8', pos, pos + nameLength);
+      pos += nameLength;
+      const uncompressedSize = indexData.readUInt32LE(pos);
+      pos += 4;
+      this.bundles.push({ name, uncompressedSize });
+    }
+
+    // File records: pathHash (8) + bundleIndex (4) + offset (4) + size (4)
+    const fileCount = indexData.readUInt32LE(pos);
+    pos += 4;
+
+    const byHash = new Map<bigint, Omit<BundledFileEntry, 'path'>>();
+    for (let i = 0; i < fileCount; i++) {
+      const pathHash = indexData.readBigUInt64LE(pos);
+      const bundleIndex = indexData.readUInt32LE(pos + 8);
+      const offset = indexData.readUInt32LE(pos + 12);
+      const size = indexData.readUInt32LE(pos + 16);
+      pos += 20;
+
+      const bundle = this.bundles[bundleIndex];
+      if (!bundle) {
+        throw new Error(`File record ${i} references missing bundle ${bundleIndex}`);
+      }
+      byHash.set(pathHash, { pathHash, bundleIndex, bundleName: bundle.name, offset, size });
+    }
+
+    // Directory records: pathHash (8) + offset (4) + size (4) + recursiveSize (4)
+    const directoryCount = indexData.readUInt32LE(pos);
+    pos += 4;
+
+    for (let i = 0; i < directoryCount; i++) {
+      this.directories.push({
+        pathHash: indexData.readBigUInt64LE(pos),
+        offset: indexData.readUInt32LE(pos + 8),
+        size: indexData.readUInt32LE(pos + 12),
+        recursiveSize: indexData.readUInt32LE(pos + 16),
+      });
+      pos += 20;
+    }
+
+    // Everything after the directory records is a bundle holding the compressed path representation
+    const pathData = unpack(indexData.subarray(pos));
+    this.assignPaths(pathData, byHash);
+  }
+
+  /**
+   * Read and parse an `_.index.bin` file from disk
+   */
+  static load(indexPath: string, unpack: BundleUnpacker): BundleIndex {
+    const indexData = unpack(readFileSync(indexPath));
+    return new BundleIndex(indexData, unpack);
+  }
+
+  /**
+   * Expand the path representation of every directory record and match the
+   * generated paths to file records by hash
+   */
+  private assignPaths(pathData: Buffer, byHash: Map<bigint, Omit<BundledFileEntry, 'path'>>): void {
+    let hashPath: PathHasher | null = null;
+
+    for (const directory of this.directories) {
+      for (const path of decodePathRepresentation(pathData, directory.offset, directory.size)) {
+        // Older indexes hash with FNV-1a; detect which one this index uses from the first path
+        if (!hashPath) {
+          hashPath = byHash.has(hashPathMurmur(path)) ? hashPathMurmur : hashPathFnv;
+        }
+
+        const record = byHash.get(hashPath(path));
+        if (record) {
+          this.files.set(path, { ...record, path });
+        }
+      }
+    }
+
+    this.unnamedCount = byHash.size - this.files.size;
+  }
+
+  /**
+   * Look up a bundled file by its path (case-insensitive)
+   */
+  getFile(path: string): BundledFileEntry | undefined {
+    return this.files.get(path) ?? this.files.get(path.toLowerCase());
+  }
+
+  /**
+   * List all bundled file paths in index order
+   */
+  listFiles(pattern?: RegExp): string[] {
+    const paths = Array.from(this.files.keys());
+    return pattern ? paths.filter(p => pattern.test(p)) : paths;
+  }
+
+  /**
+   * All file entries, including bundle name, offset and size
+   */
+  entries(): IterableIterator<BundledFileEntry> {
+    return this.files.values();
+  }
+
+  get fileCount(): number {
+    return this.files.size;
+  }
+
+  get bundleCount(): number {
+    return this.bundles.length;
+  }
+
+  /**
+   * Number of file records whose path could not be reconstructed
+   */
+  get missingPathCount(): number {
+    return this.unnamedCount;
+  }
+}
+
+/**
+ * Decode one directory's slice of the path section.
+ *
+ * The section is a stream of u32 indexes each followed by a NUL-terminated
+ * string. An index of 0 toggles between "base" mode (building a table of
+ * prefixes) and output mode. A non-zero index N prepends base entry N-1 to the
+ * string when that entry exists.
+ */
+function* decodePathRepresentation(data: Buffer, offset: number, size: number): Generator<string> {
+  const end = offset + size;
+  const bases: string[] = [];
+  let baseMode = false;
+  let pos = offset;
+
+  while (pos + 4 <= end) {
+    const index = data.readUInt32LE(pos);
+    pos += 4;
+
+    if (index === 0) {
+      baseMode = !baseMode;
+      if (baseMode) {
+        bases.length = 0;
+      }
+      continue;
+    }
+
+    const terminator = data.indexOf(0, pos);
+    const stringEnd = terminator === -1 || terminator > end ? end : terminator;
+    let str = data.toString('utf8', pos, stringEnd);
+    pos = stringEnd + 1;
+
+    if (index - 1 < bases.length) {
+      str = bases[index - 1] + str;
+    }
+
+    if (baseMode) {
+      bases.push(str);
+    } else {
+      yield str;
+    }
+  }
+}
@@ -1,124 +1,256 @@
 // Bundle File Format Parser
 // POE2 uses Bundle files (.bundle.bin) for packaged assets
+//
+// Layout:
+//   [uncompressedSize:u32][totalPayloadSize:u32][headPayloadSize:u32]
+//   head payload (48 bytes + 4 per block):
+//     [compressor:u32][unknown:u32][uncompressedSize:u64][totalPayloadSize:u64]
+//     [blockCount:u32][granularity:u32][reserved:u32*4][blockSizes:u32*blockCount]
+//   block data, each block compressed independently
+//
+// Every block decompresses to `granularity` bytes except the last one.
+// The list of files inside a bundle lives in `_.index.bin`, not in the bundle itself.
 
-import { readFileSync } from 'fs';
-import * as pako from 'pako';
+import { openSync, readSync, closeSync } from 'fs';
+import { createBlockDecompressor, type BlockDecompressor } from './decompressor';
+import type { BundleUnpacker } from './bundle-index';
 
 export interface BundleHeader {
   uncompressedSize: number;
   totalPayloadSize: number;
   headPayloadSize: number;
+  /** Oodle compressor id of the first block (see OODLE_COMPRESSORS) */
+  compressor: number;
+  blockCount: number;
+  /** Uncompressed size of every block except the last */
+  granularity: number;
+  /** Compressed size of each block */
+  blockSizes: number[];
 }
 
-export interface BundleFileEntry {
-  name: string;
-  hash: bigint;
-  offset: number;
-  size: number;
+export const OODLE_COMPRESSORS: Record<number, string> = {
+  3: 'None',
+  8: 'Kraken',
+  9: 'Mermaid',
+  10: 'BitKnit',
+  11: 'Selkie',
+  12: 'Hydra',
+  13: 'Leviathan',
+};
+
+/**
+ * Random access to the raw bytes of a bundle, wherever they are stored
+ * (a loose file, a FILE record inside Content.ggpk, memory...)
+ */
+export interface BundleByteSource {
+  read(offset: number, length: number): Buffer;
+  close?(): void;
 }
 
+const OUTER_HEADER_SIZE = 12;
+const HEAD_PAYLOAD_FIXED_SIZE = 48;
+
 export class BundleReader {
-  private buffer: Buffer;
-  private files: Map<string, BundleFileEntry> = new Map();
-  private header: BundleHeader;
-
-  constructor(bundlePath: string) {
-    this.buffer = readFileSync(bundlePath);
-    this.header = this.parseHeader();
-    this.parseFileIndex();
+  readonly header: BundleHeader;
+  private source: BundleByteSource;
+  private decompressor: BlockDecompressor | null;
+  /** File offset of each block's compressed data */
+  private blockOffsets: number[] = [];
+  // Single-entry cache: consecutive small reads usually hit the same block
+  private cachedBlock: { index: number; data: Buffer } | null = null;
+
+  /**
+   * @param source Path to a `.bundle.bin` file (read with positioned reads), its raw bytes,
+   *   or any other byte source
+   * @param decompressor Backend used for every block. Defaults to the best available ooz build.
+   */
+  constructor(source: string | Buffer | BundleByteSource, decompressor?: BlockDecompressor) {
+    if (typeof source === 'string') {
+      this.source = fileByteSource(source);
+    } else if (Buffer.isBuffer(source)) {
+      this.source = bufferByteSource(source);
+    } else {
+      this.source = source;
+    }
+    this.decompressor = decompressor ?? null;
+
+    try {
+      this.header = this.parseHeader();
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Read raw bytes from the bundle file
+   */
+  private readAt(offset: number, length: number): Buffer {
+    const data = this.source.read(offset, length);
+    if (data.length !== length) {
+      throw new Error(`Bundle truncated: wanted ${length} bytes at ${offset}, got ${data.length}`);
+    }
+    return data;
   }
 
   private parseHeader(): BundleHeader {
-    const uncompressedSize = this.buffer.readUInt32LE(0);
-    const totalPayloadSize = this.buffer.readUInt32LE(4);
-    const headPayloadSize = this.buffer.readUInt32LE(8);
+    const outer = this.readAt(0, OUTER_HEADER_SIZE);
+    const uncompressedSize = outer.readUInt32LE(0);
+    const totalPayloadSize = outer.readUInt32LE(4);
+    const headPayloadSize = outer.readUInt32LE(8);
+
+    const head = this.readAt(OUTER_HEADER_SIZE, headPayloadSize);
+    const compressor = head.readUInt32LE(0);
+    const blockCount = head.readUInt32LE(24);
+    const granularity = head.readUInt32LE(28);
+
+    if (headPayloadSize !== HEAD_PAYLOAD_FIXED_SIZE + blockCount * 4) {
+      throw new Error(
+        `Invalid bundle header: head payload is ${headPayloadSize} bytes for ${blockCount} blocks`
+      );
+    }
+    if (blockCount > 0 && granularity === 0) {
+      throw new Error('Invalid bundle header: block granularity is 0');
+    }
+
+    const blockSizes: number[] = [];
+    let blockOffset = OUTER_HEADER_SIZE + headPayloadSize;
+    for (let i = 0; i < blockCount; i++) {
+      const size = head.readUInt32LE(HEAD_PAYLOAD_FIXED_SIZE + i * 4);
+      blockSizes.push(size);
+      this.blockOffsets.push(blockOffset);
+      blockOffset += size;
+    }
 
     return {
       uncompressedSize,
       totalPayloadSize,
       headPayloadSize,
+      compressor,
+      blockCount,
+      granularity,
+      blockSizes,
     };
   }
 
-  private parseFileIndex(): void {
-    // Read and decompress first block (contains file index)
-    const firstBlockOffset = 12; // After header
-    const compressed = this.buffer.slice(firstBlockOffset, firstBlockOffset + this.header.headPayloadSize);
-    
-    try {
-      const decompressed = pako.inflate(compressed);
-      const indexBuffer = Buffer.from(decompressed);
-      
-      // Parse file entries from index
-      // This is a simplified parser - actual format may vary
-      let offset = 0;
-      const fileCount = indexBuffer.readUInt32LE(offset);
-      offset += 4;
-
-      for (let i = 0; i < fileCount && offset < indexBuffer.length - 16; i++) {
-        try {
-          const nameLength = indexBuffer.readUInt32LE(offset);
-          offset += 4;
-
-          if (nameLength > 0 && nameLength < 1000 && offset + nameLength < indexBuffer.length) {
-            const name = indexBuffer.toString('utf8', offset, offset + nameLength);
-            offset += nameLength;
-
-            const hash = indexBuffer.readBigUInt64LE(offset);
-            offset += 8;
-
-            const fileOffset = indexBuffer.readUInt32LE(offset);
-            offset += 4;
-
-            const size = indexBuffer.readUInt32LE(offset);
-            offset += 4;
-
-            this.files.set(name, { name, hash, offset: fileOffset, size });
-          } else {
-            break;
-          }
-        } catch (e) {
-          break;
-        }
-      }
-    } catch (error) {
-      console.warn('Failed to parse bundle index:', error);
+  private getDecompressor(): BlockDecompressor {
+    // Resolved lazily so constructing a reader never fails just because ooz is missing
+    if (!this.decompressor) {
+      this.decompressor = createBlockDecompressor();
     }
+    return this.decompressor;
   }
 
-  private decompressBlock(offset: number, size: number): Buffer {
-    const compressed = this.buffer.slice(offset, offset + size);
-    
-    try {
-      // Try pako inflate (zlib/deflate)
-      const decompressed = pako.inflate(compressed);
-      return Buffer.from(decompressed);
-    } catch (error) {
-      // If inflate fails, might be uncompressed or different format
-      console.warn('Decompression failed, returning raw data');
-      return compressed;
+  /**
+   * Uncompressed size of a given block (the last block is usually shorter)
+   */
+  private blockUncompressedSize(index: number): number {
+    const { granularity, uncompressedSize, blockCount } = this.header;
+    if (index === blockCount - 1) {
+      return uncompressedSize - granularity * (blockCount - 1);
     }
+    return granularity;
   }
 
-  extractFile(fileName: string): Buffer | null {
-    const entry = this.files.get(fileName);
-    if (!entry) {
-      return null;
+  private decompressBlock(index: number): Buffer {
+    if (this.cachedBlock?.index === index) {
+      return this.cachedBlock.data;
     }
 
-    try {
-      return this.decompressBlock(entry.offset, entry.size);
-    } catch (error) {
-      console.error(`Failed to extract ${fileName}:`, error);
-      return null;
+    const compressed = this.readAt(this.blockOffsets[index], this.header.blockSizes[index]);
+    const data = this.getDecompressor().decompress(compressed, this.blockUncompressedSize(index));
+    this.cachedBlock = { index, data };
+    return data;
+  }
+
+  /**
+   * Read `[offset, offset + size)` of the uncompressed bundle data.
+   * Only the blocks covering the range are read and decompressed.
+   */
+  readRange(offset: number, size: number): Buffer {
+    if (offset < 0 || size < 0 || offset + size > this.header.uncompressedSize) {
+      throw new RangeError(
+        `Range [${offset}, ${offset + size}) is outside bundle (${this.header.uncompressedSize} bytes)`
+      );
+    }
+    if (size === 0) {
+      return Buffer.alloc(0);
+    }
+
+    const { granularity } = this.header;
+    const firstBlock = Math.floor(offset / granularity);
+    const lastBlock = Math.floor((offset + size - 1) / granularity);
+
+    // Fast path: range inside a single block
+    if (firstBlock === lastBlock) {
+      const start = offset - firstBlock * granularity;
+      return Buffer.from(this.decompressBlock(firstBlock).subarray(start, start + size));
+    }
+
+    const out = Buffer.alloc(size);
+    let written = 0;
+    for (let block = firstBlock; block <= lastBlock; block++) {
+      const data = this.decompressBlock(block);
+      const start = block === firstBlock ? offset - block * granularity : 0;
+      const end = Math.min(data.length, start + (size - written));
+      data.copy(out, written, start, end);
+      written += end - start;
     }
+    return out;
+  }
+
+  /**
+   * Decompress the whole bundle
+   */
+  read(): Buffer {
+    return this.readRange(0, this.header.uncompressedSize);
   }
 
-  listFiles(): string[] {
-    return Array.from(this.files.keys());
+  get compressorName(): string {
+    return OODLE_COMPRESSORS[this.header.compressor] ?? `Unknown (${this.header.compressor})`;
   }
 
-  getFileCount(): number {
-    return this.files.size;
+  /**
+   * Close the file handle when done. Call this to free resources.
+   */
+  close(): void {
+    this.source.close?.();
+    this.cachedBlock = null;
   }
 }
+
+/**
+ * Byte source over a loose file, using positioned reads
+ */
+export function fileByteSource(filePath: string): BundleByteSource {
+  let fd = openSync(filePath, 'r');
+  return {
+    read(offset, length) {
+      const out = Buffer.alloc(length);
+      const bytesRead = readSync(fd, out, 0, length, offset);
+      return bytesRead === length ? out : out.subarray(0, bytesRead);
+    },
+    close() {
+      if (fd !== -1) {
+        closeSync(fd);
+        fd = -1;
+      }
+    },
+  };
+}
+
+/**
+ * Byte source over bytes already in memory
+ */
+export function bufferByteSource(buffer: Buffer): BundleByteSource {
+  return {
+    read: (offset, length) => buffer.subarray(offset, Math.min(buffer.length, offset + length)),
+  };
+}
+
+/**
+ * Create a BundleUnpacker for BundleIndex that decompresses in-memory bundles
+ */
+export function createBundleUnpacker(decompressor?: BlockDecompressor): BundleUnpacker {
+  return (bundle: Buffer) => new BundleReader(bundle, decompressor).read();
+}
@@ -0,0 +1,187 @@
+// Bundle Sources - where the Bundles2 files of an install live
+// Standalone installs keep Bundles2/*.bundle.bin as FILE records inside Content.ggpk,
+// Steam installs keep them as loose files next to the executable.
+
+import { existsSync, statSync } from 'fs';
+import { join, dirname } from 'path';
+import { GGPKReader, type FileRecord } from './ggpk-reader';
+import {
+  BundleReader,
+  createBundleUnpacker,
+  fileByteSource,
+  type BundleByteSource,
+} from './bundle-reader';
+import { BundleIndex } from './bundle-index';
+import type { BlockDecompressor } from './decompressor';
+
+export const INDEX_BUNDLE_NAME = '_.index';
+export const INDEX_FILE_NAME = '_.index.bin';
+export const BUNDLE_SUFFIX = '.bundle.bin';
+
+/**
+ * File name of a bundle relative to Bundles2. The index is the one bundle without the usual suffix.
+ */
+function bundleFileName(name: string): string {
+  return name === INDEX_BUNDLE_NAME ? INDEX_FILE_NAME : name + BUNDLE_SUFFIX;
+}
+
+export interface BundleSource {
+  readonly kind: 'ggpk' | 'directory';
+  /** Content.ggpk path or Bundles2 directory (for logs) */
+  readonly location: string;
+  /** Check whether a bundle exists. Names are relative to Bundles2 without `.bundle.bin`. */
+  hasBundle(name: string): boolean;
+  /** Random access to a bundle's raw (compressed) bytes */
+  openBundleBytes(name: string): BundleByteSource;
+  close(): void;
+}
+
+/**
+ * Open a bundle from a source for reading
+ */
+export function openBundle(
+  source: BundleSource,
+  name: string,
+  decompressor?: BlockDecompressor
+): BundleReader {
+  return new BundleReader(source.openBundleBytes(name), decompressor);
+}
+
+/**
+ * Load and parse `_.index.bin` from a source
+ */
+export function loadBundleIndex(
+  source: BundleSource,
+  decompressor?: BlockDecompressor
+): BundleIndex {
+  const reader = openBundle(source, INDEX_BUNDLE_NAME, decompressor);
+  try {
+    return new BundleIndex(reader.read(), createBundleUnpacker(decompressor));
+  } finally {
+    reader.close();
+  }
+}
+
+/**
+ * Bundles stored as loose files in a Bundles2 directory (Steam layout)
+ */
+export class DirectoryBundleSource implements BundleSource {
+  readonly kind = 'directory';
+
+  constructor(readonly location: string) {}
+
+  private bundlePath(name: string): string {
+    return join(this.location, bundleFileName(name));
+  }
+
+  hasBundle(name: string): boolean {
+    return existsSync(this.bundlePath(name));
+  }
+
+  openBundleBytes(name: string): BundleByteSource {
+    if (!this.hasBundle(name)) {
+      throw new Error(`Bundle not found: ${this.bundlePath(name)}`);
+    }
+    return fileByteSource(this.bundlePath(name));
+  }
+
+  close(): void {}
+}
+
+/**
+ * Bundles stored as FILE records under Bundles2 inside Content.ggpk (standalone layout)
+ */
+export class GGPKBundleSource implements BundleSource {
+  readonly kind = 'ggpk';
+  private records: Map<string, FileRecord>;
+
+  constructor(
+    private reader: GGPKReader,
+    readonly location: string
+  ) {
+    const bundleFiles = reader.indexDirectory('Bundles2');
+    if (!bundleFiles) {
+      throw new Error(`No Bundles2 directory in ${location}`);
+    }
+
+    // Key by lowercased file name; bundle names in the index don't always match the GGPK's case
+    this.records = new Map();
+    for (const [path, record] of bundleFiles) {
+      this.records.set(path.toLowerCase(), record);
+    }
+  }
+
+  static open(ggpkPath: string): GGPKBundleSource {
+    const reader = new GGPKReader(ggpkPath);
+    try {
+      return new GGPKBundleSource(reader, ggpkPath);
+    } catch (error) {
+      reader.close();
+      throw error;
+    }
+  }
+
+  hasBundle(name: string): boolean {
+    return this.records.has(bundleFileName(name).toLowerCase());
+  }
+
+  openBundleBytes(name: string): BundleByteSource {
+    const record = this.records.get(bundleFileName(name).toLowerCase());
+    if (!record) {
+      throw new Error(`Bundle not found in ${this.location}: Bundles2/${bundleFileName(name)}`);
+    }
+
+    // Positioned reads straight out of the GGPK; the reader stays open until the source is closed
+    return {
+      read: (offset, length) => {
+        const available = Math.max(0, Math.min(length, record.dataLength - offset));
+        return this.reader.readFileData(record, offset, available);
+      },
+    };
+  }
+
+  close(): void {
+    this.reader.close();
+  }
+}
+
+export type InstallLayout = 'steam' | 'ggpk';
+
+export interface DetectedInstall {
+  layout: InstallLayout;
+  /** Bundles2 directory (steam) or Content.ggpk (ggpk) */
+  path: string;
+}
+
+/**
+ * Work out which layout an install uses.
+ * Accepts the game directory, a Bundles2 directory or a Content.ggpk path.
+ */
+export function detectInstallLayout(installPath: string): DetectedInstall {
+  const isFile = existsSync(installPath) && statSync(installPath).isFile();
+  const gameDir = isFile ? dirname(installPath) : installPath;
+
+  const candidates = [join(gameDir, 'Bundles2'), gameDir];
+  for (const dir of candidates) {
+    if (existsSync(join(dir, INDEX_FILE_NAME))) {
+      return { layout: 'steam', path: dir };
+    }
+  }
+
+  const ggpkPath = isFile ? installPath : join(gameDir, 'Content.ggpk');
+  if (existsSync(ggpkPath)) {
+    return { layout: 'ggpk', path: ggpkPath };
+  }
+
+  throw new Error(`Could not find Bundles2/${INDEX_FILE_NAME} or Content.ggpk in ${gameDir}`);
+}
+
+/**
+ * Open the bundle source for an install, auto-detecting its layout
+ */
+export function openBundleSource(installPath: string): BundleSource {
+  const install = detectInstallLayout(installPath);
+  return install.layout === 'steam'
+    ? new DirectoryBundleSource(install.path)
+    : GGPKBundleSource.open(install.path);
+}
@@ -0,0 +1,205 @@
+// Block Decompressors for Bundles2
+// POE2 bundles are split into blocks compressed with Oodle (Kraken, Mermaid, Leviathan...).
+// The bundle code calls a BlockDecompressor per block so the backend can be swapped out.
+
+import { spawnSync } from 'bun';
+import type { Pointer } from 'bun:ffi';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+export interface BlockDecompressor {
+  /** Human readable backend name (for logs) */
+  readonly name: string;
+  /**
+   * Decompress a single bundle block.
+   * @param block Compressed block bytes
+   * @param uncompressedSize Exact size of the decompressed block
+   */
+  decompress(block: Buffer, uncompressedSize: number): Buffer;
+}
+
+export interface DecompressorOptions {
+  /** Explicit path to libooz.so / libooz.dylib / ooz.dll */
+  libraryPath?: string;
+  /** Explicit path to the ooz command line tool */
+  executablePath?: string;
+}
+
+// Oodle writes up to 64 bytes past the end of the output buffer
+const OODLE_SAFE_SPACE = 64;
+
+const LIBRARY_NAMES =
+  process.platform === 'win32'
+    ? ['ooz.dll', 'libooz.dll']
+    : process.platform === 'darwin'
+      ? ['libooz.dylib']
+      : ['libooz.so'];
+
+const EXECUTABLE_NAMES = process.platform === 'win32' ? ['ooz.exe'] : ['ooz'];
+
+function candidatePaths(names: string[]): string[] {
+  const buildDirs = [
+    join(import.meta.dir, '../../external/ooz/build'),
+    join(import.meta.dir, '../../external/ooz/build/Release'),
+    join(import.meta.dir, '../../external/ooz/build/Debug'),
+  ];
+  return buildDirs.flatMap(dir => names.map(name => join(dir, name)));
+}
+
+// Ooz_Decompress as bound through dlopen below
+type OozDecompressFn = (
+  src: Uint8Array,
+  srcLen: number,
+  dst: Uint8Array,
+  dstSize: number,
+  fuzz: number,
+  crc: number,
+  verbose: number,
+  dstBase: Pointer | null,
+  e: number,
+  cb: Pointer | null,
+  cbCtx: Pointer | null,
+  scratch: Pointer | null,
+  scratchSize: number,
+  threadPhase: number
+) => number;
+
+/**
+ * Decompresses blocks by calling Ooz_Decompress in a native libooz through bun:ffi
+ */
+export class NativeOozDecompressor implements BlockDecompressor {
+  readonly name = 'libooz (ffi)';
+  private decompressFn: OozDecompressFn;
+
+  constructor(libraryPath: string) {
+    // Imported lazily so that environments without bun:ffi can still use the other backends
+    const { dlopen, FFIType } = require('bun:ffi') as typeof import('bun:ffi');
+
+    const lib = dlopen(libraryPath, {
+      Ooz_Decompress: {
+        args: [
+          FFIType.ptr, // src_buf
+          FFIType.i32, // src_len
+          FFIType.ptr, // dst
+          FFIType.u64, // dst_size
+          FFIType.i32, // fuzz
+          FFIType.i32, // crc
+          FFIType.i32, // verbose
+          FFIType.ptr, // dst_base
+          FFIType.u64, // e
+          FFIType.ptr, // cb
+          FFIType.ptr, // cb_ctx
+          FFIType.ptr, // scratch
+          FFIType.u64, // scratch_size
+          FFIType.i32, // threadPhase
+        ],
+        returns: FFIType.i32,
+      },
+    });
+
+    this.decompressFn = lib.symbols.Ooz_Decompress;
+  }
+
+  decompress(block: Buffer, uncompressedSize: number): Buffer {
+    const output = Buffer.alloc(uncompressedSize + OODLE_SAFE_SPACE);
+    const written = this.decompressFn(
+      block,
+      block.length,
+      output,
+      uncompressedSize,
+      0,
+      0,
+      0,
+      null,
+      0,
+      null,
+      null,
+      null,
+      0,
+      3
+    );
+
+    if (written !== uncompressedSize) {
+      throw new Error(`Ooz_Decompress returned ${written}, expected ${uncompressedSize} bytes`);
+    }
+    return output.subarray(0, uncompressedSize);
+  }
+}
+
+/**
+ * Decompresses blocks by spawning the ooz command line tool.
+ * Much slower than the native library (one process per block) but needs no ffi.
+ */
+export class SpawnOozDecompressor implements BlockDecompressor {
+  readonly name = 'ooz (spawn)';
+
+  constructor(private executablePath: string) {}
+
+  decompress(block: Buffer, uncompressedSize: number): Buffer {
+    const workDir = mkdtempSync(join(tmpdir(), 'ggpk-ooz-'));
+    const inputPath = join(workDir, 'block.ooz');
+    const outputPath = join(workDir, 'block.bin');
+
+    try {
+      // ooz expects the decompressed size as a u64 prefix
+      const sizePrefix = Buffer.alloc(8);
+      sizePrefix.writeBigUInt64LE(BigInt(uncompressedSize));
+      writeFileSync(inputPath, Buffer.concat([sizePrefix, block]));
+
+      const proc = spawnSync([this.executablePath, '-d', inputPath, outputPath], {
+        stdout: 'pipe',
+        stderr: 'pipe',
+      });
+
+      if (proc.exitCode !== 0 || !existsSync(outputPath)) {
+        throw new Error(`ooz failed (exit ${proc.exitCode}): ${proc.stderr.toString().trim()}`);
+      }
+
+      const output = readFileSync(outputPath);
+      if (output.length !== uncompressedSize) {
+        throw new Error(`ooz produced ${output.length} bytes, expected ${uncompressedSize}`);
+      }
+      return output;
+    } finally {
+      rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Pick the best available decompressor: native libooz first, then the ooz tool.
+ */
+export function createBlockDecompressor(options: DecompressorOptions = {}): BlockDecompressor {
+  const libraries = options.libraryPath
+    ? [options.libraryPath]
+    : [process.env.OOZ_LIBRARY, ...candidatePaths(LIBRARY_NAMES)].filter((p): p is string => !!p);
+
+  for (const libraryPath of libraries) {
+    if (existsSync(libraryPath)) {
+      try {
+        return new NativeOozDecompressor(libraryPath);
+      } catch (error) {
+        console.warn(`Failed to load ${libraryPath}, trying next decompressor:`, error);
+      }
+    }
+  }
+
+  const executables = options.executablePath
+    ? [options.executablePath]
+    : candidatePaths(EXECUTABLE_NAMES);
+
+  for (const executablePath of executables) {
+    if (existsSync(executablePath)) {
+      return new SpawnOozDecompressor(executablePath);
+    }
+  }
+
+  throw new Error(
+    'No Oodle decompressor found. Please build ooz first:\n' +
+      '  cd external/ooz\n' +
+      '  cmake -B build -DCMAKE_BUILD_TYPE=Release\n' +
+      '  cmake --build build --config Release\n' +
+      'or point OOZ_LIBRARY at a built libooz shared library.'
+  );
+}
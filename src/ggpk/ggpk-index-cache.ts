@@ -0,0 +1,129 @@
+// GGPK Index Cache
+// Persists the walked GGPK directory tree (path -> FILE record) to a compact binary file
+// so it only has to be rebuilt when the archive changes.
+//
+// Format (little-endian):
+//   [magic "GIDX"][version:u32][ggpkSize:u64][ggpkMtimeMs:f64][entryCount:u32]
+//   entries: [pathLength:u16][path:utf8][offset:u64][length:u32][dataLength:u32][hash:32]
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync, renameSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import type { FileRecord } from './ggpk-reader';
+
+const CACHE_MAGIC = 'GIDX';
+const CACHE_VERSION = 1;
+const HEADER_SIZE = 4 + 4 + 8 + 8 + 4;
+const ENTRY_FIXED_SIZE = 2 + 8 + 4 + 4 + 32;
+
+/**
+ * Cache file for a given GGPK. Named after the archive's absolute path so
+ * several installs can share one cache directory.
+ */
+export function getIndexCachePath(cacheDir: string, ggpkPath: string): string {
+  const key = createHash('sha1').update(resolve(ggpkPath)).digest('hex').slice(0, 16);
+  return join(cacheDir, `ggpk-index-${key}.bin`);
+}
+
+/**
+ * Load a cached index. Returns null if there is no cache, it is corrupt, or the
+ * GGPK's size or modification time no longer match.
+ */
+export function loadIndexCache(
+  cachePath: string,
+  ggpkPath: string
+): Map<string, FileRecord> | null {
+  if (!existsSync(cachePath)) return null;
+
+  const { size, mtimeMs } = statSync(ggpkPath);
+
+  try {
+    const buffer = readFileSync(cachePath);
+    if (buffer.length < HEADER_SIZE || buffer.toString('latin1', 0, 4) !== CACHE_MAGIC) {
+      return null;
+    }
+    if (buffer.readUInt32LE(4) !== CACHE_VERSION) return null;
+    if (buffer.readBigUInt64LE(8) !== BigInt(size)) return null;
+    if (buffer.readDoubleLE(16) !== mtimeMs) return null;
+
+    const count = buffer.readUInt32LE(24);
+    const index = new Map<string, FileRecord>();
+    let pos = HEADER_SIZE;
+
+    for (let i = 0; i < count; i++) {
+      const pathLength = buffer.readUInt16LE(pos);
+      pos += 2;
+      const path = buffer.toString('utf8', pos, pos + pathLength);
+      pos += pathLength;
+
+      const offset = buffer.readBigUInt64LE(pos);
+      const length = buffer.readUInt32LE(pos + 8);
+      const dataLength = buffer.readUInt32LE(pos + 12);
+      const hash = Buffer.from(buffer.subarray(pos + 16, pos + 48));
+      pos += 48;
+
+      index.set(path, {
+        type: 'FILE',
+        offset,
+        length,
+        name: basename(path),
+        hash,
+        // The record header is everything before the data
+        dataOffset: offset + BigInt(length - dataLength),
+        dataLength,
+      });
+    }
+
+    return index;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write an index to the cache, stamped with the GGPK's current size and mtime
+ */
+export function saveIndexCache(
+  cachePath: string,
+  ggpkPath: string,
+  index: Map<string, FileRecord>
+): void {
+  const { size, mtimeMs } = statSync(ggpkPath);
+
+  const encodedPaths: Buffer[] = [];
+  let totalSize = HEADER_SIZE;
+  for (const path of index.keys()) {
+    const encoded = Buffer.from(path, 'utf8');
+    encodedPaths.push(encoded);
+    totalSize += ENTRY_FIXED_SIZE + encoded.length;
+  }
+
+  const buffer = Buffer.alloc(totalSize);
+  buffer.write(CACHE_MAGIC, 0, 'latin1');
+  buffer.writeUInt32LE(CACHE_VERSION, 4);
+  buffer.writeBigUInt64LE(BigInt(size), 8);
+  buffer.writeDoubleLE(mtimeMs, 16);
+  buffer.writeUInt32LE(index.size, 24);
+
+  let pos = HEADER_SIZE;
+  let i = 0;
+  for (const record of index.values()) {
+    const encoded = encodedPaths[i++];
+    buffer.writeUInt16LE(encoded.length, pos);
+    pos += 2;
+    encoded.copy(buffer, pos);
+    pos += encoded.length;
+
+    buffer.writeBigUInt64LE(record.offset, pos);
+    buffer.writeUInt32LE(record.length, pos + 8);
+    buffer.writeUInt32LE(record.dataLength, pos + 12);
+    record.hash.copy(buffer, pos + 16, 0, 32);
+    pos += 48;
+  }
+
+  // Write to a temp file and rename so a crash never leaves a half-written cache
+  mkdirSync(dirname(cachePath), { recursive: true });
+  const tempPath = cachePath + '.tmp';
+  writeFileSync(tempPath, buffer);
+  renameSync(tempPath, cachePath);
+}
@@ -2,14 +2,19 @@
 // Implements reading of Path of Exile's GGPK archive format
 // Optimized for large files (100GB+) using positioned reads
 
-import { openSync, readSync, closeSync, writeFileSync } from 'fs';
+import { openSync, readSync, closeSync, writeFileSync, unlinkSync, fstatSync } from 'fs';
+import { createHash } from 'crypto';
+import { murmurHash2 } from './hash';
 import { dirname } from 'path';
 import { mkdirSync } from 'fs';
+import { getIndexCachePath, loadIndexCache, saveIndexCache } from './ggpk-index-cache';
 
 export interface GGPKHeader {
   magic: string;
   version: number;
   firstRecordOffset: bigint;
+  /** Head of the FREE record chain (0 if there is no free space) */
+  firstFreeOffset: bigint;
 }
 
 export interface FileRecord {
@@ -29,6 +34,8 @@ export interface DirectoryRecord {
   name: string;
   hash: Buffer;
   entries: bigint[];
+  /** Name hash of each entry (murmur2 of the lowercased name), sorted ascending */
+  entryHashes: number[];
 }
 
 export interface FreeRecord {
@@ -40,9 +47,64 @@ export interface FreeRecord {
 
 export type Record = FileRecord | DirectoryRecord | FreeRecord;
 
+export interface ExtractOptions {
+  /** Hash the data while writing and throw if it doesn't match the record's SHA-256 */
+  verify?: boolean;
+}
+
+export interface IndexOptions {
+  /** Directory for the persistent index cache; omit to always walk the archive */
+  cacheDir?: string;
+}
+
+// Large files are read in chunks of this size to avoid memory spikes
+const CHUNK_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Bytes per name character: version 4 archives store names as UTF-32LE,
+ * earlier versions as UTF-16LE
+ */
+export function nameCharSize(version: number): number {
+  return version === 4 ? 4 : 2;
+}
+
+/**
+ * Encode a record name (without the null terminator) for the given GGPK version
+ */
+export function encodeName(name: string, version: number): Buffer {
+  if (nameCharSize(version) === 2) {
+    return Buffer.from(name, 'utf16le');
+  }
+  const codePoints = Array.from(name, ch => ch.codePointAt(0)!);
+  const buffer = Buffer.alloc(codePoints.length * 4);
+  codePoints.forEach((codePoint, i) => buffer.writeUInt32LE(codePoint, i * 4));
+  return buffer;
+}
+
+export function decodeName(buffer: Buffer, version: number): string {
+  if (nameCharSize(version) === 2) {
+    return buffer.toString('utf16le');
+  }
+  let name = '';
+  for (let pos = 0; pos + 4 <= buffer.length; pos += 4) {
+    name += String.fromCodePoint(buffer.readUInt32LE(pos));
+  }
+  return name;
+}
+
+/**
+ * Directory entry key: murmur2 of the lowercased name in the archive's name encoding
+ */
+export function nameHash(name: string, version: number): number {
+  return murmurHash2(encodeName(name.toLowerCase(), version));
+}
+
 export class GGPKReader {
   private fd: number;
-  private filePath: string;
+  readonly filePath: string;
+  private index: Map<string, FileRecord> | null = null;
+  // Header version, read on first use; decides how record names are encoded
+  private version: number | null = null;
 
   constructor(filePath: string) {
     this.filePath = filePath;
@@ -85,10 +147,12 @@ export class GGPKReader {
     }
 
     const version = headerBuffer.readUInt32LE(8);
+    this.version = version;
     // The GGPK record contains offsets to the first two records (usually ROOT dir and a FREE record)
     const firstRecordOffset = headerBuffer.readBigUInt64LE(12);
+    const firstFreeOffset = headerBuffer.readBigUInt64LE(20);
 
-    return { magic, version, firstRecordOffset };
+    return { magic, version, firstRecordOffset, firstFreeOffset };
   }
 
   readRecord(offset: bigint): Record {
@@ -119,20 +183,26 @@ export class GGPKReader {
     }
   }
 
+  private getVersion(): number {
+    return this.version ?? this.readHeader().version;
+  }
+
   /**
    * Parse FILE record without loading file content into memory.
    * Only reads the metadata header to get name and calculate data offset.
    */
   private parseFileRecordLazy(offset: bigint, totalLength: number): FileRecord {
     // FILE record structure:
-    // [length:4][tag:4][nameLength:4][hash:32][name:nameLength*2][data:remaining]
+    // [length:4][tag:4][nameLength:4][hash:32][name:nameLength*charSize][data:remaining]
+    const version = this.getVersion();
+    const charSize = nameCharSize(version);
     
     // Read enough to get nameLength
     const metaHeader = this.readAtOffset(offset, 16);
     const nameLength = metaHeader.readUInt32LE(8);
     
     // Now read the full header (without data)
-    const headerSize = 8 + 4 + 32 + nameLength * 2; // tag+length + nameLen + hash + name
+    const headerSize = 8 + 4 + 32 + nameLength * charSize; // tag+length + nameLen + hash + name
     const headerBuffer = this.readAtOffset(offset, headerSize);
     
     let pos = 8; // Skip length + tag
@@ -141,10 +211,10 @@ export class GGPKReader {
     const hash = headerBuffer.slice(pos, pos + 32);
     pos += 32;
 
-    // Name is UTF-16LE (nameLength includes null terminator)
-    const nameBuffer = headerBuffer.slice(pos, pos + (nameLength - 1) * 2);
-    const name = nameBuffer.toString('utf16le');
-    pos += nameLength * 2; // Skip full name including null terminator
+    // Name is UTF-16LE, or UTF-32LE in version 4 (nameLength includes null terminator)
+    const nameBuffer = headerBuffer.slice(pos, pos + (nameLength - 1) * charSize);
+    const name = decodeName(nameBuffer, version);
+    pos += nameLength * charSize; // Skip full name including null terminator
 
     // Calculate data offset and length without reading content
     const dataOffset = offset + BigInt(pos);
@@ -162,6 +232,8 @@ export class GGPKReader {
   }
 
   private parseFileRecord(offset: bigint, buffer: Buffer): FileRecord {
+    const version = this.getVersion();
+    const charSize = nameCharSize(version);
     let pos = 8; // Skip length + tag
 
     const nameLength = buffer.readUInt32LE(pos);
@@ -170,10 +242,10 @@ export class GGPKReader {
     const hash = buffer.slice(pos, pos + 32);
     pos += 32;
 
-    // Name is UTF-16LE (nameLength includes null terminator)
-    const nameBuffer = buffer.slice(pos, pos + (nameLength - 1) * 2);
-    const name = nameBuffer.toString('utf16le');
-    pos += nameLength * 2; // Skip full name including null terminator
+    // Name is UTF-16LE, or UTF-32LE in version 4 (nameLength includes null terminator)
+    const nameBuffer = buffer.slice(pos, pos + (nameLength - 1) * charSize);
+    const name = decodeName(nameBuffer, version);
+    pos += nameLength * charSize; // Skip full name including null terminator
 
     // Rest is file data
     const dataOffset = offset + BigInt(pos);
@@ -191,6 +263,8 @@ export class GGPKReader {
   }
 
   private parseDirectoryRecord(offset: bigint, buffer: Buffer): DirectoryRecord {
+    const version = this.getVersion();
+    const charSize = nameCharSize(version);
     let pos = 8; // Skip length + tag
 
     const nameLength = buffer.readUInt32LE(pos);
@@ -202,16 +276,17 @@ export class GGPKReader {
     const hash = buffer.slice(pos, pos + 32);
     pos += 32;
 
-    // Name is UTF-16LE (nameLength includes null terminator)
-    const nameBuffer = buffer.slice(pos, pos + (nameLength - 1) * 2);
-    const name = nameBuffer.toString('utf16le');
-    pos += nameLength * 2; // Skip full name including null terminator
+    // Name is UTF-16LE, or UTF-32LE in version 4 (nameLength includes null terminator)
+    const nameBuffer = buffer.slice(pos, pos + (nameLength - 1) * charSize);
+    const name = decodeName(nameBuffer, version);
+    pos += nameLength * charSize; // Skip full name including null terminator
 
     // Read entries - each entry is: nameHash (4 bytes) + offset (8 bytes) = 12 bytes
     const entries: bigint[] = [];
+    const entryHashes: number[] = [];
     for (let i = 0; i < entriesCount; i++) {
-      // Skip nameHash (4 bytes), read offset (8 bytes)
-      pos += 4; // nameHash
+      entryHashes.push(buffer.readUInt32LE(pos));
+      pos += 4;
       entries.push(buffer.readBigInt64LE(pos));
       pos += 8;
     }
@@ -223,6 +298,7 @@ export class GGPKReader {
       name,
       hash,
       entries,
+      entryHashes,
     };
   }
 
@@ -237,14 +313,14 @@ export class GGPKReader {
     };
   }
 
-  extractFile(fileRecord: FileRecord, outputPath: string): void {
+  extractFile(fileRecord: FileRecord, outputPath: string, options: ExtractOptions = {}): void {
     // Create directory if needed
     const dir = dirname(outputPath);
     mkdirSync(dir, { recursive: true });
 
+    const hasher = options.verify ? createHash('sha256') : null;
+
     // For large files (>50MB), use chunked reading to avoid memory spikes
-    const CHUNK_SIZE = 50 * 1024 * 1024; // 50MB chunks
-    
     if (fileRecord.dataLength > CHUNK_SIZE) {
       // Stream large files in chunks
       const { openSync: openWrite, writeSync, closeSync: closeWrite } = require('fs');
@@ -256,6 +332,7 @@ export class GGPKReader {
       while (remaining > 0) {
         const chunkSize = Math.min(CHUNK_SIZE, remaining);
         const chunk = this.readAtOffset(currentOffset, chunkSize);
+        hasher?.update(chunk);
         writeSync(outFd, chunk);
         currentOffset += BigInt(chunkSize);
         remaining -= chunkSize;
@@ -265,50 +342,274 @@ export class GGPKReader {
     } else {
       // Small files: read entire file at once
       const data = this.readAtOffset(fileRecord.dataOffset, fileRecord.dataLength);
+      hasher?.update(data);
       writeFileSync(outputPath, data);
     }
+
+    if (hasher) {
+      const actual = hasher.digest();
+      if (!actual.equals(fileRecord.hash)) {
+        // Don't leave corrupt data behind looking like a good extraction
+        unlinkSync(outputPath);
+        throw new Error(
+          `SHA-256 mismatch for ${fileRecord.name} at offset ${fileRecord.offset}: ` +
+            `expected ${fileRecord.hash.toString('hex')}, got ${actual.toString('hex')}`
+        );
+      }
+    }
   }
 
-  async buildIndex(): Promise<Map<string, FileRecord>> {
-    const index = new Map<string, FileRecord>();
+  /**
+   * SHA-256 of a FILE record's data, read in chunks so large files don't have to fit in memory
+   */
+  hashFileData(fileRecord: FileRecord): Buffer {
+    const hasher = createHash('sha256');
+    let remaining = fileRecord.dataLength;
+    let currentOffset = fileRecord.dataOffset;
+
+    while (remaining > 0) {
+      const chunkSize = Math.min(CHUNK_SIZE, remaining);
+      hasher.update(this.readAtOffset(currentOffset, chunkSize));
+      currentOffset += BigInt(chunkSize);
+      remaining -= chunkSize;
+    }
+
+    return hasher.digest();
+  }
+
+  /**
+   * Check a FILE record's data against the SHA-256 stored in the record
+   */
+  verifyFile(fileRecord: FileRecord): boolean {
+    return this.hashFileData(fileRecord).equals(fileRecord.hash);
+  }
+
+  /**
+   * Follow the FREE record chain from the header. Each FREE record links to the next;
+   * the chain ends at offset 0.
+   */
+  readFreeChain(): FreeRecord[] {
+    const records: FreeRecord[] = [];
+    const seen = new Set<bigint>();
+    let offset = this.readHeader().firstFreeOffset;
+
+    while (offset !== 0n) {
+      if (seen.has(offset)) {
+        throw new Error(`FREE chain loops back to offset ${offset}`);
+      }
+      seen.add(offset);
+
+      const record = this.readRecord(offset);
+      if (record.type !== 'FREE') {
+        throw new Error(`FREE chain points at a ${record.type} record at offset ${offset}`);
+      }
+      records.push(record);
+      offset = record.nextFreeOffset;
+    }
+
+    return records;
+  }
+
+  /**
+   * Visit every record in file order, reading only the 8-byte record headers.
+   * Unlike a tree walk this also finds records nothing points to any more.
+   */
+  *scanRecords(): Generator<{ offset: bigint; length: number; tag: string }> {
+    const fileSize = BigInt(fstatSync(this.fd).size);
+    let offset = 0n;
+
+    while (offset < fileSize) {
+      const headerBuffer = this.readAtOffset(offset, 8);
+      const length = headerBuffer.readUInt32LE(0);
+      const tag = headerBuffer.toString('utf8', 4, 8);
+      if (length < 8) {
+        throw new Error(`Invalid record length ${length} at offset ${offset} (tag: ${tag})`);
+      }
+
+      yield { offset, length, tag };
+      offset += BigInt(length);
+    }
+  }
+
+  /**
+   * Find the record for one path by following the name hashes stored in each
+   * directory, reading only the records along the way. Returns null if any
+   * component is missing. An empty path resolves to the root directory.
+   */
+  resolve(path: string): FileRecord | DirectoryRecord | null {
+    const chain = this.resolveChain(path);
+    return chain ? chain[chain.length - 1].record : null;
+  }
+
+  /**
+   * Like resolve(), but returns every record from ROOT down to the target along with
+   * the index of each record in its parent's entry list (-1 for ROOT)
+   */
+  resolveChain(path: string): { record: FileRecord | DirectoryRecord; entryIndex: number }[] | null {
     const header = this.readHeader();
+    const root = this.readRecord(header.firstRecordOffset);
+    if (root.type !== 'PDIR') return null;
 
-    console.log(`GGPK version: ${header.version}`);
-    console.log(`First record at: ${header.firstRecordOffset}`);
+    const chain: { record: FileRecord | DirectoryRecord; entryIndex: number }[] = [
+      { record: root, entryIndex: -1 },
+    ];
 
-    const traverse = (offset: bigint, path: string = ''): void => {
-      try {
-        const record = this.readRecord(offset);
+    const components = path.split(/[\\/]+/).filter(Boolean);
+    for (const component of components) {
+      const parent = chain[chain.length - 1].record;
+      if (parent.type !== 'PDIR') return null;
 
-        if (record.type === 'PDIR') {
-          const dirPath = path ? `${path}/${record.name}` : record.name;
-          
-          // Skip ROOT entry name for cleaner paths
-          const cleanPath = record.name === 'ROOT' ? '' : dirPath;
-          
-          for (const entryOffset of record.entries) {
-            traverse(entryOffset, cleanPath);
-          }
-        } else if (record.type === 'FILE') {
-          const filePath = path ? `${path}/${record.name}` : record.name;
-          index.set(filePath, record);
+      const child = this.findChild(parent, component);
+      if (!child) return null;
+      chain.push(child);
+    }
+
+    return chain;
+  }
+
+  /**
+   * Binary search a directory's sorted entry hashes, then compare names to
+   * rule out hash collisions
+   */
+  private findChild(
+    dir: DirectoryRecord,
+    name: string
+  ): { record: FileRecord | DirectoryRecord; entryIndex: number } | null {
+    const lowerName = name.toLowerCase();
+    const hash = nameHash(lowerName, this.getVersion());
+
+    let low = 0;
+    let high = dir.entryHashes.length - 1;
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+      if (dir.entryHashes[mid] < hash) {
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    for (let i = low; i < dir.entryHashes.length && dir.entryHashes[i] === hash; i++) {
+      const child = this.readRecord(dir.entries[i]);
+      if (child.type !== 'FREE' && child.name.toLowerCase() === lowerName) {
+        return { record: child, entryIndex: i };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Read part of a FILE record's data with a positioned read.
+   * Offsets are relative to the start of the file data, not the record.
+   */
+  readFileData(fileRecord: FileRecord, offset = 0, length = fileRecord.dataLength - offset): Buffer {
+    if (offset < 0 || length < 0 || offset + length > fileRecord.dataLength) {
+      throw new RangeError(
+        `Range [${offset}, ${offset + length}) is outside ${fileRecord.name} (${fileRecord.dataLength} bytes)`
+      );
+    }
+    return this.readAtOffset(fileRecord.dataOffset + BigInt(offset), length);
+  }
+
+  /**
+   * Index only the files below one directory (e.g. "Bundles2").
+   * Paths in the returned map are relative to that directory.
+   * Returns null if the directory does not exist.
+   */
+  indexDirectory(dirPath: string): Map<string, FileRecord> | null {
+    const header = this.readHeader();
+    let record = this.readRecord(header.firstRecordOffset);
+
+    // Walk down one path component at a time, only reading the children of each directory
+    for (const component of dirPath.split('/').filter(Boolean)) {
+      if (record.type !== 'PDIR') return null;
+
+      const wanted = component.toLowerCase();
+      let next: Record | null = null;
+      for (const entryOffset of record.entries) {
+        const child = this.readRecord(entryOffset);
+        if (child.type === 'PDIR' && child.name.toLowerCase() === wanted) {
+          next = child;
+          break;
         }
-        // Ignore FREE records
-      } catch (error) {
-        console.error(`Error reading record at ${offset}:`, error);
+      }
+      if (!next) return null;
+      record = next;
+    }
+
+    if (record.type !== 'PDIR') return null;
+
+    const index = new Map<string, FileRecord>();
+    const traverse = (offset: bigint, parentPath: string): void => {
+      const child = this.readRecord(offset);
+      if (child.type === 'FREE') return;
+
+      const childPath = parentPath ? `${parentPath}/${child.name}` : child.name;
+      if (child.type === 'PDIR') {
+        for (const entryOffset of child.entries) {
+          traverse(entryOffset, childPath);
+        }
+      } else {
+        index.set(childPath, child);
       }
     };
 
-    traverse(header.firstRecordOffset);
-    
-    console.log(`Indexed ${index.size} files`);
+    for (const entryOffset of record.entries) {
+      traverse(entryOffset, '');
+    }
+    return index;
+  }
+
+  /**
+   * Walk the directory tree and map every file path to its FILE record.
+   * With a cache directory the result is persisted and reused until the GGPK changes.
+   */
+  async buildIndex(options: IndexOptions = {}): Promise<Map<string, FileRecord>> {
+    return this.loadIndex(options);
+  }
+
+  listFiles(pattern?: RegExp, options: IndexOptions = {}): string[] {
+    const files: string[] = [];
+    for (const filePath of this.loadIndex(options).keys()) {
+      if (!pattern || pattern.test(filePath)) {
+        files.push(filePath);
+      }
+    }
+    return files;
+  }
+
+  private loadIndex(options: IndexOptions): Map<string, FileRecord> {
+    if (this.index) return this.index;
+
+    const cachePath = options.cacheDir ? getIndexCachePath(options.cacheDir, this.filePath) : null;
+    if (cachePath) {
+      const cached = loadIndexCache(cachePath, this.filePath);
+      if (cached) {
+        this.index = cached;
+        return cached;
+      }
+    }
+
+    const index = this.walkIndex();
+    if (cachePath) {
+      try {
+        saveIndexCache(cachePath, this.filePath, index);
+      } catch (error) {
+        console.error(`Failed to write GGPK index cache to ${cachePath}:`, error);
+      }
+    }
+
+    this.index = index;
     return index;
   }
 
-  listFiles(pattern?: RegExp): string[] {
+  private walkIndex(): Map<string, FileRecord> {
     const index = new Map<string, FileRecord>();
     const header = this.readHeader();
-    const files: string[] = [];
+
+    // Logged to stderr so reports written to stdout (e.g. `diff --format json`) stay parseable
+    console.error(`GGPK version: ${header.version}`);
+    console.error(`First record at: ${header.firstRecordOffset}`);
 
     const traverse = (offset: bigint, path: string = ''): void => {
       try {
@@ -316,6 +617,8 @@ export class GGPKReader {
 
         if (record.type === 'PDIR') {
           const dirPath = path ? `${path}/${record.name}` : record.name;
+          
+          // Skip ROOT entry name for cleaner paths
           const cleanPath = record.name === 'ROOT' ? '' : dirPath;
           
           for (const entryOffset of record.entries) {
@@ -323,16 +626,17 @@ export class GGPKReader {
           }
         } else if (record.type === 'FILE') {
           const filePath = path ? `${path}/${record.name}` : record.name;
-          if (!pattern || pattern.test(filePath)) {
-            files.push(filePath);
-          }
+          index.set(filePath, record);
         }
+        // Ignore FREE records
       } catch (error) {
-        // Ignore errors during listing
+        console.error(`Error reading record at ${offset}:`, error);
       }
     };
 
     traverse(header.firstRecordOffset);
-    return files;
+    
+    console.error(`Indexed ${index.size} files`);
+    return index;
   }
 }
@@ -0,0 +1,363 @@
+// GGPK File Format Writer
+// Replaces FILE record data in place. Every change is planned up front, the bytes it
+// overwrites are saved to a journal next to the GGPK, and only then applied, so an
+// interrupted write can be rolled back the next time the archive is opened for writing.
+
+import {
+  openSync,
+  readSync,
+  writeSync,
+  closeSync,
+  fsyncSync,
+  fstatSync,
+  ftruncateSync,
+  existsSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  unlinkSync,
+} from 'fs';
+import { createHash } from 'crypto';
+import { GGPKReader, type FileRecord, type DirectoryRecord } from './ggpk-reader';
+
+const JOURNAL_MAGIC = 'GJNL';
+// [magic:4][originalSize:8][count:4], then [offset:8][length:4][bytes] per entry
+const JOURNAL_HEADER_SIZE = 16;
+const JOURNAL_ENTRY_HEADER_SIZE = 12;
+// Offset of the first FREE record pointer in the GGPK header record
+const HEADER_FREE_OFFSET = 20n;
+// [length:4][tag:4][next:8]
+const FREE_HEADER_SIZE = 16;
+// PDIR layout: [length:4][tag:4][nameLength:4][entriesCount:4][hash:32]...
+const PDIR_HASH_OFFSET = 16n;
+// FILE layout: [length:4][tag:4][nameLength:4][hash:32][name][data]
+const FILE_HASH_OFFSET = 12n;
+const FILE_NAME_OFFSET = 44n;
+
+interface PendingWrite {
+  offset: bigint;
+  data: Buffer;
+}
+
+interface FreeRegion {
+  offset: bigint;
+  length: number;
+}
+
+export interface ReplaceResult {
+  /** The FILE record as written */
+  record: FileRecord;
+  /** How space for the record was found */
+  placement: 'in-place' | 'free-record' | 'appended';
+}
+
+export function getJournalPath(ggpkPath: string): string {
+  return `${ggpkPath}.journal`;
+}
+
+/**
+ * Undo entries of a journal, or null if it was cut short. The journal is complete
+ * before the GGPK is touched, so an incomplete one means there is nothing to undo.
+ */
+function readJournalEntries(journal: Buffer): PendingWrite[] | null {
+  if (journal.length < JOURNAL_HEADER_SIZE) return null;
+
+  const count = journal.readUInt32LE(12);
+  const entries: PendingWrite[] = [];
+  let pos = JOURNAL_HEADER_SIZE;
+  for (let i = 0; i < count; i++) {
+    if (pos + JOURNAL_ENTRY_HEADER_SIZE > journal.length) return null;
+    const offset = journal.readBigUInt64LE(pos);
+    const length = journal.readUInt32LE(pos + 8);
+    pos += JOURNAL_ENTRY_HEADER_SIZE;
+    if (pos + length > journal.length) return null;
+    entries.push({ offset, data: journal.subarray(pos, pos + length) });
+    pos += length;
+  }
+  return pos === journal.length ? entries : null;
+}
+
+export class GGPKWriter {
+  private fd: number;
+  private reader: GGPKReader;
+
+  constructor(readonly filePath: string) {
+    this.fd = openSync(filePath, 'r+');
+    try {
+      // A journal left behind means a previous commit never finished
+      GGPKWriter.recover(filePath, this.fd);
+      this.reader = new GGPKReader(filePath);
+    } catch (error) {
+      closeSync(this.fd);
+      this.fd = -1;
+      throw error;
+    }
+  }
+
+  close(): void {
+    this.reader.close();
+    if (this.fd !== -1) {
+      closeSync(this.fd);
+      this.fd = -1;
+    }
+  }
+
+  /**
+   * Roll back an interrupted commit. Returns true if there was anything to undo.
+   */
+  static recover(ggpkPath: string, fd?: number): boolean {
+    const journalPath = getJournalPath(ggpkPath);
+    // Left over from a crash while the journal was being written; the GGPK is untouched
+    rmSync(`${journalPath}.tmp`, { force: true });
+    if (!existsSync(journalPath)) return false;
+
+    const journal = readFileSync(journalPath);
+    if (
+      journal.length >= JOURNAL_HEADER_SIZE &&
+      journal.toString('latin1', 0, 4) !== JOURNAL_MAGIC
+    ) {
+      throw new Error(`Invalid GGPK journal: ${journalPath}`);
+    }
+
+    const entries = readJournalEntries(journal);
+    if (!entries) {
+      unlinkSync(journalPath);
+      return false;
+    }
+
+    const ownFd = fd === undefined;
+    const handle = fd ?? openSync(ggpkPath, 'r+');
+    try {
+      for (const entry of entries) {
+        writeSync(handle, entry.data, 0, entry.data.length, Number(entry.offset));
+      }
+      ftruncateSync(handle, Number(journal.readBigUInt64LE(4)));
+      fsyncSync(handle);
+    } finally {
+      if (ownFd) closeSync(handle);
+    }
+
+    unlinkSync(journalPath);
+    return true;
+  }
+
+  /**
+   * Replace a file's contents. The record is rewritten in place if its size is
+   * unchanged, otherwise it moves into a large enough FREE record or to the end of
+   * the archive and the old record becomes free space. Parent directory entries and
+   * hashes are updated up to ROOT.
+   */
+  replaceFile(virtualPath: string, data: Buffer): ReplaceResult {
+    const chain = this.reader.resolveChain(virtualPath);
+    const target = chain?.[chain.length - 1];
+    if (!chain || !target || target.record.type !== 'FILE') {
+      throw new Error(`File not found in GGPK: ${virtualPath}`);
+    }
+
+    const oldRecord = target.record;
+    const writes: PendingWrite[] = [];
+
+    // Build the new record, keeping the name bytes exactly as stored
+    const nameBytes = this.read(
+      oldRecord.offset + FILE_NAME_OFFSET,
+      Number(oldRecord.dataOffset - oldRecord.offset - FILE_NAME_OFFSET)
+    );
+    const headerSize = Number(FILE_NAME_OFFSET) + nameBytes.length;
+    const recordLength = headerSize + data.length;
+    if (recordLength > 0xffffffff) {
+      throw new Error(`${virtualPath} is too large for a GGPK record (${data.length} bytes)`);
+    }
+
+    const hash = createHash('sha256').update(data).digest();
+    const recordBuffer = Buffer.alloc(recordLength);
+    recordBuffer.writeUInt32LE(recordLength, 0);
+    recordBuffer.write('FILE', 4, 'latin1');
+    recordBuffer.writeUInt32LE(this.read(oldRecord.offset + 8n, 4).readUInt32LE(0), 8);
+    hash.copy(recordBuffer, Number(FILE_HASH_OFFSET));
+    nameBytes.copy(recordBuffer, Number(FILE_NAME_OFFSET));
+    data.copy(recordBuffer, headerSize);
+
+    let newOffset: bigint;
+    let placement: ReplaceResult['placement'];
+
+    if (recordLength === oldRecord.length) {
+      newOffset = oldRecord.offset;
+      placement = 'in-place';
+    } else {
+      const freeList = this.readFreeList();
+      const originalNext = new Map(
+        freeList.map((region, i) => [region.offset, freeList[i + 1]?.offset ?? 0n])
+      );
+      const originalHead = freeList[0]?.offset ?? 0n;
+
+      // First fit: an exact match, or one with room left over for a FREE record
+      const index = freeList.findIndex(
+        region => region.length === recordLength || region.length >= recordLength + FREE_HEADER_SIZE
+      );
+
+      if (index !== -1) {
+        const region = freeList[index];
+        newOffset = region.offset;
+        placement = 'free-record';
+
+        if (region.length === recordLength) {
+          freeList.splice(index, 1);
+        } else {
+          // The remainder stays free
+          freeList[index] = {
+            offset: region.offset + BigInt(recordLength),
+            length: region.length - recordLength,
+          };
+        }
+      } else {
+        newOffset = BigInt(fstatSync(this.fd).size);
+        placement = 'appended';
+      }
+
+      // The old record becomes the new head of the free list
+      freeList.unshift({ offset: oldRecord.offset, length: oldRecord.length });
+
+      // Rewrite every FREE record whose link changed, plus the header's head pointer
+      for (let i = 0; i < freeList.length; i++) {
+        const region = freeList[i];
+        const next = freeList[i + 1]?.offset ?? 0n;
+        if (originalNext.get(region.offset) === next) continue;
+
+        const freeHeader = Buffer.alloc(FREE_HEADER_SIZE);
+        freeHeader.writeUInt32LE(region.length, 0);
+        freeHeader.write('FREE', 4, 'latin1');
+        freeHeader.writeBigUInt64LE(next, 8);
+        writes.push({ offset: region.offset, data: freeHeader });
+      }
+
+      if (freeList[0].offset !== originalHead) {
+        const head = Buffer.alloc(8);
+        head.writeBigUInt64LE(freeList[0].offset);
+        writes.push({ offset: HEADER_FREE_OFFSET, data: head });
+      }
+    }
+
+    writes.push({ offset: newOffset, data: recordBuffer });
+
+    // Walk back up to ROOT: point the parent at the moved record and refresh each hash
+    let childOffset = newOffset;
+    let childHash: Buffer = hash;
+    for (let i = chain.length - 1; i > 0; i--) {
+      const parent = chain[i - 1].record as DirectoryRecord;
+      const entryIndex = chain[i].entryIndex;
+      const entriesStart = parent.offset + BigInt(parent.length - parent.entries.length * 12);
+
+      if (childOffset !== parent.entries[entryIndex]) {
+        const entryOffset = Buffer.alloc(8);
+        entryOffset.writeBigUInt64LE(childOffset);
+        writes.push({ offset: entriesStart + BigInt(entryIndex * 12 + 4), data: entryOffset });
+      }
+
+      childHash = this.directoryHash(parent, entryIndex, childHash);
+      writes.push({ offset: parent.offset + PDIR_HASH_OFFSET, data: childHash });
+      childOffset = parent.offset;
+    }
+
+    this.commit(writes);
+
+    return {
+      record: {
+        type: 'FILE',
+        offset: newOffset,
+        length: recordLength,
+        name: oldRecord.name,
+        hash,
+        dataOffset: newOffset + BigInt(headerSize),
+        dataLength: data.length,
+      },
+      placement,
+    };
+  }
+
+  /**
+   * A directory's hash is the SHA-256 of its children's hashes concatenated in entry order.
+   * That's an assumption about the format rather than something checked against a real
+   * archive: test/fixtures/ggpk.ts builds directory hashes the same way, so the tests only
+   * prove the writer agrees with it. `verify` checks file hashes, not directory hashes.
+   */
+  private directoryHash(dir: DirectoryRecord, changedIndex: number, changedHash: Buffer): Buffer {
+    const hasher = createHash('sha256');
+    dir.entries.forEach((entryOffset, i) => {
+      if (i === changedIndex) {
+        hasher.update(changedHash);
+      } else {
+        const child = this.reader.readRecord(entryOffset);
+        if (child.type !== 'FREE') hasher.update(child.hash);
+      }
+    });
+    return hasher.digest();
+  }
+
+  private readFreeList(): FreeRegion[] {
+    return this.reader
+      .readFreeChain()
+      .map(record => ({ offset: record.offset, length: record.length }));
+  }
+
+  private read(offset: bigint, length: number): Buffer {
+    const buffer = Buffer.alloc(length);
+    readSync(this.fd, buffer, 0, length, Number(offset));
+    return buffer;
+  }
+
+  /**
+   * Journal the bytes about to be overwritten, apply the writes, then drop the journal.
+   * Appended data needs no journal entry: rolling back truncates to the original size.
+   */
+  private commit(writes: PendingWrite[]): void {
+    const originalSize = BigInt(fstatSync(this.fd).size);
+
+    const undo: PendingWrite[] = [];
+    for (const write of writes) {
+      if (write.offset >= originalSize) continue;
+      const end = write.offset + BigInt(write.data.length);
+      const length = Number((end < originalSize ? end : originalSize) - write.offset);
+      undo.push({ offset: write.offset, data: this.read(write.offset, length) });
+    }
+
+    const journalSize =
+      JOURNAL_HEADER_SIZE +
+      undo.reduce((sum, entry) => sum + JOURNAL_ENTRY_HEADER_SIZE + entry.data.length, 0);
+    const journal = Buffer.alloc(journalSize);
+    journal.write(JOURNAL_MAGIC, 0, 'latin1');
+    journal.writeBigUInt64LE(originalSize, 4);
+    journal.writeUInt32LE(undo.length, 12);
+    let pos = JOURNAL_HEADER_SIZE;
+    for (const entry of undo) {
+      journal.writeBigUInt64LE(entry.offset, pos);
+      journal.writeUInt32LE(entry.data.length, pos + 8);
+      entry.data.copy(journal, pos + JOURNAL_ENTRY_HEADER_SIZE);
+      pos += JOURNAL_ENTRY_HEADER_SIZE + entry.data.length;
+    }
+
+    // Written under a temporary name and renamed once synced, so a journal at the
+    // real path is always complete
+    const journalPath = getJournalPath(this.filePath);
+    const tempPath = `${journalPath}.tmp`;
+    const journalFd = openSync(tempPath, 'w');
+    try {
+      writeSync(journalFd, journal);
+      fsyncSync(journalFd);
+    } finally {
+      closeSync(journalFd);
+    }
+    renameSync(tempPath, journalPath);
+
+    try {
+      for (const write of writes) {
+        writeSync(this.fd, write.data, 0, write.data.length, Number(write.offset));
+      }
+      fsyncSync(this.fd);
+    } catch (error) {
+      GGPKWriter.recover(this.filePath, this.fd);
+      throw error;
+    }
+
+    unlinkSync(journalPath);
+  }
+}
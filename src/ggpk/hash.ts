@@ -0,0 +1,99 @@
+// Hash functions used by the GGPK and Bundles2 formats
+
+const MASK_64 = (1n << 64n) - 1n;
+
+const MURMUR64A_M = 0xc6a4a7935bd1e995n;
+const MURMUR64A_R = 47n;
+
+/** Seed GGG uses when hashing bundled file and directory paths */
+export const BUNDLE_PATH_SEED = 0x1337b33fn;
+
+/**
+ * MurmurHash64A (64-bit, little-endian) over a byte buffer.
+ * Used by the bundle index to key file records by their lowercased path.
+ */
+export function murmurHash64A(data: Uint8Array, seed: bigint = BUNDLE_PATH_SEED): bigint {
+  const length = data.length;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let h = (seed ^ ((BigInt(length) * MURMUR64A_M) & MASK_64)) & MASK_64;
+
+  const blockEnd = length - (length & 7);
+  for (let i = 0; i < blockEnd; i += 8) {
+    let k = view.getBigUint64(i, true);
+    k = (k * MURMUR64A_M) & MASK_64;
+    k ^= k >> MURMUR64A_R;
+    k = (k * MURMUR64A_M) & MASK_64;
+
+    h ^= k;
+    h = (h * MURMUR64A_M) & MASK_64;
+  }
+
+  const tail = length & 7;
+  if (tail > 0) {
+    for (let i = tail - 1; i >= 0; i--) {
+      h ^= BigInt(data[blockEnd + i]) << BigInt(i * 8);
+    }
+    h = (h * MURMUR64A_M) & MASK_64;
+  }
+
+  h ^= h >> MURMUR64A_R;
+  h = (h * MURMUR64A_M) & MASK_64;
+  h ^= h >> MURMUR64A_R;
+
+  return h;
+}
+
+const FNV64_OFFSET = 0xcbf29ce484222325n;
+const FNV64_PRIME = 0x100000001b3n;
+
+/**
+ * FNV-1a (64-bit). Bundle indexes written before 3.21.2 hash paths with this
+ * instead of MurmurHash64A.
+ */
+export function fnv1a64(data: Uint8Array): bigint {
+  let h = FNV64_OFFSET;
+  for (let i = 0; i < data.length; i++) {
+    h ^= BigInt(data[i]);
+    h = (h * FNV64_PRIME) & MASK_64;
+  }
+  return h;
+}
+
+const MURMUR2_M = 0x5bd1e995;
+
+/**
+ * MurmurHash2 (32-bit). GGPK directory entries are keyed by this hash of the
+ * lowercased child name.
+ */
+export function murmurHash2(data: Uint8Array, seed = 0): number {
+  const length = data.length;
+  let h = (seed ^ length) >>> 0;
+
+  const blockEnd = length - (length & 3);
+  for (let i = 0; i < blockEnd; i += 4) {
+    let k = data[i] | (data[i + 1] << 8) | (data[i + 2] << 16) | (data[i + 3] << 24);
+    k = Math.imul(k, MURMUR2_M);
+    k ^= k >>> 24;
+    k = Math.imul(k, MURMUR2_M);
+
+    h = Math.imul(h, MURMUR2_M) ^ k;
+  }
+
+  switch (length & 3) {
+    case 3:
+      h ^= data[blockEnd + 2] << 16;
+    // falls through
+    case 2:
+      h ^= data[blockEnd + 1] << 8;
+    // falls through
+    case 1:
+      h ^= data[blockEnd];
+      h = Math.imul(h, MURMUR2_M);
+  }
+
+  h ^= h >>> 13;
+  h = Math.imul(h, MURMUR2_M);
+  h ^= h >>> 15;
+
+  return h >>> 0;
+}
@@ -0,0 +1,430 @@
+// Virtual Filesystem - one logical view of the game's files
+// Paths resolve through the bundle index first and raw GGPK records second, so the same
+// path means the same file in every command. Lookups are case-insensitive.
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { GGPKReader, type FileRecord, type IndexOptions } from './ggpk-reader';
+import { detectInstallLayout, openBundle } from './bundle-source';
+import type { BundleReader } from './bundle-reader';
+import {
+  openNativeBundles,
+  readBundledFile,
+  type NativeBundles,
+  type ProgressCallback,
+} from './bundle-extractor';
+import { AsyncGGPKReader } from './async-ggpk-reader';
+import { forEachConcurrent } from '../utils/concurrency';
+import type { BundledFileEntry } from './bundle-index';
+
+export interface VirtualFileStat {
+  /** Path with the casing stored in the index */
+  path: string;
+  isDirectory: boolean;
+  /** Uncompressed size in bytes (0 for directories) */
+  size: number;
+  /** Where the file's data lives */
+  source: 'bundle' | 'ggpk' | 'directory';
+}
+
+export interface ExtractManyOptions {
+  /** Maximum number of files extracted at once (default: 4) */
+  concurrency?: number;
+  /** Check GGPK records against their SHA-256 hashes while writing */
+  verify?: boolean;
+  onProgress?: ProgressCallback;
+}
+
+export interface ExtractManyResult {
+  extracted: number;
+  bytesExtracted: number;
+  failed: { path: string; error: unknown }[];
+}
+
+type VirtualFile =
+  | { path: string; source: 'bundle'; entry: BundledFileEntry }
+  | { path: string; source: 'ggpk'; record: FileRecord };
+
+/**
+ * Normalize a user supplied path: forward slashes, no leading/trailing slash, lowercase key
+ */
+function toKey(path: string): string {
+  return path
+    .replace(/\\/g, '/')
+    .replace(/^\/+|\/+$/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Convert a glob to an anchored, case-insensitive regex.
+ * `**` matches across directories, `*` and `?` stay within one path segment.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" also matches zero directories
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i++;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Read a single file without building the full file index. GGPK records are tried
+ * first by following directory name hashes, which only reads the records on the path;
+ * other paths are looked up by path hash in the bundle index (parsed once per install).
+ * File data is read asynchronously so servers stay responsive.
+ * Returns null if the file doesn't exist.
+ */
+export async function readGameFile(installPath: string, path: string): Promise<Buffer | null> {
+  const install = detectInstallLayout(installPath);
+  const normalized = path.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+
+  if (install.layout === 'ggpk') {
+    const reader = new GGPKReader(install.path);
+    let record;
+    try {
+      record = reader.resolve(normalized);
+    } finally {
+      reader.close();
+    }
+
+    if (record?.type === 'FILE') {
+      const asyncReader = await AsyncGGPKReader.open(install.path);
+      try {
+        return await asyncReader.readFileData(record);
+      } finally {
+        await asyncReader.close();
+      }
+    }
+  }
+
+  const bundles = openNativeBundles(installPath);
+  const entry = bundles?.index.getFile(normalized);
+  return bundles && entry ? readBundledFile(bundles, entry) : null;
+}
+
+export class VirtualFileSystem {
+  private files = new Map<string, VirtualFile>();
+  // Lowercased directory path -> child names; built on first directory query
+  private directories: Map<string, Map<string, string>> | null = null;
+  // Last bundle read from, kept open so reads from the same bundle reuse its decompressed blocks
+  private currentBundle: { name: string; reader: BundleReader } | null = null;
+
+  constructor(
+    private bundles: NativeBundles | null,
+    private ggpk: GGPKReader | null,
+    ggpkIndex: Map<string, FileRecord> | null
+  ) {
+    if (bundles) {
+      for (const entry of bundles.index.entries()) {
+        this.files.set(toKey(entry.path), { path: entry.path, source: 'bundle', entry });
+      }
+    }
+
+    // GGPK records only fill in paths the bundle index doesn't know about
+    if (ggpkIndex) {
+      for (const [path, record] of ggpkIndex) {
+        const key = toKey(path);
+        if (!this.files.has(key)) {
+          this.files.set(key, { path, source: 'ggpk', record });
+        }
+      }
+    }
+  }
+
+  /**
+   * Open the filesystem for an install (game directory, Bundles2 directory or Content.ggpk).
+   * Pass a cache directory to reuse the GGPK directory index between runs.
+   */
+  static async open(installPath: string, options: IndexOptions = {}): Promise<VirtualFileSystem> {
+    const install = detectInstallLayout(installPath);
+    const bundles = openNativeBundles(installPath);
+
+    let ggpk: GGPKReader | null = null;
+    let ggpkIndex: Map<string, FileRecord> | null = null;
+    if (install.layout === 'ggpk') {
+      ggpk = new GGPKReader(install.path);
+      ggpkIndex = await ggpk.buildIndex(options);
+    }
+
+    if (!bundles && !ggpk) {
+      throw new Error(
+        `Cannot read bundled files in ${install.path} without an ooz decompressor (see README)`
+      );
+    }
+
+    return new VirtualFileSystem(bundles, ggpk, ggpkIndex);
+  }
+
+  /**
+   * Close the GGPK handle and the open bundle. Bundle indexes are shared and stay cached.
+   */
+  close(): void {
+    this.ggpk?.close();
+    this.ggpk = null;
+    this.currentBundle?.reader.close();
+    this.currentBundle = null;
+  }
+
+  private bundleReader(bundleName: string): BundleReader {
+    if (this.currentBundle?.name === bundleName) {
+      return this.currentBundle.reader;
+    }
+    this.currentBundle?.reader.close();
+    this.currentBundle = null;
+
+    const reader = openBundle(this.bundles!.source, bundleName, this.bundles!.decompressor);
+    this.currentBundle = { name: bundleName, reader };
+    return reader;
+  }
+
+  private readBundled(entry: BundledFileEntry): Buffer {
+    return this.bundleReader(entry.bundleName).readRange(entry.offset, entry.size);
+  }
+
+  get fileCount(): number {
+    return this.files.size;
+  }
+
+  private getDirectories(): Map<string, Map<string, string>> {
+    if (this.directories) return this.directories;
+
+    const directories = new Map<string, Map<string, string>>([['', new Map()]]);
+    for (const file of this.files.values()) {
+      const parts = file.path.replace(/\\/g, '/').split('/');
+      let parentKey = '';
+      for (let i = 0; i < parts.length; i++) {
+        const name = parts[i];
+        directories.get(parentKey)!.set(name.toLowerCase(), name);
+
+        if (i === parts.length - 1) break;
+        const dirKey = parentKey ? `${parentKey}/${name.toLowerCase()}` : name.toLowerCase();
+        if (!directories.has(dirKey)) {
+          directories.set(dirKey, new Map());
+        }
+        parentKey = dirKey;
+      }
+    }
+
+    this.directories = directories;
+    return directories;
+  }
+
+  exists(path: string): boolean {
+    const key = toKey(path);
+    return this.files.has(key) || this.getDirectories().has(key);
+  }
+
+  stat(path: string): VirtualFileStat | null {
+    const key = toKey(path);
+    const file = this.files.get(key);
+    if (file) {
+      return {
+        path: file.path,
+        isDirectory: false,
+        size: file.source === 'bundle' ? file.entry.size : file.record.dataLength,
+        source: file.source,
+      };
+    }
+    if (this.getDirectories().has(key)) {
+      return {
+        path: path.replace(/\\/g, '/').replace(/^\/+|\/+$/g, ''),
+        isDirectory: true,
+        size: 0,
+        source: 'directory',
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Read a whole file into memory
+   */
+  async readFile(path: string): Promise<Buffer> {
+    const file = this.files.get(toKey(path));
+    if (!file) {
+      throw new Error(`File not found: ${path}`);
+    }
+
+    if (file.source === 'bundle') {
+      return this.readBundled(file.entry);
+    }
+    if (!this.ggpk) {
+      throw new Error('GGPK is closed');
+    }
+    return this.ggpk.readFileData(file.record);
+  }
+
+  /**
+   * Write a file to disk. GGPK records are copied in chunks so large files don't
+   * have to fit in memory.
+   */
+  async extractTo(path: string, outputPath: string): Promise<void> {
+    const file = this.files.get(toKey(path));
+    if (!file) {
+      throw new Error(`File not found: ${path}`);
+    }
+
+    if (file.source === 'ggpk' && this.ggpk) {
+      this.ggpk.extractFile(file.record, outputPath);
+      return;
+    }
+
+    const data = await this.readFile(path);
+    mkdirSync(dirname(outputPath), { recursive: true });
+    writeFileSync(outputPath, data);
+  }
+
+  /**
+   * Extract many files into a directory, keeping their virtual paths. Bundled files are
+   * grouped by bundle so each bundle is opened once and read in offset order; GGPK records
+   * are streamed through async file handles. Up to `concurrency` files are written at once.
+   */
+  async extractMany(
+    paths: string[],
+    outputDir: string,
+    options: ExtractManyOptions = {}
+  ): Promise<ExtractManyResult> {
+    const { concurrency = 4, verify, onProgress } = options;
+    const result: ExtractManyResult = { extracted: 0, bytesExtracted: 0, failed: [] };
+    const total = paths.length;
+    const startTime = Date.now();
+    let lastProgressUpdate = 0;
+
+    const reportProgress = (path: string) => {
+      // Throttle progress updates to ~10 per second
+      const now = Date.now();
+      if (now - lastProgressUpdate > 100) {
+        const elapsed = now - startTime;
+        onProgress?.({
+          phase: 'extracting',
+          current: result.extracted + result.failed.length,
+          total,
+          currentFile: path.slice(0, 60),
+          bytesExtracted: result.bytesExtracted,
+          elapsed,
+          rate: `${(result.bytesExtracted / 1024 / 1024 / Math.max(elapsed / 1000, 0.001)).toFixed(1)} MB/s`,
+        });
+        lastProgressUpdate = now;
+      }
+    };
+
+    const byBundle = new Map<string, BundledFileEntry[]>();
+    const records: { path: string; record: FileRecord }[] = [];
+    for (const path of paths) {
+      const file = this.files.get(toKey(path));
+      if (!file) {
+        result.failed.push({ path, error: new Error(`File not found: ${path}`) });
+      } else if (file.source === 'bundle') {
+        const list = byBundle.get(file.entry.bundleName) ?? [];
+        list.push(file.entry);
+        byBundle.set(file.entry.bundleName, list);
+      } else {
+        records.push({ path: file.path, record: file.record });
+      }
+    }
+
+    for (const [bundleName, entries] of byBundle) {
+      entries.sort((a, b) => a.offset - b.offset);
+      let reader: BundleReader;
+      try {
+        reader = this.bundleReader(bundleName);
+      } catch (error) {
+        for (const entry of entries) {
+          result.failed.push({ path: entry.path, error });
+        }
+        continue;
+      }
+
+      // Workers take entries in order, so blocks are still decompressed once each
+      await forEachConcurrent(entries, concurrency, async (entry) => {
+        try {
+          const data = reader.readRange(entry.offset, entry.size);
+          const outputPath = join(outputDir, entry.path);
+          await mkdir(dirname(outputPath), { recursive: true });
+          await writeFile(outputPath, data);
+          result.bytesExtracted += data.length;
+          result.extracted++;
+        } catch (error) {
+          result.failed.push({ path: entry.path, error });
+        }
+        reportProgress(entry.path);
+      });
+    }
+
+    if (records.length > 0) {
+      if (!this.ggpk) {
+        throw new Error('GGPK is closed');
+      }
+      const asyncReader = await AsyncGGPKReader.open(this.ggpk.filePath);
+      try {
+        await forEachConcurrent(records, concurrency, async ({ path, record }) => {
+          try {
+            await asyncReader.extractFile(record, join(outputDir, path), { verify });
+            result.bytesExtracted += record.dataLength;
+            result.extracted++;
+          } catch (error) {
+            result.failed.push({ path, error });
+          }
+          reportProgress(path);
+        });
+      } finally {
+        await asyncReader.close();
+      }
+    }
+
+    onProgress?.({
+      phase: 'done',
+      current: result.extracted + result.failed.length,
+      total,
+      bytesExtracted: result.bytesExtracted,
+      elapsed: Date.now() - startTime,
+    });
+
+    return result;
+  }
+
+  /**
+   * List the names of the files and directories directly inside a directory
+   */
+  readdir(dir: string = ''): string[] {
+    const children = this.getDirectories().get(toKey(dir));
+    if (!children) {
+      throw new Error(`Directory not found: ${dir}`);
+    }
+    return Array.from(children.values()).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * List all file paths matching a glob (e.g. "data/*.datc64", "art/**\/*.dds") or regex.
+   * Without a pattern every file is returned.
+   */
+  walk(pattern?: string | RegExp): string[] {
+    const regex = typeof pattern === 'string' ? globToRegExp(pattern) : pattern;
+    const paths: string[] = [];
+    for (const file of this.files.values()) {
+      if (!regex || regex.test(file.path)) {
+        paths.push(file.path);
+      }
+    }
+    return paths;
+  }
+}
@@ -3,14 +3,17 @@
 // AMOLED Dark Theme
 
 import { serve } from 'bun';
-import { loadConfig } from '../config';
+import { loadConfig, getInstallPath } from '../config';
 import { 
   listBundledFiles, 
   getGGPKSummary,
   type ProgressInfo 
 } from '../ggpk/bundle-extractor';
 import { runExtractionPipeline, EXTRACTION_PRESETS, cleanupExtractedFiles } from '../extraction/extraction-pipeline';
+import { MANIFEST_FILE } from '../extraction/extraction-manifest';
 import { DATParser } from '../dat/dat-parser';
+import { DatDatabase } from '../dat/dat-database';
+import { VirtualFileSystem, readGameFile } from '../ggpk/virtual-filesystem';
 import { updateSchemaIfNeeded, getSchemaInfo } from '../utils/schema-updater';
 import { readdir, stat, readFile } from 'fs/promises';
 import { join, extname, basename, sep, dirname, relative } from 'path';
@@ -121,8 +124,8 @@ async function buildFileIndex(extractedDir: string = './extracted'): Promise<Fil
         if (entry.isDirectory()) {
           await scan(fullPath);
         } else {
-          // Skip .dds.header files
-          if (entry.name.endsWith('.dds.header')) continue;
+          // Skip .dds.header files and the extraction manifest
+          if (entry.name.endsWith('.dds.header') || entry.name === MANIFEST_FILE) continue;
           
           const relativePath = fullPath.replace(rootPath + '/', '');
           const folder = relativePath.includes('/') 
@@ -210,6 +213,28 @@ async function getSchema() {
   return schema;
 }
 
+// Game archive view (bundle index + GGPK records), opened on first use
+const GAME_PATH_PREFIX = 'game:';
+let gameVFS: Promise<VirtualFileSystem> | null = null;
+
+function getGameVFS(installPath: string, cacheDir: string): Promise<VirtualFileSystem> {
+  if (!gameVFS) {
+    gameVFS = VirtualFileSystem.open(installPath, { cacheDir });
+    gameVFS.catch(() => { gameVFS = null; });
+  }
+  return gameVFS;
+}
+
+// Install detection runs on every API request, so each distinct failure is logged once
+let lastInstallError: string | null = null;
+
+function logInstallError(e: unknown, fallbackPath: string): void {
+  const message = e instanceof Error ? e.message : String(e);
+  if (message === lastInstallError) return;
+  lastInstallError = message;
+  console.error(`Install detection failed, using ${fallbackPath}:`, message);
+}
+
 // Store active operations
 const activeOperations = new Map<string, {
   type: string;
@@ -260,7 +285,13 @@ async function handleAPI(req: Request, url: URL): Promise<Response> {
 
   try {
     const config = await loadConfig();
-    const ggpkPath = config.poe2Path + '/Content.ggpk';
+    // Fall back to the default location so endpoints that don't touch the GGPK still work
+    let ggpkPath = config.poe2Path + '/Content.ggpk';
+    try {
+      ggpkPath = getInstallPath(config);
+    } catch (e) {
+      logInstallError(e, ggpkPath);
+    }
 
     // Status
     if (path === 'status') {
@@ -307,6 +338,47 @@ async function handleAPI(req: Request, url: URL): Promise<Response> {
       const perPage = parseInt(url.searchParams.get('perPage') || '100');
       const type = url.searchParams.get('type') || ''; // Filter by type
 
+      // Browse the game's logical file tree instead of ./extracted
+      if (url.searchParams.get('source') === 'game') {
+        const vfs = await getGameVFS(ggpkPath, config.cacheDir);
+        if (folder && !vfs.stat(folder)?.isDirectory) {
+          return json({ error: 'Folder not found' }, 404);
+        }
+
+        const subfolders: string[] = [];
+        let directFiles: FileEntry[] = [];
+        for (const name of vfs.readdir(folder)) {
+          const childPath = folder ? `${folder}/${name}` : name;
+          const info = vfs.stat(childPath)!;
+          if (info.isDirectory) {
+            subfolders.push(childPath);
+          } else {
+            directFiles.push({
+              name,
+              path: GAME_PATH_PREFIX + info.path,
+              type: getFileType(name),
+              size: info.size,
+              folder
+            });
+          }
+        }
+        if (type) {
+          directFiles = directFiles.filter(f => f.type === type);
+        }
+
+        const total = directFiles.length;
+        const start = (page - 1) * perPage;
+        return json({
+          folder,
+          files: directFiles.slice(start, start + perPage),
+          subfolders,
+          total,
+          page,
+          perPage,
+          hasMore: start + perPage < total
+        });
+      }
+
       const index = await getFileIndex();
       
       // Filter files
@@ -395,14 +467,34 @@ async function handleAPI(req: Request, url: URL): Promise<Response> {
       const filePath = url.searchParams.get('path');
       if (!filePath) return json({ error: 'Missing path' }, 400);
 
-      const normalizedPath = filePath.replace(/\//g, sep);
-      const ext = extname(normalizedPath).toLowerCase();
-      const file = Bun.file(normalizedPath);
-      
-      if (!await file.exists()) {
-        return json({ error: 'File not found' }, 404);
+      // Files from the game archive are read into memory; everything else comes from disk
+      const isGameFile = filePath.startsWith(GAME_PATH_PREFIX);
+      let normalizedPath = filePath.replace(/\//g, sep);
+      let file: Blob;
+
+      if (isGameFile) {
+        const virtualPath = filePath.slice(GAME_PATH_PREFIX.length);
+        const data = await readGameFile(ggpkPath, virtualPath);
+        if (!data) {
+          return json({ error: 'File not found' }, 404);
+        }
+        file = new Blob([data]);
+        normalizedPath = virtualPath;
+
+        // texconv needs a file on disk
+        if (extname(virtualPath).toLowerCase() === '.dds') {
+          normalizedPath = join('./temp/preview', basename(virtualPath));
+          await Bun.write(normalizedPath, data);
+        }
+      } else {
+        file = Bun.file(normalizedPath);
+        if (!await (file as ReturnType<typeof Bun.file>).exists()) {
+          return json({ error: 'File not found' }, 404);
+        }
       }
 
+      const ext = extname(normalizedPath).toLowerCase();
+
       // JSON
       if (ext === '.json') {
         return new Response(file, {
@@ -448,10 +540,26 @@ async function handleAPI(req: Request, url: URL): Promise<Response> {
             const buffer = Buffer.from(await file.arrayBuffer());
             const parsed = parser.parse(buffer, tableName);
             
+            // Show what foreign keys point at for the rows the preview displays
+            const fromArchive = async (name: string) => {
+              try {
+                return await readGameFile(ggpkPath, `data/${name.toLowerCase()}.datc64`);
+              } catch {
+                return null;
+              }
+            };
+            const db = isGameFile
+              ? new DatDatabase(parser, fromArchive)
+              : DatDatabase.fromDirectory(parser, dirname(normalizedPath), fromArchive);
+            const display = await Promise.all(
+              (parsed?.rows || []).slice(0, 50).map(row => db.resolveRow(tableName, row, { display: true }))
+            );
+            
             return json({
               tableName,
               rowCount: parsed?.rows?.length || 0,
               rows: parsed?.rows || [],
+              display,
               raw: false
             });
           }
@@ -479,15 +587,25 @@ async function handleAPI(req: Request, url: URL): Promise<Response> {
     // Export DAT to JSON file
     if (path === 'export-json' && req.method === 'POST') {
       const { datPath } = await req.json() as { datPath: string };
-      const normalizedPath = datPath.replace(/\//g, sep);
+      let normalizedPath = datPath.replace(/\//g, sep);
       
       const sch = await getSchema();
       if (!sch) return json({ error: 'Schema not loaded' }, 500);
       
+      // Game archive files are exported into ./extracted at their virtual path
+      let buffer: Buffer;
+      if (datPath.startsWith(GAME_PATH_PREFIX)) {
+        const virtualPath = datPath.slice(GAME_PATH_PREFIX.length);
+        const data = await readGameFile(ggpkPath, virtualPath);
+        if (!data) return json({ error: 'File not found' }, 404);
+        buffer = data;
+        normalizedPath = join('./extracted', virtualPath);
+      } else {
+        buffer = Buffer.from(await Bun.file(normalizedPath).arrayBuffer());
+      }
+      
       const parser = new DATParser(sch, true);
       const tableName = basename(normalizedPath).replace(/\.datc?64$/i, '').toLowerCase();
-      const file = Bun.file(normalizedPath);
-      const buffer = Buffer.from(await file.arrayBuffer());
       const parsed = parser.parse(buffer, tableName);
       
       const jsonPath = normalizedPath.replace(/\.datc?64$/i, '.json');
@@ -1282,6 +1400,7 @@ function getHTML(): string {
         <div class="sidebar-header">
           <button class="btn btn-ghost btn-sm" onclick="navigateUp()" title="Go up"><svg class="icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M18 15l-6-6-6 6"/></svg></button>
           <button class="btn btn-ghost btn-sm" onclick="navigateHome()" title="Home"><svg class="icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M3 9l9-7 9 7v11a2 2 0 01-2 2H5a2 2 0 01-2-2z"/></svg></button>
+          <button class="btn btn-ghost btn-sm" id="sourceToggle" onclick="toggleSource()" title="Switch between extracted files and the game archive">Extracted</button>
         </div>
         <div id="folderTree" class="folder-tree"></div>
       </div>
@@ -1360,6 +1479,7 @@ function getHTML(): string {
   <script>
     let currentFolder = '';
     let selectedFile = null;
+    let browseSource = 'extracted'; // 'extracted' or 'game'
     let searchTimeout = null;
     let extracting = false;
     
@@ -1393,7 +1513,7 @@ function getHTML(): string {
       document.getElementById('fileList').innerHTML = '<div class="loading"><div class="spinner"></div>Loading...</div>';
       
       try {
-        const res = await fetch(\`/api/browse?folder=\${encodeURIComponent(folder)}&perPage=2000\`);
+        const res = await fetch(\`/api/browse?folder=\${encodeURIComponent(folder)}&perPage=2000&source=\${browseSource}\`);
         const data = await res.json();
         
         renderBreadcrumb(folder);
@@ -1409,7 +1529,7 @@ function getHTML(): string {
     // Render breadcrumb navigation
     function renderBreadcrumb(folder) {
       const el = document.getElementById('breadcrumb');
-      let html = '<span onclick="loadFolder(\\'\\')"><svg class="breadcrumb-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M3 9l9-7 9 7v11a2 2 0 01-2 2H5a2 2 0 01-2-2z"/></svg>extracted</span>';
+      let html = '<span onclick="loadFolder(\\'\\')"><svg class="breadcrumb-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M3 9l9-7 9 7v11a2 2 0 01-2 2H5a2 2 0 01-2-2z"/></svg>' + browseSource + '</span>';
       
       if (folder) {
         const parts = folder.split('/');
@@ -1566,15 +1686,19 @@ function getHTML(): string {
               }
               html += '</tr></thead><tbody>';
               
-              for (const row of data.rows.slice(0, 50)) {
+              data.rows.slice(0, 50).forEach((row, i) => {
                 html += '<tr>';
                 for (const col of cols.slice(0, 10)) {
                   const key = col.name || col;
                   const val = row[key];
-                  html += \`<td>\${formatValue(val)}</td>\`;
+                  // Foreign keys the server could resolve show what they point at
+                  const shown = data.display?.[i]?.[key];
+                  html += shown !== undefined && JSON.stringify(shown) !== JSON.stringify(val)
+                    ? \`<td>\${formatValue(val)} → \${formatValue(JSON.stringify(shown))}</td>\`
+                    : \`<td>\${formatValue(val)}</td>\`;
                 }
                 html += '</tr>';
-              }
+              });
               
               html += '</tbody></table></div>';
               if (data.rows.length > 50) {
@@ -1720,6 +1844,13 @@ function getHTML(): string {
       loadFolder('');
     }
     
+    // Switch between browsing ./extracted and the game's own file tree
+    function toggleSource() {
+      browseSource = browseSource === 'game' ? 'extracted' : 'game';
+      document.getElementById('sourceToggle').textContent = browseSource === 'game' ? 'Game' : 'Extracted';
+      loadFolder('');
+    }
+    
     // Rebuild index
     async function rebuildIndex() {
       toast('Rebuilding index...', '');
@@ -2,12 +2,20 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { loadConfig } from './config';
+import { loadConfig, getInstallPath } from './config';
 import { extractFiles, listFiles } from './tasks/extract';
 import { extractTree } from './tasks/extract-tree';
 import { extractAll, extractCategory } from './tasks/extract-all';
 import { parseDat, parseAllDat } from './tasks/parse-dat';
 import { convertDDS } from './tasks/convert-dds';
+import { verifyGGPK } from './tasks/verify';
+import { showGGPKStats } from './tasks/ggpk-stats';
+import { replaceGGPKFile } from './tasks/ggpk-replace';
+import { runPatchDiff, saveSnapshot, type DiffFormat } from './tasks/patch-diff';
+import { diffDatFiles, type DatDiffFormat } from './tasks/dat-diff';
+import { validateDatFiles } from './tasks/dat-validate';
+import { exportSqlite } from './tasks/export-sqlite';
+import { DEFAULT_ARRAY_SEPARATOR, OUTPUT_FORMATS, type OutputFormat } from './dat/row-formatter';
 import { logger } from './utils/logger';
 import { 
   listBundledFiles, 
@@ -152,12 +160,110 @@ program
     }
   });
 
+// Verify file hashes
+program
+  .command('verify')
+  .description('Check GGPK file data against the SHA-256 hashes in their records')
+  .option('-p, --pattern <pattern>', 'Only verify files matching pattern')
+  .action(async (options) => {
+    try {
+      const config = await loadConfig();
+      const result = await verifyGGPK(config, { pattern: options.pattern });
+      if (result.mismatches.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error('Verification failed:', error);
+      process.exit(1);
+    }
+  });
+
+// Free space and fragmentation report
+program
+  .command('ggpk-stats')
+  .description('Report free space, wasted space and record counts in Content.ggpk')
+  .option('--json', 'Output the report as JSON')
+  .option('-t, --top <number>', 'Number of largest free regions to list', '10')
+  .action(async (options) => {
+    try {
+      const config = await loadConfig();
+      await showGGPKStats(config, { json: options.json, top: parseInt(options.top) });
+    } catch (error) {
+      logger.error('Failed to read GGPK:', error);
+      process.exit(1);
+    }
+  });
+
+// Replace a file inside the GGPK
+program
+  .command('ggpk-replace <ggpkPath> <virtualPath> <localFile>')
+  .description('Replace the contents of a file inside a GGPK (journaled, rolled back on failure)')
+  .action(async (ggpkPath, virtualPath, localFile) => {
+    try {
+      await replaceGGPKFile(ggpkPath, virtualPath, localFile);
+    } catch (error) {
+      logger.error('Replace failed:', error);
+      process.exit(1);
+    }
+  });
+
+// Save the current file index for later diffs
+program
+  .command('snapshot')
+  .description('Save the file index (paths, sizes, GGPK hashes) of an install for later diffs')
+  .option('-s, --source <path>', 'Game directory or Content.ggpk (default: poe2Path from config)')
+  .option('-o, --output <file>', 'Snapshot file', './snapshot.json')
+  .option('--hash', 'Also hash bundled files (slow: decompresses every bundle)')
+  .action(async (options) => {
+    try {
+      const config = await loadConfig();
+      await saveSnapshot(options.source || getInstallPath(config), options.output, {
+        cacheDir: config.cacheDir,
+        hash: options.hash,
+      });
+    } catch (error) {
+      logger.error('Snapshot failed:', error);
+      process.exit(1);
+    }
+  });
+
+// Compare two game versions
+program
+  .command('diff <old> <new>')
+  .description('List files added, removed or changed between two installs or snapshot .json files')
+  .option('-f, --format <format>', 'Output format: text, json, markdown', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .option('-p, --pattern <regex>', 'Only compare paths matching pattern')
+  .option('--hash', 'Hash bundled files of installs given directly (slow)')
+  .action(async (oldSource, newSource, options) => {
+    try {
+      if (!['text', 'json', 'markdown'].includes(options.format)) {
+        logger.error(`Unknown format: ${options.format}. Use text, json or markdown`);
+        process.exit(1);
+      }
+      const config = await loadConfig();
+      await runPatchDiff(oldSource, newSource, {
+        format: options.format as DiffFormat,
+        output: options.output,
+        pattern: options.pattern,
+        cacheDir: config.cacheDir,
+        hash: options.hash,
+      });
+    } catch (error) {
+      logger.error('Diff failed:', error);
+      process.exit(1);
+    }
+  });
+
 // Parse .dat file
 program
   .command('parse-dat')
   .description('Parse a .datc64 file and export as JSON')
-  .option('-f, --file <file>', 'Dat file path (extracted .datc64 file)')
+  .option('-f, --file <file>', 'Dat file path (extracted .datc64 file, or a path inside the game archive)')
   .option('-o, --output <file>', 'Output JSON file')
+  .option('--resolve-depth <n>', 'Replace foreign keys with the referenced rows, N levels deep', '0')
+  .option('--resolve-display [columns]', 'Replace foreign keys with a display value of the referenced row (comma-separated columns to try, default: Name, Id, Text)')
+  .option('--enum-values', 'Keep numeric enumrow values alongside enumerator names')
   .action(async (options) => {
     try {
       if (!options.file) {
@@ -167,7 +273,13 @@ program
       
       const config = await loadConfig();
       const outputPath = options.output || options.file.replace('.datc64', '.json');
-      await parseDat(options.file, outputPath, config);
+      await parseDat(options.file, outputPath, config, {
+        resolveDepth: parseInt(options.resolveDepth),
+        resolveDisplay: typeof options.resolveDisplay === 'string'
+          ? options.resolveDisplay.split(',').map((column: string) => column.trim())
+          : options.resolveDisplay,
+        keepEnumValues: options.enumValues,
+      });
       logger.success('Parsing complete!');
     } catch (error) {
       logger.error('Parsing failed:', error);
@@ -178,7 +290,7 @@ program
 // Parse all .dat files
 program
   .command('parse-all-dat')
-  .description('Parse all .datc64 files and export as JSON')
+  .description('Parse all .datc64 files and export as JSON, NDJSON, CSV, TSV or Parquet')
   .option('-i, --input <dir>', 'Input directory with .datc64 files')
   .option('-o, --output <dir>', 'Output directory for JSON files')
   .option('--filter <string>', 'Filter tables by name')
@@ -186,8 +298,15 @@ program
   .option('--limit <number>', 'Limit number of files to parse')
   .option('--sequential', 'Use single-threaded parsing (default: parallel)')
   .option('--no-cache', 'Force re-parse even if output exists and is newer')
+  .option('--enum-values', 'Keep numeric enumrow values alongside enumerator names')
+  .option('-f, --format <format>', 'Output format: json, ndjson, csv, tsv, parquet', 'json')
+  .option('--array-separator <string>', 'Separator for array values in CSV/TSV cells', DEFAULT_ARRAY_SEPARATOR)
   .action(async (options) => {
     try {
+      if (!OUTPUT_FORMATS.includes(options.format)) {
+        logger.error(`Unknown format: ${options.format}. Use ${OUTPUT_FORMATS.join(', ')}`);
+        process.exit(1);
+      }
       const config = await loadConfig();
       const inputDir = options.input || './extracted/data';
       const outputDir = options.output || './parsed';
@@ -196,7 +315,10 @@ program
         pretty: options.pretty,
         limit: options.limit ? parseInt(options.limit) : undefined,
         parallel: !options.sequential,
-        noCache: !options.cache
+        noCache: !options.cache,
+        keepEnumValues: options.enumValues,
+        format: options.format as OutputFormat,
+        arraySeparator: options.arraySeparator
       });
       logger.success('Parsing complete!');
     } catch (error) {
@@ -205,10 +327,80 @@ program
     }
   });
 
+// Compare two versions of a DAT table
+program
+  .command('dat-diff <old> <new>')
+  .description('Report rows added, removed and modified between two versions of a .datc64 table')
+  .option('-k, --key <column>', 'Column to match rows by (default: a unique column from the schema)')
+  .option('-t, --table <name>', 'Table name, if it differs from the file name')
+  .option('-f, --format <format>', 'Output format: console, json (JSON patch), html', 'console')
+  .option('-o, --output <file>', 'Write the report to a file (json and html only)')
+  .action(async (oldPath, newPath, options) => {
+    try {
+      if (!['console', 'json', 'html'].includes(options.format)) {
+        logger.error(`Unknown format: ${options.format}. Use console, json or html`);
+        process.exit(1);
+      }
+      const config = await loadConfig();
+      await diffDatFiles(oldPath, newPath, config, {
+        key: options.key,
+        table: options.table,
+        format: options.format as DatDiffFormat,
+        output: options.output,
+      });
+    } catch (error) {
+      logger.error('DAT diff failed:', error);
+      process.exit(1);
+    }
+  });
+
+// Export DAT tables to SQLite
+program
+  .command('export-sqlite')
+  .description('Export all .datc64 tables into a SQLite database')
+  .option('-i, --input <dir>', 'Input directory with .datc64 files')
+  .option('-o, --output <file>', 'SQLite database file', './poe2.sqlite')
+  .option('--filter <string>', 'Filter tables by name')
+  .option('--join-tables', 'Store array columns in join tables instead of JSON')
+  .action(async (options) => {
+    try {
+      const config = await loadConfig();
+      await exportSqlite(options.input || './extracted/data', options.output, config, {
+        filter: options.filter,
+        joinTables: options.joinTables,
+      });
+    } catch (error) {
+      logger.error('SQLite export failed:', error);
+      process.exit(1);
+    }
+  });
+
+// Check DAT tables against the schema
+program
+  .command('dat-validate')
+  .description('Report tables whose row size differs from the schema, with guesses for missing columns')
+  .option('-i, --input <dir>', 'Input directory with .datc64 files')
+  .option('--filter <string>', 'Filter tables by name')
+  .option('--all', 'Also list tables that match the schema')
+  .option('--json', 'Print results as JSON')
+  .action(async (options) => {
+    try {
+      const config = await loadConfig();
+      await validateDatFiles(options.input || './extracted/data', config, {
+        filter: options.filter,
+        all: options.all,
+        json: options.json,
+      });
+    } catch (error) {
+      logger.error('Validation failed:', error);
+      process.exit(1);
+    }
+  });
+
 // List available DAT tables
 program
   .command('list-tables')
-  .description('List all available DAT tables with schemas')
+  .description('List all available DAT tables and enumerations with schemas')
   .action(async () => {
     try {
       const config = await loadConfig();
@@ -291,7 +483,7 @@ program
       const config = await loadConfig();
       logger.section('Listing Bundled GGPK Contents');
       
-      const ggpkPath = config.poe2Path + '/Content.ggpk';
+      const ggpkPath = getInstallPath(config);
       logger.info(`Reading: ${ggpkPath}`);
       
       const result = await listBundledFiles(ggpkPath);
@@ -335,7 +527,7 @@ program
       const config = await loadConfig();
       logger.section('Extracting from Bundled GGPK');
       
-      const ggpkPath = config.poe2Path + '/Content.ggpk';
+      const ggpkPath = getInstallPath(config);
       logger.info(`Reading: ${ggpkPath}`);
       logger.info(`Output: ${options.output}`);
       console.log(); // Space for progress bar
@@ -377,7 +569,7 @@ program
   .action(async (category, options) => {
     try {
       const config = await loadConfig();
-      const ggpkPath = config.poe2Path + '/Content.ggpk';
+      const ggpkPath = getInstallPath(config);
       
       const categories: Record<string, string> = {
         'data': '.*\\.datc?64$',
@@ -425,7 +617,7 @@ program
   .action(async () => {
     try {
       const config = await loadConfig();
-      const ggpkPath = config.poe2Path + '/Content.ggpk';
+      const ggpkPath = getInstallPath(config);
       
       logger.section('GGPK Summary');
       logger.info(`Reading: ${ggpkPath}`);
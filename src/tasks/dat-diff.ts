@@ -0,0 +1,211 @@
+// Compare two versions of a .datc64 table row by row
+import chalk from 'chalk';
+import { existsSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { DATParser } from '../dat/dat-parser';
+import { diffRows, pickKeyColumn, toJsonPatch, ROW_ID_COLUMN, type DatDiff } from '../dat/dat-diff';
+import { Config } from '../config';
+import { logger } from '../utils/logger';
+
+const DEFAULT_SCHEMA_PATH = join(process.cwd(), 'schema.min.json');
+
+export type DatDiffFormat = 'console' | 'json' | 'html';
+
+export interface DatDiffOptions {
+  /** Column to match rows by (default: picked from the schema's unique columns) */
+  key?: string;
+  /** Table name when it can't be taken from the file name */
+  table?: string;
+  format?: DatDiffFormat;
+  output?: string;
+}
+
+function formatValue(value: unknown, maxLength = 60): string {
+  const text = typeof value === 'string' ? JSON.stringify(value) : JSON.stringify(value ?? null);
+  return text.length > maxLength ? text.slice(0, maxLength - 3) + '...' : text;
+}
+
+function printDiff(diff: DatDiff): void {
+  console.log(chalk.cyan(`\nTable: ${diff.table} (key: ${diff.keyColumn})`));
+  console.log(
+    chalk.cyan(
+      `Added: ${diff.added.length}, removed: ${diff.removed.length}, modified: ${diff.modified.length}, unchanged: ${diff.unchanged}`
+    )
+  );
+
+  if (diff.added.length > 0) {
+    console.log(chalk.green(`\nAdded (${diff.added.length}):`));
+    for (const { key } of diff.added) {
+      console.log(chalk.green(`  + ${key}`));
+    }
+  }
+
+  if (diff.removed.length > 0) {
+    console.log(chalk.red(`\nRemoved (${diff.removed.length}):`));
+    for (const { key } of diff.removed) {
+      console.log(chalk.red(`  - ${key}`));
+    }
+  }
+
+  if (diff.modified.length > 0) {
+    console.log(chalk.yellow(`\nModified (${diff.modified.length}):`));
+    for (const row of diff.modified) {
+      console.log(chalk.yellow(`  ~ ${row.key}`));
+      const width = Math.max(...row.changes.map(change => change.column.length));
+      for (const change of row.changes) {
+        console.log(
+          chalk.gray(`      ${change.column.padEnd(width)}  `) +
+            chalk.red(formatValue(change.before)) +
+            chalk.gray(' → ') +
+            chalk.green(formatValue(change.after))
+        );
+      }
+    }
+  }
+  console.log();
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function renderDiffHtml(diff: DatDiff): string {
+  const cell = (value: unknown) => `<td><code>${escapeHtml(formatValue(value, 200))}</code></td>`;
+
+  const rowTable = (rows: { key: string; row: any }[]) => {
+    const columns = Object.keys(rows[0].row).filter(column => column !== ROW_ID_COLUMN);
+    const header = ['Key', ...columns].map(column => `<th>${escapeHtml(column)}</th>`).join('');
+    const body = rows
+      .map(
+        ({ key, row }) =>
+          `<tr><th>${escapeHtml(key)}</th>${columns.map(c => cell(row[c])).join('')}</tr>`
+      )
+      .join('\n');
+    return `<table>\n<tr>${header}</tr>\n${body}\n</table>`;
+  };
+
+  const sections: string[] = [];
+  if (diff.added.length > 0) {
+    sections.push(`<h2 class="added">Added (${diff.added.length})</h2>\n${rowTable(diff.added)}`);
+  }
+  if (diff.removed.length > 0) {
+    sections.push(
+      `<h2 class="removed">Removed (${diff.removed.length})</h2>\n${rowTable(diff.removed)}`
+    );
+  }
+  if (diff.modified.length > 0) {
+    const body = diff.modified
+      .flatMap(row =>
+        row.changes.map(
+          (change, i) =>
+            `<tr>${i === 0 ? `<th rowspan="${row.changes.length}">${escapeHtml(row.key)}</th>` : ''}` +
+            `<td>${escapeHtml(change.column)}</td>` +
+            `<td class="before"><code>${escapeHtml(formatValue(change.before, 200))}</code></td>` +
+            `<td class="after"><code>${escapeHtml(formatValue(change.after, 200))}</code></td></tr>`
+        )
+      )
+      .join('\n');
+    sections.push(
+      `<h2 class="modified">Modified (${diff.modified.length})</h2>\n` +
+        `<table>\n<tr><th>Key</th><th>Column</th><th>Before</th><th>After</th></tr>\n${body}\n</table>`
+    );
+  }
+
+  const title = `${escapeHtml(diff.table)} diff`;
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { font-family: sans-serif; margin: 2em; }
+  table { border-collapse: collapse; margin-bottom: 2em; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+  .added { color: #2a7a2a; }
+  .removed { color: #b02a2a; }
+  .modified { color: #a06a00; }
+  td.before { background: #fdecec; }
+  td.after { background: #eaf7ea; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p>Key column: <code>${escapeHtml(diff.keyColumn)}</code>.
+Added: ${diff.added.length}, removed: ${diff.removed.length}, modified: ${diff.modified.length}, unchanged: ${diff.unchanged}</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+export async function diffDatFiles(
+  oldPath: string,
+  newPath: string,
+  config: Config,
+  options: DatDiffOptions = {}
+): Promise<DatDiff> {
+  const format = options.format ?? 'console';
+  const schemaPath = config.schemaPath || DEFAULT_SCHEMA_PATH;
+
+  if (!existsSync(schemaPath)) {
+    throw new Error(
+      `Schema file not found: ${schemaPath}. Run: bun run src/index.ts update-schema`
+    );
+  }
+  for (const file of [oldPath, newPath]) {
+    if (!existsSync(file)) {
+      throw new Error(`File not found: ${file}`);
+    }
+  }
+
+  const parser = new DATParser(await DATParser.loadSchema(schemaPath), true);
+  const parse = async (file: string) => {
+    const buffer = Buffer.from(await Bun.file(file).arrayBuffer());
+    const result = options.table
+      ? { ...parser.parse(buffer, options.table), tableName: options.table }
+      : parser.parseNamed(buffer, file);
+    if (result.error) {
+      throw new Error(`${file}: ${result.error}`);
+    }
+    return result;
+  };
+
+  const oldTable = await parse(oldPath);
+  const newTable = await parse(newPath);
+  const table = parser.getTableSchema(oldTable.tableName)!;
+
+  const keyColumn = options.key ?? pickKeyColumn(table);
+  const columns = table.columns.map((col, i) => col.name ?? `_unknown${i}`);
+  if (keyColumn !== ROW_ID_COLUMN && !columns.includes(keyColumn)) {
+    throw new Error(`Unknown key column ${keyColumn} for ${table.name}`);
+  }
+
+  const diff = diffRows(table.name, oldTable.rows, newTable.rows, keyColumn);
+
+  let report: string | null = null;
+  if (format === 'json') {
+    report = JSON.stringify(toJsonPatch(diff), null, 2) + '\n';
+  } else if (format === 'html') {
+    report = renderDiffHtml(diff);
+  } else if (options.output) {
+    throw new Error('Console output cannot be written to a file; use --format json or html');
+  } else {
+    printDiff(diff);
+  }
+
+  if (report !== null) {
+    if (options.output) {
+      await writeFile(options.output, report);
+      logger.success(`Wrote ${format} diff to ${options.output}`);
+    } else {
+      process.stdout.write(report);
+    }
+  }
+
+  return diff;
+}
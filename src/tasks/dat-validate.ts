@@ -0,0 +1,153 @@
+// Check every .datc64 table against the schema's row sizes
+import chalk from 'chalk';
+import { existsSync } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { DATParser } from '../dat/dat-parser';
+import { validateTable, type TableValidation } from '../dat/dat-validator';
+import { Config } from '../config';
+import { logger } from '../utils/logger';
+
+const DEFAULT_SCHEMA_PATH = join(process.cwd(), 'schema.min.json');
+
+export interface DatValidateOptions {
+  /** Only tables whose file name contains this (case-insensitive) */
+  filter?: string;
+  /** Also report tables that match the schema */
+  all?: boolean;
+  /** Print the results as JSON instead of a report */
+  json?: boolean;
+}
+
+export interface DatValidateResult {
+  tables: TableValidation[];
+  ok: number;
+  mismatched: number;
+  empty: number;
+  failed: number;
+  /** Files with no table in the schema */
+  noSchema: number;
+}
+
+function formatDelta(delta: number): string {
+  return `${delta > 0 ? '+' : ''}${delta} bytes`;
+}
+
+function printTable(validation: TableValidation): void {
+  const { table, status } = validation;
+
+  if (status === 'error') {
+    console.log(chalk.red(`✗ ${table}: ${validation.error}`));
+    return;
+  }
+  if (status === 'empty') {
+    console.log(chalk.gray(`- ${table}: no rows (schema ${validation.schemaRowSize} bytes)`));
+    return;
+  }
+  if (status === 'ok') {
+    console.log(chalk.green(`✓ ${table}: ${validation.actualRowSize} bytes`));
+    return;
+  }
+
+  console.log(
+    chalk.yellow(`~ ${table}: `) +
+      `schema ${validation.schemaRowSize}, actual ${validation.actualRowSize} ` +
+      chalk.yellow(`(${formatDelta(validation.delta)})`) +
+      chalk.gray(`, ${validation.rowCount.toLocaleString()} rows`)
+  );
+  if (validation.unreadBytes) {
+    const { offset, size } = validation.unreadBytes;
+    console.log(chalk.gray(`    unread: bytes ${offset}-${offset + size - 1}`));
+    console.log(chalk.cyan(`    likely ${validation.guessSummary}`));
+  }
+  for (const col of validation.overflowingColumns) {
+    console.log(
+      chalk.gray(
+        `    overflowing: ${col.name} (${col.type}, bytes ${col.offset}-${col.offset + col.size - 1})`
+      )
+    );
+  }
+}
+
+export async function validateDatFiles(
+  inputDir: string,
+  config: Config,
+  options: DatValidateOptions = {}
+): Promise<DatValidateResult> {
+  const schemaPath = config.schemaPath || DEFAULT_SCHEMA_PATH;
+
+  if (!existsSync(schemaPath)) {
+    throw new Error(
+      `Schema file not found: ${schemaPath}. Run: bun run src/index.ts update-schema`
+    );
+  }
+  if (!existsSync(inputDir)) {
+    throw new Error(`Input directory not found: ${inputDir}`);
+  }
+
+  const parser = new DATParser(await DATParser.loadSchema(schemaPath), true);
+
+  let files = (await readdir(inputDir)).filter(file => file.endsWith('.datc64')).sort();
+  if (options.filter) {
+    const filter = options.filter.toLowerCase();
+    files = files.filter(file => file.toLowerCase().includes(filter));
+  }
+
+  const result: DatValidateResult = {
+    tables: [],
+    ok: 0,
+    mismatched: 0,
+    empty: 0,
+    failed: 0,
+    noSchema: 0,
+  };
+
+  for (const file of files) {
+    const tableName = basename(file, '.datc64').replace(/^[^a-zA-Z]*/, '');
+    if (!parser.getTableSchema(tableName)) {
+      result.noSchema++;
+      continue;
+    }
+
+    const validation = validateTable(parser, await readFile(join(inputDir, file)), tableName);
+    if (validation.status === 'ok') result.ok++;
+    else if (validation.status === 'mismatch') result.mismatched++;
+    else if (validation.status === 'empty') result.empty++;
+    else result.failed++;
+
+    if (options.all || validation.status === 'mismatch' || validation.status === 'error') {
+      result.tables.push(validation);
+    }
+  }
+
+  if (options.json) {
+    process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+    return result;
+  }
+
+  logger.section('Validating DAT Tables');
+  logger.info(`Input Dir: ${inputDir}`);
+  logger.info(`Schema: ${schemaPath}`);
+  console.log();
+
+  for (const validation of result.tables) {
+    printTable(validation);
+  }
+
+  logger.section('Summary');
+  logger.success(`Matching: ${result.ok}`);
+  if (result.mismatched > 0) {
+    logger.warn(`Size mismatch: ${result.mismatched}`);
+  }
+  if (result.empty > 0) {
+    logger.info(`Empty: ${result.empty}`);
+  }
+  if (result.failed > 0) {
+    logger.error(`Failed: ${result.failed}`);
+  }
+  if (result.noSchema > 0) {
+    logger.info(`No schema: ${result.noSchema}`);
+  }
+
+  return result;
+}
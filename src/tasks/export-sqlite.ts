@@ -0,0 +1,142 @@
+// Export .datc64 tables into one SQLite database
+import { Database } from 'bun:sqlite';
+import { existsSync, rmSync } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { DATParser } from '../dat/dat-parser';
+import { exportTable } from '../dat/sqlite-exporter';
+import { Config } from '../config';
+import { logger } from '../utils/logger';
+
+const DEFAULT_SCHEMA_PATH = join(process.cwd(), 'schema.min.json');
+
+export interface ExportSqliteOptions {
+  /** Only tables whose file name contains this (case-insensitive) */
+  filter?: string;
+  /** Store arrays in join tables instead of JSON text */
+  joinTables?: boolean;
+}
+
+export interface ExportSqliteResult {
+  tables: number;
+  rows: number;
+  failed: number;
+  /** Files with no table in the schema */
+  noSchema: number;
+}
+
+function tableKey(file: string): string {
+  return basename(file, '.datc64')
+    .replace(/^[^a-zA-Z]*/, '')
+    .toLowerCase();
+}
+
+/**
+ * Tables that other tables reference by a column rather than by row index
+ */
+function referencedByColumn(parser: DATParser): Set<string> {
+  const parents = new Set<string>();
+  for (const name of parser.listTables()) {
+    for (const col of parser.getTableSchema(name)!.columns) {
+      if (col.type === 'foreignrow' && col.references?.column) {
+        parents.add(col.references.table.toLowerCase());
+      }
+    }
+  }
+  return parents;
+}
+
+export async function exportSqlite(
+  inputDir: string,
+  outputPath: string,
+  config: Config,
+  options: ExportSqliteOptions = {}
+): Promise<ExportSqliteResult> {
+  logger.section('Exporting DAT Tables to SQLite');
+
+  const schemaPath = config.schemaPath || DEFAULT_SCHEMA_PATH;
+  if (!existsSync(schemaPath)) {
+    throw new Error(
+      `Schema file not found: ${schemaPath}. Run: bun run src/index.ts update-schema`
+    );
+  }
+  if (!existsSync(inputDir)) {
+    throw new Error(`Input directory not found: ${inputDir}`);
+  }
+
+  logger.info(`Input Dir: ${inputDir}`);
+  logger.info(`Output: ${outputPath}`);
+  logger.info(`Schema: ${schemaPath}`);
+
+  const parser = new DATParser(await DATParser.loadSchema(schemaPath), true);
+
+  let files = (await readdir(inputDir)).filter(file => file.endsWith('.datc64')).sort();
+  if (options.filter) {
+    const filter = options.filter.toLowerCase();
+    files = files.filter(file => file.toLowerCase().includes(filter));
+  }
+  // A foreign key to a column other than _rid needs the parent's unique index to exist
+  const parents = referencedByColumn(parser);
+  files.sort((a, b) => Number(!parents.has(tableKey(a))) - Number(!parents.has(tableKey(b))));
+
+  // Always start from an empty database; tables are recreated from scratch
+  rmSync(outputPath, { force: true });
+  const db = new Database(outputPath, { create: true });
+  const result: ExportSqliteResult = { tables: 0, rows: 0, failed: 0, noSchema: 0 };
+  const exported = new Set<string>();
+
+  try {
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      const table = parser.getTableSchema(tableKey(file));
+      if (!table) {
+        result.noSchema++;
+        continue;
+      }
+      if (exported.has(table.name)) continue;
+
+      logger.progress(i + 1, files.length, { phase: 'Exporting', currentFile: table.name });
+
+      const parsed = parser.parse(await readFile(join(inputDir, file)), table.name);
+      if (parsed.error && parsed.rows.length === 0) {
+        logger.clearProgress();
+        logger.warn(`${table.name}: ${parsed.error}`);
+        result.failed++;
+        continue;
+      }
+
+      try {
+        const duplicated = exportTable(db, parser, table, parsed.rows, {
+          joinTables: options.joinTables,
+        });
+        if (duplicated.length > 0) {
+          logger.clearProgress();
+          logger.warn(
+            `${table.name}: duplicate values in unique column(s) ${duplicated.join(', ')}; indexed without UNIQUE`
+          );
+        }
+        exported.add(table.name);
+        result.tables++;
+        result.rows += parsed.rows.length;
+      } catch (e) {
+        logger.clearProgress();
+        logger.warn(`${table.name}: ${e instanceof Error ? e.message : e}`);
+        result.failed++;
+      }
+    }
+    logger.clearProgress();
+  } finally {
+    db.close();
+  }
+
+  logger.section('Summary');
+  logger.success(`Exported: ${result.tables} tables (${result.rows.toLocaleString()} rows)`);
+  if (result.failed > 0) {
+    logger.error(`Failed: ${result.failed}`);
+  }
+  if (result.noSchema > 0) {
+    logger.info(`No schema: ${result.noSchema}`);
+  }
+
+  return result;
+}
@@ -1,6 +1,6 @@
 // Extract all assets from GGPK
-import { GGPKReader } from '../ggpk/ggpk-reader';
-import { getGGPKPath, Config } from '../config';
+import { VirtualFileSystem } from '../ggpk/virtual-filesystem';
+import { getInstallPath, Config } from '../config';
 import { logger } from '../utils/logger';
 import { join } from 'path';
 
@@ -13,72 +13,60 @@ interface ExtractionOptions {
 export async function extractAll(config: Config, options: ExtractionOptions): Promise<void> {
   logger.section('Extracting All Assets from GGPK');
   
-  const ggpkPath = getGGPKPath(config);
-  logger.info(`Reading GGPK: ${ggpkPath}`);
+  const installPath = getInstallPath(config);
+  logger.info(`Reading: ${installPath}`);
   
-  const reader = new GGPKReader(ggpkPath);
+  logger.step(1, 3, 'Building complete file index...');
+  const vfs = await VirtualFileSystem.open(installPath, { cacheDir: config.cacheDir });
   
   try {
-    logger.step(1, 3, 'Building complete file index...');
-    const index = await reader.buildIndex();
-    
-    logger.info(`Found ${index.size} files in GGPK`);
+    const files = vfs.walk();
+    logger.info(`Found ${files.length} files in GGPK`);
   
+  let selected = files;
   if (options.includeAll) {
     logger.step(2, 3, 'Extracting ALL files (this may take a while)...');
-    
-    let extracted = 0;
-    let failed = 0;
-    
-    for (const [filePath, fileRecord] of index) {
-      const outputPath = join(options.outputDir, filePath);
-      try {
-        reader.extractFile(fileRecord, outputPath);
-        extracted++;
-        
-        if (extracted % 100 === 0) {
-          logger.info(`  Extracted ${extracted}/${index.size} files...`);
-        }
-      } catch (error) {
-        failed++;
-        if (failed < 10) {
-          logger.warn(`  Failed: ${filePath}`);
-        }
-      }
-    }
-    
-    logger.step(3, 3, 'Extraction complete!');
-    logger.success(`Successfully extracted ${extracted} files`);
-    if (failed > 0) {
-      logger.warn(`Failed to extract ${failed} files`);
-    }
   } else if (options.patterns && options.patterns.length > 0) {
     logger.step(2, 3, 'Extracting files matching patterns...');
     
     const regexes = options.patterns.map(p => 
       new RegExp(p.replace(/\*/g, '.*').replace(/\?/g, '.'), 'i')
     );
-    
-    let extracted = 0;
-    
-    for (const [filePath, fileRecord] of index) {
-      if (regexes.some(regex => regex.test(filePath))) {
-        const outputPath = join(options.outputDir, filePath);
-        try {
-          reader.extractFile(fileRecord, outputPath);
-          extracted++;
-        } catch (error) {
-          logger.warn(`  Failed: ${filePath}`);
-        }
+    selected = files.filter(filePath => regexes.some(regex => regex.test(filePath)));
+  } else {
+    return;
+  }
+  
+  logger.info(`Extracting ${selected.length} files with ${config.threads} concurrent readers`);
+  
+  const result = await vfs.extractMany(selected, options.outputDir, {
+    concurrency: config.threads,
+    onProgress: (info) => {
+      if (info.phase === 'done') {
+        logger.clearProgress();
+        return;
       }
+      logger.progress(info.current, info.total, {
+        phase: 'Extract',
+        currentFile: info.currentFile,
+        rate: info.rate,
+        elapsed: info.elapsed
+      });
     }
-    
-    logger.step(3, 3, 'Extraction complete!');
-    logger.success(`Extracted ${extracted} files`);
+  });
+  
+  for (const { path } of result.failed.slice(0, 10)) {
+    logger.warn(`  Failed: ${path}`);
+  }
+  
+  logger.step(3, 3, 'Extraction complete!');
+  logger.success(`Successfully extracted ${result.extracted} files`);
+  if (result.failed.length > 0) {
+    logger.warn(`Failed to extract ${result.failed.length} files`);
   }
   } finally {
     // Always close the file handle to free resources
-    reader.close();
+    vfs.close();
   }
 }
 /**
@@ -1,50 +1,54 @@
 // Extract files from GGPK
-import { GGPKReader } from '../ggpk/ggpk-reader';
-import { getGGPKPath, Config } from '../config';
+import { VirtualFileSystem } from '../ggpk/virtual-filesystem';
+import { getInstallPath, Config } from '../config';
 import { logger } from '../utils/logger';
 import { join } from 'path';
 
 export async function extractFiles(patterns: string[], outputDir: string, config: Config): Promise<void> {
   logger.section('Extracting Files from GGPK');
   
-  const ggpkPath = getGGPKPath(config);
-  logger.info(`Reading GGPK: ${ggpkPath}`);
+  const installPath = getInstallPath(config);
+  logger.info(`Reading: ${installPath}`);
   
-  const reader = new GGPKReader(ggpkPath);
-  const index = await reader.buildIndex();
+  const vfs = await VirtualFileSystem.open(installPath, { cacheDir: config.cacheDir });
   
   let extractedCount = 0;
   
-  for (const pattern of patterns) {
-    logger.step(patterns.indexOf(pattern) + 1, patterns.length, `Extracting: ${pattern}`);
-    
-    // Convert glob pattern to regex
-    const regex = new RegExp(pattern.replace(/\*/g, '.*').replace(/\?/g, '.'), 'i');
-    
-    for (const [filePath, fileRecord] of index) {
-      if (regex.test(filePath)) {
+  try {
+    for (const pattern of patterns) {
+      logger.step(patterns.indexOf(pattern) + 1, patterns.length, `Extracting: ${pattern}`);
+      
+      // Convert glob pattern to regex
+      const regex = new RegExp(pattern.replace(/\*/g, '.*').replace(/\?/g, '.'), 'i');
+      
+      for (const filePath of vfs.walk(regex)) {
         const outputPath = join(outputDir, filePath);
         try {
-          reader.extractFile(fileRecord, outputPath);
+          await vfs.extractTo(filePath, outputPath);
           extractedCount++;
         } catch (error) {
           logger.error(`Failed to extract ${filePath}:`, error);
         }
       }
     }
+  } finally {
+    vfs.close();
   }
   
   logger.success(`Extracted ${extractedCount} files to ${outputDir}`);
 }
 
 export async function listFiles(pattern: string, config: Config): Promise<string[]> {
-  const ggpkPath = getGGPKPath(config);
-  const reader = new GGPKReader(ggpkPath);
+  const vfs = await VirtualFileSystem.open(getInstallPath(config), { cacheDir: config.cacheDir });
   
   // Convert glob pattern to regex
   const regex = pattern === '**/*' 
     ? /.*/ 
     : new RegExp(pattern.replace(/\*/g, '.*').replace(/\?/g, '.'), 'i');
   
-  return reader.listFiles(regex);
+  try {
+    return vfs.walk(regex);
+  } finally {
+    vfs.close();
+  }
 }
@@ -0,0 +1,42 @@
+// Replace a file inside a Content.ggpk
+import { existsSync, readFileSync } from 'fs';
+import { GGPKWriter, type ReplaceResult } from '../ggpk/ggpk-writer';
+import { logger } from '../utils/logger';
+
+export async function replaceGGPKFile(
+  ggpkPath: string,
+  virtualPath: string,
+  localFile: string
+): Promise<ReplaceResult> {
+  logger.section('Replacing GGPK File');
+
+  if (!existsSync(ggpkPath)) {
+    throw new Error(`GGPK not found: ${ggpkPath}`);
+  }
+  if (!existsSync(localFile)) {
+    throw new Error(`Local file not found: ${localFile}`);
+  }
+
+  logger.info(`Archive: ${ggpkPath}`);
+  logger.info(`Replacing: ${virtualPath}`);
+  logger.info(`With: ${localFile}`);
+
+  const data = readFileSync(localFile);
+  const writer = new GGPKWriter(ggpkPath);
+
+  try {
+    const result = writer.replaceFile(virtualPath, data);
+
+    const placements = {
+      'in-place': 'rewritten in place',
+      'free-record': 'moved into free space',
+      appended: 'appended to the end of the archive',
+    };
+    logger.success(
+      `Wrote ${data.length.toLocaleString()} bytes at offset ${result.record.offset} (${placements[result.placement]})`
+    );
+    return result;
+  } finally {
+    writer.close();
+  }
+}
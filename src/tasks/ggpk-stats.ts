@@ -0,0 +1,160 @@
+// Report free space and fragmentation in a Content.ggpk
+import chalk from 'chalk';
+import { GGPKReader } from '../ggpk/ggpk-reader';
+import { detectInstallLayout } from '../ggpk/bundle-source';
+import { Config } from '../config';
+import { logger } from '../utils/logger';
+
+export interface RecordTypeStats {
+  count: number;
+  bytes: number;
+}
+
+export interface FreeRegion {
+  offset: number;
+  length: number;
+}
+
+export interface GGPKStats {
+  path: string;
+  version: number;
+  fileSize: number;
+  /** Every record in the file by tag, including ones nothing points to */
+  records: { [tag: string]: RecordTypeStats };
+  /** Records linked from the header's FREE chain */
+  free: RecordTypeStats & { largest: FreeRegion[] };
+  /** FILE/PDIR records unreachable from ROOT and FREE records missing from the chain */
+  orphaned: RecordTypeStats;
+  /** Free plus orphaned bytes */
+  wastedBytes: number;
+  wastedPercent: number;
+}
+
+export function collectGGPKStats(ggpkPath: string, options: { top?: number } = {}): GGPKStats {
+  const top = options.top ?? 10;
+  const reader = new GGPKReader(ggpkPath);
+
+  try {
+    const header = reader.readHeader();
+
+    // Everything reachable from the ROOT directory is live data
+    const reachable = new Set<bigint>();
+    const visit = (offset: bigint): void => {
+      if (reachable.has(offset)) return;
+      reachable.add(offset);
+      const record = reader.readRecord(offset);
+      if (record.type === 'PDIR') {
+        for (const entryOffset of record.entries) {
+          visit(entryOffset);
+        }
+      }
+    };
+    visit(header.firstRecordOffset);
+
+    const freeChain = reader.readFreeChain();
+    const freeOffsets = new Set(freeChain.map(record => record.offset));
+
+    const records: { [tag: string]: RecordTypeStats } = {};
+    const orphaned: RecordTypeStats = { count: 0, bytes: 0 };
+    let fileSize = 0;
+
+    for (const { offset, length, tag } of reader.scanRecords()) {
+      const stats = (records[tag] ??= { count: 0, bytes: 0 });
+      stats.count++;
+      stats.bytes += length;
+      fileSize = Number(offset) + length;
+
+      const isOrphan =
+        ((tag === 'FILE' || tag === 'PDIR') && !reachable.has(offset)) ||
+        (tag === 'FREE' && !freeOffsets.has(offset));
+      if (isOrphan) {
+        orphaned.count++;
+        orphaned.bytes += length;
+      }
+    }
+
+    const freeBytes = freeChain.reduce((sum, record) => sum + record.length, 0);
+    const largest = freeChain
+      .map(record => ({ offset: Number(record.offset), length: record.length }))
+      .sort((a, b) => b.length - a.length)
+      .slice(0, top);
+
+    const wastedBytes = freeBytes + orphaned.bytes;
+
+    return {
+      path: ggpkPath,
+      version: header.version,
+      fileSize,
+      records,
+      free: { count: freeChain.length, bytes: freeBytes, largest },
+      orphaned,
+      wastedBytes,
+      wastedPercent: fileSize > 0 ? (wastedBytes / fileSize) * 100 : 0,
+    };
+  } finally {
+    reader.close();
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+export async function showGGPKStats(
+  config: Config,
+  options: { json?: boolean; top?: number } = {}
+): Promise<GGPKStats> {
+  const install = detectInstallLayout(config.poe2Path);
+  if (install.layout !== 'ggpk') {
+    throw new Error(`${install.path} is a Steam install without Content.ggpk`);
+  }
+
+  if (!options.json) {
+    logger.section('GGPK Statistics');
+    logger.info(`Reading: ${install.path}`);
+  }
+
+  const stats = collectGGPKStats(install.path, { top: options.top });
+
+  if (options.json) {
+    console.log(JSON.stringify(stats, null, 2));
+    return stats;
+  }
+
+  console.log(chalk.cyan(`\nVersion: ${stats.version}`));
+  console.log(chalk.cyan(`File size: ${formatBytes(stats.fileSize)}`));
+
+  console.log(chalk.cyan('\nRecords:'));
+  for (const [tag, { count, bytes }] of Object.entries(stats.records)) {
+    console.log(
+      chalk.gray(`  ${tag.padEnd(6)} ${count.toLocaleString().padStart(10)}  ${formatBytes(bytes)}`)
+    );
+  }
+
+  console.log(
+    chalk.cyan(
+      `\nFree space: ${formatBytes(stats.free.bytes)} in ${stats.free.count.toLocaleString()} regions`
+    )
+  );
+  for (const region of stats.free.largest) {
+    console.log(
+      chalk.gray(`  ${formatBytes(region.length).padStart(10)} at offset ${region.offset}`)
+    );
+  }
+
+  console.log(
+    chalk.cyan(
+      `\nOrphaned records: ${stats.orphaned.count.toLocaleString()} (${formatBytes(stats.orphaned.bytes)})`
+    )
+  );
+  console.log(
+    chalk.yellow(
+      `Wasted space: ${formatBytes(stats.wastedBytes)} (${stats.wastedPercent.toFixed(2)}% of archive)\n`
+    )
+  );
+
+  return stats;
+}
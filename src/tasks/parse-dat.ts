@@ -1,14 +1,22 @@
 // Parse .datc64 files to JSON
 import { DATParser, parseAllDatFiles } from '../dat/dat-parser';
+import { DatDatabase } from '../dat/dat-database';
+import type { OutputFormat } from '../dat/row-formatter';
 import { parseAllDatFilesParallel } from '../dat/parallel-parser';
 import { logger } from '../utils/logger';
-import { writeFileSync, existsSync } from 'fs';
-import { join, resolve } from 'path';
-import { Config } from '../config';
+import { writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, resolve, dirname } from 'path';
+import { Config, getInstallPath } from '../config';
+import { readGameFile } from '../ggpk/virtual-filesystem';
 
 const DEFAULT_SCHEMA_PATH = join(process.cwd(), 'schema.min.json');
 
-export async function parseDat(datFilePath: string, outputPath: string, config: Config): Promise<void> {
+export async function parseDat(
+  datFilePath: string,
+  outputPath: string,
+  config: Config,
+  options: { resolveDepth?: number; resolveDisplay?: boolean | string[]; keepEnumValues?: boolean } = {}
+): Promise<void> {
   logger.section('Parsing DAT File');
   logger.info(`Input: ${datFilePath}`);
   logger.info(`Output: ${outputPath}`);
@@ -21,16 +29,44 @@ export async function parseDat(datFilePath: string, outputPath: string, config:
   
   try {
     const schema = await DATParser.loadSchema(schemaPath);
-    const parser = new DATParser(schema, true);
+    const parser = new DATParser(schema, true, { keepEnumValues: options.keepEnumValues });
     
-    const result = await parser.parseFile(datFilePath);
+    // Paths that aren't on disk are read straight from the game archive
+    let result;
+    if (existsSync(datFilePath)) {
+      result = await parser.parseFile(datFilePath);
+    } else {
+      const data = await readGameFile(getInstallPath(config), datFilePath);
+      if (!data) {
+        throw new Error(`File not found on disk or in the game archive: ${datFilePath}`);
+      }
+      logger.info(`Read ${data.length.toLocaleString()} bytes from the game archive`);
+      result = parser.parseNamed(data, datFilePath);
+      mkdirSync(dirname(outputPath), { recursive: true });
+    }
     
     if (result.error) {
       logger.warn(`Warning: ${result.error}`);
     }
     
+    // Replace foreign keys with the rows they point at, or with one value of each row
+    let rows = result.rows;
+    const depth = options.resolveDisplay ? Math.max(options.resolveDepth ?? 0, 1) : options.resolveDepth;
+    if (depth && depth > 0) {
+      const db = createDatabase(parser, datFilePath, config);
+      const resolveOptions = { depth, display: options.resolveDisplay };
+      rows = await Promise.all(
+        rows.map(row => db.resolveRow(result.tableName, row, resolveOptions))
+      );
+      logger.info(
+        options.resolveDisplay
+          ? 'Replaced references with display values'
+          : `Resolved references ${depth} level(s) deep`
+      );
+    }
+    
     // Write to JSON
-    writeFileSync(outputPath, JSON.stringify(result.rows, null, 2));
+    writeFileSync(outputPath, JSON.stringify(rows, null, 2));
     
     logger.success(`Parsed ${result.rowCount} rows from ${result.tableName}`);
     logger.success(`Output: ${outputPath}`);
@@ -40,11 +76,36 @@ export async function parseDat(datFilePath: string, outputPath: string, config:
   }
 }
 
+/**
+ * Referenced tables are read from next to the parsed file, then from the game archive
+ */
+function createDatabase(parser: DATParser, datFilePath: string, config: Config): DatDatabase {
+  const fromArchive = async (tableName: string): Promise<Buffer | null> => {
+    try {
+      return await readGameFile(getInstallPath(config), `data/${tableName.toLowerCase()}.datc64`);
+    } catch {
+      return null;
+    }
+  };
+  return existsSync(datFilePath)
+    ? DatDatabase.fromDirectory(parser, dirname(datFilePath), fromArchive)
+    : new DatDatabase(parser, fromArchive);
+}
+
 export async function parseAllDat(
   inputDir: string, 
   outputDir: string, 
   config: Config,
-  options: { filter?: string; pretty?: boolean; limit?: number; parallel?: boolean; noCache?: boolean } = {}
+  options: {
+    filter?: string;
+    pretty?: boolean;
+    limit?: number;
+    parallel?: boolean;
+    noCache?: boolean;
+    keepEnumValues?: boolean;
+    format?: OutputFormat;
+    arraySeparator?: string;
+  } = {}
 ): Promise<void> {
   logger.section('Parsing All DAT Files');
   
@@ -64,6 +125,9 @@ export async function parseAllDat(
   if (options.limit) {
     logger.info(`Limit: ${options.limit}`);
   }
+  if (options.format && options.format !== 'json') {
+    logger.info(`Format: ${options.format}`);
+  }
   
   // Use parallel parser by default, fall back to sequential if issues
   const useParallel = options.parallel !== false;
@@ -74,7 +138,11 @@ export async function parseAllDat(
       const result = await parseAllDatFilesParallel(inputDir, outputDir, schemaPath, {
         filter: options.filter,
         limit: options.limit,
-        useCache: !options.noCache
+        useCache: !options.noCache,
+        keepEnumValues: options.keepEnumValues,
+        format: options.format,
+        pretty: options.pretty,
+        arraySeparator: options.arraySeparator
       });
       
       logger.section('Summary');
@@ -82,6 +150,9 @@ export async function parseAllDat(
       if (result.cached > 0) {
         logger.info(`Cached: ${result.cached}`);
       }
+      if (result.partial > 0) {
+        logger.warn(`Partial: ${result.partial}`);
+      }
       if (result.failed > 0) {
         logger.error(`Failed: ${result.failed}`);
       }
@@ -96,7 +167,10 @@ export async function parseAllDat(
         filter: options.filter,
         pretty: options.pretty,
         limit: options.limit,
-        useCache: !options.noCache
+        useCache: !options.noCache,
+        keepEnumValues: options.keepEnumValues,
+        format: options.format,
+        arraySeparator: options.arraySeparator
       });
       
       logger.section('Summary');
@@ -104,6 +178,9 @@ export async function parseAllDat(
       if (result.cached > 0) {
         logger.info(`Cached: ${result.cached}`);
       }
+      if (result.partial > 0) {
+        logger.warn(`Partial: ${result.partial}`);
+      }
       if (result.failed > 0) {
         logger.error(`Failed: ${result.failed}`);
       }
@@ -117,7 +194,10 @@ export async function parseAllDat(
       filter: options.filter,
       pretty: options.pretty,
       limit: options.limit,
-      useCache: !options.noCache
+      useCache: !options.noCache,
+      keepEnumValues: options.keepEnumValues,
+      format: options.format,
+      arraySeparator: options.arraySeparator
     });
     
     logger.section('Summary');
@@ -125,6 +205,9 @@ export async function parseAllDat(
       if (result.cached > 0) {
         logger.info(`Cached: ${result.cached}`);
       }
+      if (result.partial > 0) {
+        logger.warn(`Partial: ${result.partial}`);
+      }
       if (result.failed > 0) {
         logger.error(`Failed: ${result.failed}`);
       }
@@ -146,14 +229,24 @@ export async function listDatTables(config: Config): Promise<void> {
   const schema = await DATParser.loadSchema(schemaPath);
   const parser = new DATParser(schema, true);
   const tables = parser.listTables();
-  
-  logger.info(`Found ${tables.length} tables for POE2:`);
+  const enumerations = parser.listEnumerations();
   
   // Print in columns
   const cols = 4;
   const colWidth = 30;
-  for (let i = 0; i < tables.length; i += cols) {
-    const row = tables.slice(i, i + cols).map(t => t.padEnd(colWidth)).join('');
-    console.log(row);
+  const printColumns = (names: string[]) => {
+    for (let i = 0; i < names.length; i += cols) {
+      const row = names.slice(i, i + cols).map(t => t.padEnd(colWidth)).join('');
+      console.log(row);
+    }
+  };
+  
+  logger.info(`Found ${tables.length} tables for POE2:`);
+  printColumns(tables);
+  
+  if (enumerations.length > 0) {
+    console.log();
+    logger.info(`Found ${enumerations.length} enumerations for POE2:`);
+    printColumns(enumerations);
   }
 }
@@ -0,0 +1,351 @@
+// Compare the file indexes of two game versions
+// Each side is an install (game directory or Content.ggpk) or a snapshot saved with `snapshot`.
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { listBundledFiles, openNativeBundles, type NativeBundles } from '../ggpk/bundle-extractor';
+import type { BundledFileEntry } from '../ggpk/bundle-index';
+import { detectInstallLayout, openBundle } from '../ggpk/bundle-source';
+import { GGPKReader, type IndexOptions } from '../ggpk/ggpk-reader';
+import { logger } from '../utils/logger';
+
+const SNAPSHOT_VERSION = 1;
+
+export interface SnapshotFile {
+  size: number;
+  /** SHA-256 from the GGPK FILE record, or of a bundled file's contents with `hash` */
+  hash?: string;
+}
+
+export interface SnapshotOptions extends IndexOptions {
+  /** Hash bundled files' contents too, which decompresses every bundle */
+  hash?: boolean;
+}
+
+export interface FileIndexSnapshot {
+  version: number;
+  source: string;
+  createdAt: string;
+  files: Record<string, SnapshotFile>;
+}
+
+export type DiffFormat = 'text' | 'json' | 'markdown';
+
+export interface ChangedFile {
+  path: string;
+  oldSize: number;
+  newSize: number;
+  oldHash?: string;
+  newHash?: string;
+}
+
+export interface PatchDiff {
+  oldSource: string;
+  newSource: string;
+  added: { path: string; size: number }[];
+  removed: { path: string; size: number }[];
+  changed: ChangedFile[];
+  unchanged: number;
+  /** Files present on both sides without a hash on both, so compared by size only */
+  comparedBySizeOnly: number;
+}
+
+/**
+ * Index every file in an install: bundled files from `_.index.bin` plus, for
+ * standalone installs, the GGPK's own files outside Bundles2 (with their SHA-256)
+ */
+export async function createSnapshot(
+  installPath: string,
+  options: SnapshotOptions = {}
+): Promise<FileIndexSnapshot> {
+  const files: Record<string, SnapshotFile> = {};
+
+  const list = await listBundledFiles(installPath);
+  if (!list.entries) {
+    throw new Error('File sizes need native bundle reading; build the ooz library first');
+  }
+  for (const entry of list.entries) {
+    files[entry.path] = { size: entry.size };
+  }
+  if (options.hash) {
+    hashBundledFiles(openNativeBundles(installPath)!, list.entries, files);
+  }
+
+  const install = detectInstallLayout(installPath);
+  if (install.layout === 'ggpk') {
+    const reader = new GGPKReader(install.path);
+    try {
+      for (const [path, record] of await reader.buildIndex(options)) {
+        // Bundle binaries are covered by the bundled files they contain
+        if (/^bundles2\//i.test(path)) continue;
+        files[path] = { size: record.dataLength, hash: record.hash.toString('hex') };
+      }
+    } finally {
+      reader.close();
+    }
+  }
+
+  return {
+    version: SNAPSHOT_VERSION,
+    source: installPath,
+    createdAt: new Date().toISOString(),
+    files,
+  };
+}
+
+/**
+ * Hash bundled files' contents, reading each bundle once in offset order
+ */
+function hashBundledFiles(
+  bundles: NativeBundles,
+  entries: BundledFileEntry[],
+  files: Record<string, SnapshotFile>
+): void {
+  const byBundle = new Map<string, BundledFileEntry[]>();
+  for (const entry of entries) {
+    const list = byBundle.get(entry.bundleName) ?? [];
+    list.push(entry);
+    byBundle.set(entry.bundleName, list);
+  }
+
+  for (const [bundleName, bundleEntries] of byBundle) {
+    bundleEntries.sort((a, b) => a.offset - b.offset);
+    const reader = openBundle(bundles.source, bundleName, bundles.decompressor);
+    try {
+      for (const entry of bundleEntries) {
+        const data = reader.readRange(entry.offset, entry.size);
+        files[entry.path].hash = createHash('sha256').update(data).digest('hex');
+      }
+    } finally {
+      reader.close();
+    }
+  }
+}
+
+/**
+ * Load a snapshot written by saveSnapshot, or index an install if `source` isn't one
+ */
+export async function loadSnapshot(
+  source: string,
+  options: SnapshotOptions = {}
+): Promise<FileIndexSnapshot> {
+  if (source.toLowerCase().endsWith('.json')) {
+    if (!existsSync(source)) {
+      throw new Error(`Snapshot not found: ${source}`);
+    }
+    const snapshot = JSON.parse(await readFile(source, 'utf-8')) as FileIndexSnapshot;
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version ${snapshot.version} in ${source}`);
+    }
+    return snapshot;
+  }
+  return createSnapshot(source, options);
+}
+
+export async function saveSnapshot(
+  installPath: string,
+  outputPath: string,
+  options: SnapshotOptions = {}
+): Promise<FileIndexSnapshot> {
+  logger.info(`Indexing: ${installPath}`);
+  const snapshot = await createSnapshot(installPath, options);
+  await writeFile(outputPath, JSON.stringify(snapshot));
+  logger.success(
+    `Saved ${Object.keys(snapshot.files).length.toLocaleString()} files to ${outputPath}`
+  );
+  return snapshot;
+}
+
+/**
+ * Compare two snapshots by path. Files are changed when both sides have a hash and
+ * the hashes differ, or when their sizes differ. Without a hash on both sides a
+ * same-size edit goes unnoticed; such files are counted in `comparedBySizeOnly`.
+ */
+export function diffSnapshots(
+  oldSnapshot: FileIndexSnapshot,
+  newSnapshot: FileIndexSnapshot,
+  pattern?: RegExp
+): PatchDiff {
+  const diff: PatchDiff = {
+    oldSource: oldSnapshot.source,
+    newSource: newSnapshot.source,
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: 0,
+    comparedBySizeOnly: 0,
+  };
+
+  for (const [path, oldFile] of Object.entries(oldSnapshot.files)) {
+    if (pattern && !pattern.test(path)) continue;
+    const newFile = newSnapshot.files[path];
+    if (!newFile) {
+      diff.removed.push({ path, size: oldFile.size });
+      continue;
+    }
+
+    if (!oldFile.hash || !newFile.hash) {
+      diff.comparedBySizeOnly++;
+    }
+    const hashChanged = oldFile.hash && newFile.hash && oldFile.hash !== newFile.hash;
+    if (hashChanged || oldFile.size !== newFile.size) {
+      diff.changed.push({
+        path,
+        oldSize: oldFile.size,
+        newSize: newFile.size,
+        oldHash: oldFile.hash,
+        newHash: newFile.hash,
+      });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  for (const [path, newFile] of Object.entries(newSnapshot.files)) {
+    if (pattern && !pattern.test(path)) continue;
+    if (!(path in oldSnapshot.files)) {
+      diff.added.push({ path, size: newFile.size });
+    }
+  }
+
+  const byPath = (a: { path: string }, b: { path: string }) => a.path.localeCompare(b.path);
+  diff.added.sort(byPath);
+  diff.removed.sort(byPath);
+  diff.changed.sort(byPath);
+  return diff;
+}
+
+function sizeOnlyNote(diff: PatchDiff): string | null {
+  if (diff.comparedBySizeOnly === 0) return null;
+  return (
+    `${diff.comparedBySizeOnly} files had no content hash on both sides and were compared ` +
+    'by size only; snapshot with --hash to compare bundled file contents.'
+  );
+}
+
+function formatSizeChange(file: ChangedFile): string {
+  const delta = file.newSize - file.oldSize;
+  if (delta === 0) return `${file.newSize} bytes`;
+  return `${file.oldSize} → ${file.newSize} bytes (${delta > 0 ? '+' : ''}${delta})`;
+}
+
+export function formatDiffText(diff: PatchDiff): string {
+  const lines = [
+    `Old: ${diff.oldSource}`,
+    `New: ${diff.newSource}`,
+    '',
+    `Added: ${diff.added.length}, removed: ${diff.removed.length}, changed: ${diff.changed.length}, unchanged: ${diff.unchanged}`,
+  ];
+  const note = sizeOnlyNote(diff);
+  if (note) {
+    lines.push(`Note: ${note}`);
+  }
+
+  const section = (title: string, entries: string[]) => {
+    if (entries.length === 0) return;
+    lines.push('', `${title} (${entries.length}):`, ...entries.map(entry => `  ${entry}`));
+  };
+  section(
+    'Added',
+    diff.added.map(file => `+ ${file.path} (${file.size} bytes)`)
+  );
+  section(
+    'Removed',
+    diff.removed.map(file => `- ${file.path} (${file.size} bytes)`)
+  );
+  section(
+    'Changed',
+    diff.changed.map(file => `~ ${file.path} (${formatSizeChange(file)})`)
+  );
+
+  return lines.join('\n') + '\n';
+}
+
+export function formatDiffMarkdown(diff: PatchDiff): string {
+  const lines = [
+    '# Patch diff',
+    '',
+    `- Old: \`${diff.oldSource}\``,
+    `- New: \`${diff.newSource}\``,
+    '',
+    '| Category | Files |',
+    '| --- | ---: |',
+    `| Added | ${diff.added.length} |`,
+    `| Removed | ${diff.removed.length} |`,
+    `| Changed | ${diff.changed.length} |`,
+    `| Unchanged | ${diff.unchanged} |`,
+  ];
+  const note = sizeOnlyNote(diff);
+  if (note) {
+    lines.push('', `> **Note:** ${note}`);
+  }
+
+  const section = (title: string, rows: string[]) => {
+    if (rows.length === 0) return;
+    lines.push(
+      '',
+      `## ${title} (${rows.length})`,
+      '',
+      '| Path | Size |',
+      '| --- | ---: |',
+      ...rows
+    );
+  };
+  section(
+    'Added',
+    diff.added.map(file => `| \`${file.path}\` | ${file.size} |`)
+  );
+  section(
+    'Removed',
+    diff.removed.map(file => `| \`${file.path}\` | ${file.size} |`)
+  );
+  section(
+    'Changed',
+    diff.changed.map(file => `| \`${file.path}\` | ${formatSizeChange(file)} |`)
+  );
+
+  return lines.join('\n') + '\n';
+}
+
+export function formatDiff(diff: PatchDiff, format: DiffFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ ...diff, note: sizeOnlyNote(diff) ?? undefined }, null, 2) + '\n';
+    case 'markdown':
+      return formatDiffMarkdown(diff);
+    case 'text':
+      return formatDiffText(diff);
+    default:
+      throw new Error(`Unknown diff format: ${format}`);
+  }
+}
+
+export async function runPatchDiff(
+  oldSource: string,
+  newSource: string,
+  options: {
+    format?: DiffFormat;
+    output?: string;
+    pattern?: string;
+    cacheDir?: string;
+    hash?: boolean;
+  } = {}
+): Promise<PatchDiff> {
+  const format = options.format ?? 'text';
+  const indexOptions = { cacheDir: options.cacheDir, hash: options.hash };
+
+  const oldSnapshot = await loadSnapshot(oldSource, indexOptions);
+  const newSnapshot = await loadSnapshot(newSource, indexOptions);
+  const pattern = options.pattern ? new RegExp(options.pattern, 'i') : undefined;
+  const diff = diffSnapshots(oldSnapshot, newSnapshot, pattern);
+  const report = formatDiff(diff, format);
+
+  if (options.output) {
+    await writeFile(options.output, report);
+    logger.success(`Wrote ${format} diff to ${options.output}`);
+  } else {
+    process.stdout.write(report);
+  }
+
+  return diff;
+}
@@ -0,0 +1,94 @@
+// Verify GGPK file data against the SHA-256 hashes stored in FILE records
+import { GGPKReader } from '../ggpk/ggpk-reader';
+import { detectInstallLayout } from '../ggpk/bundle-source';
+import { Config } from '../config';
+import { logger } from '../utils/logger';
+
+export interface VerifyMismatch {
+  path: string;
+  /** Offset of the FILE record in the GGPK */
+  offset: bigint;
+  expected: string;
+  actual: string;
+}
+
+export interface VerifyResult {
+  checked: number;
+  bytes: number;
+  mismatches: VerifyMismatch[];
+}
+
+export async function verifyGGPK(
+  config: Config,
+  options: { pattern?: string } = {}
+): Promise<VerifyResult> {
+  logger.section('Verifying GGPK Integrity');
+
+  const install = detectInstallLayout(config.poe2Path);
+  if (install.layout !== 'ggpk') {
+    throw new Error(
+      `${install.path} is a Steam install without Content.ggpk; only GGPK records carry SHA-256 hashes`
+    );
+  }
+  logger.info(`Reading: ${install.path}`);
+
+  const reader = new GGPKReader(install.path);
+  const result: VerifyResult = { checked: 0, bytes: 0, mismatches: [] };
+
+  try {
+    const index = await reader.buildIndex({ cacheDir: config.cacheDir });
+    const regex = options.pattern
+      ? new RegExp(options.pattern.replace(/\*/g, '.*').replace(/\?/g, '.'), 'i')
+      : null;
+    const entries = Array.from(index).filter(([path]) => !regex || regex.test(path));
+
+    const startTime = Date.now();
+    let lastUpdate = 0;
+
+    for (const [path, record] of entries) {
+      const actual = reader.hashFileData(record);
+      if (!actual.equals(record.hash)) {
+        result.mismatches.push({
+          path,
+          offset: record.offset,
+          expected: record.hash.toString('hex'),
+          actual: actual.toString('hex'),
+        });
+      }
+
+      result.checked++;
+      result.bytes += record.dataLength;
+
+      const now = Date.now();
+      if (now - lastUpdate > 100 || result.checked === entries.length) {
+        lastUpdate = now;
+        const elapsed = (now - startTime) / 1000;
+        const rate = elapsed > 0 ? `${(result.bytes / 1024 / 1024 / elapsed).toFixed(1)} MB/s` : '';
+        logger.progress(result.checked, entries.length, {
+          phase: 'Verify',
+          currentFile: path,
+          rate,
+          elapsed: now - startTime,
+        });
+      }
+    }
+    logger.clearProgress();
+  } finally {
+    reader.close();
+  }
+
+  for (const mismatch of result.mismatches) {
+    logger.warn(
+      `Mismatch: ${mismatch.path} (record at offset ${mismatch.offset})\n` +
+        `    expected ${mismatch.expected}\n    actual   ${mismatch.actual}`
+    );
+  }
+
+  if (result.mismatches.length === 0) {
+    logger.success(`All ${result.checked} files match their SHA-256 hashes`);
+  } else {
+    logger.error(`${result.mismatches.length} of ${result.checked} files failed verification`);
+  }
+
+  return result;
+}
@@ -0,0 +1,24 @@
+/**
+ * Run an async task for every item with at most `limit` in flight.
+ * Workers only take the next item once their current one finishes, so a slow
+ * consumer (e.g. disk writes) holds back reading instead of buffering everything.
+ */
+export async function forEachConcurrent<T>(
+  items: Iterable<T>,
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  const iterator = items[Symbol.iterator]();
+
+  const worker = async (): Promise<void> => {
+    for (let next = iterator.next(); !next.done; next = iterator.next()) {
+      await task(next.value);
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.max(1, limit); i++) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
+}
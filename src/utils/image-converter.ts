@@ -17,6 +17,13 @@ export interface ConversionOptions {
   skipExisting?: boolean;
 }
 
+/**
+ * Whether texconv is installed, without which no DDS file can be converted
+ */
+export function isTexconvAvailable(): boolean {
+  return existsSync(TEXCONV_PATH);
+}
+
 /**
  * Convert a single DDS file to WebP
  */
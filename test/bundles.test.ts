@@ -0,0 +1,239 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getInstallPath, type Config } from '../src/config';
+import { BundleIndex } from '../src/ggpk/bundle-index';
+import { BundleReader, createBundleUnpacker } from '../src/ggpk/bundle-reader';
+import {
+  DirectoryBundleSource,
+  GGPKBundleSource,
+  detectInstallLayout,
+  loadBundleIndex,
+  openBundle,
+} from '../src/ggpk/bundle-source';
+import type { BlockDecompressor } from '../src/ggpk/decompressor';
+import { murmurHash64A } from '../src/ggpk/hash';
+import { VirtualFileSystem } from '../src/ggpk/virtual-filesystem';
+import {
+  buildBundle,
+  buildBundles,
+  bundles2Tree,
+  makeTempDir,
+  storedBlockDecompressor,
+  writeBundles2,
+  writeGGPK,
+  type BundleFixture,
+} from './fixtures';
+
+// Paths are lowercase, as in the game's index. Small blocks so files span block boundaries.
+const GRANULARITY = 16;
+
+const BUNDLES: BundleFixture[] = [
+  {
+    name: 'Folders/data',
+    files: {
+      'data/mods.datc64': 'mods table contents',
+      'data/stats.datc64': 'stats',
+    },
+  },
+  {
+    name: 'Folders/art',
+    files: {
+      'art/textures/icon.dds': 'icon pixels, more than one block long',
+      'art/readme.txt': '',
+    },
+  },
+];
+
+/** Counts decompressed blocks, to check bundles aren't read more than needed */
+function countingDecompressor(): BlockDecompressor & { blocks: number } {
+  return {
+    name: 'counting',
+    blocks: 0,
+    decompress(block, uncompressedSize) {
+      this.blocks++;
+      return storedBlockDecompressor.decompress(block, uncompressedSize);
+    },
+  };
+}
+
+let tmp: ReturnType<typeof makeTempDir>;
+
+beforeAll(() => {
+  tmp = makeTempDir();
+});
+
+afterAll(() => {
+  tmp.cleanup();
+});
+
+describe('BundleReader', () => {
+  const data = Buffer.from('0123456789abcdefghijklmnopqrstuvwxyz');
+  const bundle = buildBundle(data, GRANULARITY);
+
+  test('parses the header and block table', () => {
+    const reader = new BundleReader(bundle, storedBlockDecompressor);
+    expect(reader.header).toMatchObject({
+      uncompressedSize: data.length,
+      compressor: 3,
+      blockCount: 3,
+      granularity: GRANULARITY,
+      blockSizes: [16, 16, 4],
+    });
+    expect(reader.compressorName).toBe('None');
+  });
+
+  test('reads ranges within and across blocks', () => {
+    const reader = new BundleReader(bundle, storedBlockDecompressor);
+    expect(reader.readRange(2, 5).toString()).toBe('23456');
+    expect(reader.readRange(14, 20).toString()).toBe('efghijklmnopqrstuvwx');
+    expect(reader.readRange(36, 0).length).toBe(0);
+    expect(reader.read().equals(data)).toBe(true);
+    expect(() => reader.readRange(30, 10)).toThrow(RangeError);
+  });
+
+  test('only decompresses the blocks a range covers', () => {
+    const decompressor = countingDecompressor();
+    const reader = new BundleReader(bundle, decompressor);
+    reader.readRange(0, 4);
+    reader.readRange(4, 4);
+    expect(decompressor.blocks).toBe(1);
+    reader.readRange(32, 4);
+    expect(decompressor.blocks).toBe(2);
+  });
+
+  test('rejects truncated bundles', () => {
+    expect(() => new BundleReader(bundle.subarray(0, 20), storedBlockDecompressor)).toThrow();
+  });
+});
+
+describe('BundleIndex', () => {
+  const { index } = buildBundles(BUNDLES, GRANULARITY);
+  const bundleIndex = new BundleIndex(
+    new BundleReader(index, storedBlockDecompressor).read(),
+    createBundleUnpacker(storedBlockDecompressor)
+  );
+
+  test('lists bundles and files', () => {
+    expect(bundleIndex.bundles).toEqual([
+      { name: 'Folders/data', uncompressedSize: 24 },
+      { name: 'Folders/art', uncompressedSize: 37 },
+    ]);
+    expect(bundleIndex.fileCount).toBe(4);
+    expect(bundleIndex.missingPathCount).toBe(0);
+    expect(bundleIndex.listFiles(/\.datc64$/).sort()).toEqual([
+      'data/mods.datc64',
+      'data/stats.datc64',
+    ]);
+  });
+
+  test('looks up files by path, ignoring case', () => {
+    const entry = bundleIndex.getFile('Data/Stats.datc64');
+    expect(entry).toMatchObject({
+      bundleName: 'Folders/data',
+      bundleIndex: 0,
+      offset: 19,
+      size: 5,
+      pathHash: murmurHash64A(Buffer.from('data/stats.datc64')),
+    });
+    expect(bundleIndex.getFile('data/stats.datc64')).toEqual(entry!);
+    expect(bundleIndex.getFile('Data/Missing.datc64')).toBeUndefined();
+  });
+});
+
+describe('bundle sources', () => {
+  test('reads a loose Bundles2 directory', () => {
+    const dir = writeBundles2(join(tmp.path, 'steam', 'Bundles2'), BUNDLES, GRANULARITY);
+    expect(detectInstallLayout(join(tmp.path, 'steam'))).toEqual({ layout: 'steam', path: dir });
+
+    const source = new DirectoryBundleSource(dir);
+    const index = loadBundleIndex(source, storedBlockDecompressor);
+    const entry = index.getFile('Art/Textures/Icon.dds')!;
+    const reader = openBundle(source, entry.bundleName, storedBlockDecompressor);
+    try {
+      expect(reader.readRange(entry.offset, entry.size).toString()).toBe(
+        'icon pixels, more than one block long'
+      );
+    } finally {
+      reader.close();
+    }
+  });
+
+  test('resolves Steam installs to the game directory however poe2Path names them', () => {
+    const gameDir = join(tmp.path, 'steam-install');
+    const bundlesDir = writeBundles2(join(gameDir, 'Bundles2'), BUNDLES, GRANULARITY);
+    const executable = join(gameDir, 'PathOfExile.exe');
+    writeFileSync(executable, '');
+
+    for (const poe2Path of [gameDir, bundlesDir, executable]) {
+      expect(getInstallPath({ poe2Path } as Config)).toBe(gameDir);
+    }
+  });
+
+  test('reads bundles stored inside Content.ggpk', () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'Content.ggpk'), {
+      Bundles2: bundles2Tree(BUNDLES, GRANULARITY),
+    });
+    expect(detectInstallLayout(ggpkPath)).toEqual({ layout: 'ggpk', path: ggpkPath });
+
+    const source = GGPKBundleSource.open(ggpkPath);
+    try {
+      expect(source.hasBundle('Folders/data')).toBe(true);
+      expect(source.hasBundle('Folders/missing')).toBe(false);
+
+      const index = loadBundleIndex(source, storedBlockDecompressor);
+      const entry = index.getFile('Data/Mods.datc64')!;
+      const reader = openBundle(source, entry.bundleName, storedBlockDecompressor);
+      expect(reader.readRange(entry.offset, entry.size).toString()).toBe('mods table contents');
+    } finally {
+      source.close();
+    }
+  });
+});
+
+describe('VirtualFileSystem', () => {
+  function openVfs(decompressor: BlockDecompressor = storedBlockDecompressor) {
+    const dir = writeBundles2(join(tmp.path, 'vfs', 'Bundles2'), BUNDLES, GRANULARITY);
+    const source = new DirectoryBundleSource(dir);
+    const index = loadBundleIndex(source, decompressor);
+    return new VirtualFileSystem({ source, index, decompressor }, null, null);
+  }
+
+  test('reads, stats and lists bundled files', async () => {
+    const vfs = openVfs();
+    try {
+      expect((await vfs.readFile('DATA/MODS.DATC64')).toString()).toBe('mods table contents');
+      expect(vfs.stat('Data/Stats.datc64')).toMatchObject({ size: 5, source: 'bundle' });
+      expect(vfs.stat('art/textures')).toMatchObject({ isDirectory: true });
+      expect(vfs.readdir('Art')).toEqual(['readme.txt', 'textures']);
+      expect(vfs.walk('**/*.datc64').sort()).toEqual(['data/mods.datc64', 'data/stats.datc64']);
+      expect(vfs.exists('Art/Missing.dds')).toBe(false);
+    } finally {
+      vfs.close();
+    }
+  });
+
+  test('extracts many files, decompressing each bundle block once', async () => {
+    const decompressor = countingDecompressor();
+    const vfs = openVfs(decompressor);
+    const outputDir = join(tmp.path, 'vfs-out');
+    try {
+      decompressor.blocks = 0;
+      const result = await vfs.extractMany(
+        ['Data/Mods.datc64', 'Art/Textures/Icon.dds', 'Data/Stats.datc64', 'Art/Nope.dds'],
+        outputDir
+      );
+
+      expect(result.extracted).toBe(3);
+      expect(result.failed.map(failure => failure.path)).toEqual(['Art/Nope.dds']);
+      // Folders/data is 24 bytes (2 blocks), Icon.dds covers 3 blocks of Folders/art
+      expect(decompressor.blocks).toBe(5);
+      expect(readFileSync(join(outputDir, 'data/stats.datc64'), 'utf8')).toBe('stats');
+      expect(readFileSync(join(outputDir, 'art/textures/icon.dds'), 'utf8')).toBe(
+        'icon pixels, more than one block long'
+      );
+    } finally {
+      vfs.close();
+    }
+  });
+});
@@ -0,0 +1,172 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { DATParser } from '../src/dat/dat-parser';
+import { DatDatabase, displayValue } from '../src/dat/dat-database';
+import { buildDat, column, makeTempDir, schema, table } from './fixtures';
+
+const ITEM_CLASSES = table('ItemClasses', [column('Id', 'string'), column('Name', 'string')]);
+const BASE_ITEMS = table('BaseItemTypes', [
+  column('Id', 'string'),
+  column('Name', 'string'),
+  column('ItemClass', 'foreignrow', { references: { table: 'ItemClasses' } }),
+  // Points at another base item, so resolving it can go round in circles
+  column('Upgrade', 'row'),
+  column('Tags', 'foreignrow', { array: true, references: { table: 'Tags' } }),
+]);
+const TAGS = table('Tags', [column('Id', 'string'), column('Text', 'string')]);
+const DROPS = table('Drops', [
+  column('Level', 'i32'),
+  // References by Id rather than row index
+  column('Class', 'string', { references: { table: 'ItemClasses', column: 'Id' } }),
+  column('Missing', 'foreignrow', { references: { table: 'Unknown' } }),
+]);
+
+const PARSER = new DATParser(schema([ITEM_CLASSES, BASE_ITEMS, TAGS, DROPS]));
+
+const TABLES: Record<string, Buffer> = {
+  ItemClasses: buildDat(ITEM_CLASSES, [
+    { Id: 'Sword', Name: 'One Hand Sword' },
+    { Id: 'Ring', Name: '' },
+  ]),
+  BaseItemTypes: buildDat(BASE_ITEMS, [
+    { Id: 'Metadata/Rusted', Name: 'Rusted Sword', ItemClass: 0, Upgrade: 1, Tags: [0, 1] },
+    { Id: 'Metadata/Copper', Name: 'Copper Sword', ItemClass: 0, Upgrade: 0, Tags: [] },
+    { Id: 'Metadata/Iron', Name: 'Iron Ring', ItemClass: 1, Upgrade: null, Tags: [5] },
+  ]),
+  Tags: buildDat(TAGS, [
+    { Id: 'weapon', Text: 'Weapon' },
+    { Id: 'sword', Text: null },
+  ]),
+  Drops: buildDat(DROPS, [{ Level: 3, Class: 'Ring', Missing: 0 }]),
+};
+
+function database(loads: string[] = []): DatDatabase {
+  return new DatDatabase(PARSER, tableName => {
+    loads.push(tableName);
+    return TABLES[tableName] ?? null;
+  });
+}
+
+describe('displayValue', () => {
+  test('takes the first column with a non-empty value', () => {
+    expect(displayValue({ Name: '', Id: 'Ring', Text: 'x' })).toBe('Ring');
+    expect(displayValue({ Name: null, Text: 'Weapon' })).toBe('Weapon');
+    expect(displayValue({ Id: 'a', Label: 'b' }, ['Label', 'Id'])).toBe('b');
+    expect(displayValue({ Level: 1 })).toBeUndefined();
+  });
+});
+
+describe('DatDatabase', () => {
+  test('replaces references with the rows they point at', async () => {
+    const db = database();
+    expect(await db.resolve('BaseItemTypes', 0)).toEqual({
+      _rid: 0,
+      Id: 'Metadata/Rusted',
+      Name: 'Rusted Sword',
+      ItemClass: { _rid: 0, Id: 'Sword', Name: 'One Hand Sword' },
+      Upgrade: {
+        _rid: 1,
+        Id: 'Metadata/Copper',
+        Name: 'Copper Sword',
+        ItemClass: 0,
+        Upgrade: 0,
+        Tags: [],
+      },
+      Tags: [
+        { _rid: 0, Id: 'weapon', Text: 'Weapon' },
+        { _rid: 1, Id: 'sword', Text: null },
+      ],
+    });
+  });
+
+  test('follows references as deep as asked, which stops cycles', async () => {
+    const db = database();
+    expect(await db.resolve('BaseItemTypes', 0, { depth: 0 })).toMatchObject({
+      Upgrade: 1,
+      ItemClass: 0,
+    });
+
+    // Rusted → Copper → Rusted → Copper, whose reference back to Rusted stays a row index
+    const resolved = await db.resolve('BaseItemTypes', 0, { depth: 3 });
+    expect(resolved.Upgrade.Id).toBe('Metadata/Copper');
+    expect(resolved.Upgrade.ItemClass.Id).toBe('Sword');
+    expect(resolved.Upgrade.Upgrade.Id).toBe('Metadata/Rusted');
+    expect(resolved.Upgrade.Upgrade.Upgrade.Id).toBe('Metadata/Copper');
+    expect(resolved.Upgrade.Upgrade.Upgrade.Upgrade).toBe(0);
+  });
+
+  test('shows references as a single display value', async () => {
+    const db = database();
+    expect(await db.resolve('BaseItemTypes', 0, { display: true })).toEqual({
+      _rid: 0,
+      Id: 'Metadata/Rusted',
+      Name: 'Rusted Sword',
+      ItemClass: 'One Hand Sword',
+      Upgrade: 'Copper Sword',
+      Tags: ['weapon', 'sword'],
+    });
+    expect(await db.resolve('BaseItemTypes', 0, { display: ['Text'] })).toMatchObject({
+      // No Text column, or no value in it: the reference stays as it was
+      ItemClass: 0,
+      Tags: ['Weapon', 1],
+    });
+  });
+
+  test('leaves null, dangling and unresolvable references as they are', async () => {
+    const db = database();
+    expect(await db.resolve('BaseItemTypes', 2, { display: true })).toMatchObject({
+      // Null reference, then a row past the end of the table
+      Upgrade: null,
+      Tags: [5],
+      // The class's Name is empty, so the display value falls back to its Id
+      ItemClass: 'Ring',
+    });
+    // Matched by Id; the Unknown table isn't in the schema
+    expect(await db.resolve('Drops', 0, { display: true })).toEqual({
+      _rid: 0,
+      Level: 3,
+      Class: 'Ring',
+      Missing: 0,
+    });
+    expect((await db.resolve('Drops', 0)).Class).toEqual({ _rid: 1, Id: 'Ring', Name: '' });
+    expect(await db.resolve('BaseItemTypes', 10)).toBeNull();
+    expect(await db.resolve('Unknown', 0)).toBeNull();
+  });
+
+  test('loads each table once', async () => {
+    const loads: string[] = [];
+    const db = database(loads);
+    await db.resolve('BaseItemTypes', 0, { depth: 3 });
+    await db.resolve('BaseItemTypes', 1, { depth: 3 });
+    expect(loads.sort()).toEqual(['BaseItemTypes', 'ItemClasses', 'Tags']);
+  });
+
+  describe('fromDirectory', () => {
+    let tmp: ReturnType<typeof makeTempDir>;
+
+    beforeAll(() => {
+      tmp = makeTempDir();
+    });
+
+    afterAll(() => {
+      tmp.cleanup();
+    });
+
+    test('reads extracted tables and falls back for the rest', async () => {
+      writeFileSync(join(tmp.path, 'baseitemtypes.datc64'), TABLES.BaseItemTypes);
+      writeFileSync(join(tmp.path, 'ItemClasses.datc64'), TABLES.ItemClasses);
+      const fallback: string[] = [];
+      const db = DatDatabase.fromDirectory(PARSER, tmp.path, tableName => {
+        fallback.push(tableName);
+        return null;
+      });
+
+      expect(await db.resolve('BaseItemTypes', 0, { display: true })).toMatchObject({
+        ItemClass: 'One Hand Sword',
+        Tags: [0, 1],
+      });
+      expect(fallback).toEqual(['Tags']);
+    });
+  });
+});
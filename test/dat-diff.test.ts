@@ -0,0 +1,166 @@
+import { afterAll, beforeAll, describe, expect, mock, spyOn, test } from 'bun:test';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { Config } from '../src/config';
+import { diffRows, pickKeyColumn, toJsonPatch, ROW_ID_COLUMN } from '../src/dat/dat-diff';
+import { diffDatFiles } from '../src/tasks/dat-diff';
+import { buildDat, column, makeTempDir, schema, table } from './fixtures';
+
+/** Rows as DATParser returns them, with `_rid` set from their position */
+function rows(...values: Record<string, unknown>[]): any[] {
+  return values.map((row, i) => ({ [ROW_ID_COLUMN]: i, ...row }));
+}
+
+describe('pickKeyColumn', () => {
+  test('prefers a unique string column', () => {
+    const mods = table('Mods', [
+      column('Hash', 'i32', { unique: true }),
+      column('Tags', 'string', { unique: true, array: true }),
+      column('Id', 'string', { unique: true }),
+    ]);
+    expect(pickKeyColumn(mods)).toBe('Id');
+  });
+
+  test('falls back to another unique scalar column, then the row index', () => {
+    expect(
+      pickKeyColumn(
+        table('Stats', [column('Name', 'string'), column('Hash', 'i32', { unique: true })])
+      )
+    ).toBe('Hash');
+    expect(
+      pickKeyColumn(
+        table('Rows', [
+          column('Name', 'string'),
+          column(null, 'string', { unique: true }),
+          column('Ids', 'i32', { unique: true, array: true }),
+        ])
+      )
+    ).toBe(ROW_ID_COLUMN);
+  });
+});
+
+describe('diffRows', () => {
+  test('matches rows by key, however they moved', () => {
+    const diff = diffRows(
+      'Mods',
+      rows({ Id: 'a', Level: 1 }, { Id: 'b', Level: 2 }, { Id: 'c', Level: 3 }),
+      rows({ Id: 'd', Level: 4 }, { Id: 'c', Level: 3 }, { Id: 'a', Level: 10 }),
+      'Id'
+    );
+
+    expect(diff).toEqual({
+      table: 'Mods',
+      keyColumn: 'Id',
+      added: [{ key: 'd', row: { _rid: 0, Id: 'd', Level: 4 } }],
+      removed: [{ key: 'b', row: { _rid: 1, Id: 'b', Level: 2 } }],
+      modified: [
+        { key: 'a', oldRid: 0, newRid: 2, changes: [{ column: 'Level', before: 1, after: 10 }] },
+      ],
+      // c moved from row 2 to row 1, which isn't a change
+      unchanged: 1,
+    });
+  });
+
+  test('compares arrays by value and reports missing columns as null', () => {
+    const diff = diffRows(
+      'Mods',
+      rows({ Id: 'a', Tags: [1, 2], Old: 5 }, { Id: 'b', Tags: [3] }),
+      rows({ Id: 'a', Tags: [1, 2] }, { Id: 'b', Tags: [3, 4] }),
+      'Id'
+    );
+    expect(diff.modified).toEqual([
+      { key: 'a', oldRid: 0, newRid: 0, changes: [{ column: 'Old', before: 5, after: null }] },
+      {
+        key: 'b',
+        oldRid: 1,
+        newRid: 1,
+        changes: [{ column: 'Tags', before: [3], after: [3, 4] }],
+      },
+    ]);
+  });
+
+  test('numbers repeated keys and keys rows without a value by row index', () => {
+    const diff = diffRows(
+      'Mods',
+      rows({ Id: 'a', Level: 1 }, { Id: 'a', Level: 2 }, { Id: null, Level: 3 }),
+      rows({ Id: 'a', Level: 1 }, { Id: 'a', Level: 20 }, { Id: 'a', Level: 30 }),
+      'Id'
+    );
+    expect(diff.modified.map(row => row.key)).toEqual(['a#2']);
+    expect(diff.removed.map(row => row.key)).toEqual(['#rid:2']);
+    expect(diff.added.map(row => row.key)).toEqual(['a#3']);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  test('never confuses generated keys with real values', () => {
+    const diff = diffRows(
+      'Mods',
+      rows({ Id: 'a' }, { Id: 'a' }, { Id: null }, { Id: '' }, { Id: '' }),
+      rows({ Id: 'a#2' }, { Id: '#rid:2' }, { Id: '#2' }),
+      'Id'
+    );
+    expect(diff.removed.map(row => row.key)).toEqual(['a', 'a#2', '#rid:2', '', '#2']);
+    expect(diff.added.map(row => row.key)).toEqual(['a##2', '##rid:2', '##2']);
+    expect(diff.modified).toEqual([]);
+  });
+});
+
+describe('toJsonPatch', () => {
+  test('removes, replaces and adds rows by escaped key', () => {
+    const diff = diffRows(
+      'Mods',
+      rows({ Id: 'old/one', Level: 1 }, { Id: 'keep~me', Level: 2 }),
+      rows({ Id: 'keep~me', Level: 3 }, { Id: 'new', Level: 4 }),
+      'Id'
+    );
+    expect(toJsonPatch(diff)).toEqual([
+      { op: 'remove', path: '/old~1one' },
+      { op: 'replace', path: '/keep~0me/Level', value: 3 },
+      { op: 'add', path: '/new', value: { _rid: 1, Id: 'new', Level: 4 } },
+    ]);
+  });
+});
+
+describe('diffDatFiles', () => {
+  const MODS = table('Mods', [column('Id', 'string', { unique: true }), column('Level', 'i32')]);
+  let tmp: ReturnType<typeof makeTempDir>;
+
+  beforeAll(() => {
+    tmp = makeTempDir();
+    spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    mock.restore();
+    tmp.cleanup();
+  });
+
+  test('writes a JSON patch between two table files', async () => {
+    const schemaPath = join(tmp.path, 'schema.min.json');
+    writeFileSync(schemaPath, JSON.stringify(schema([MODS])));
+    const oldPath = join(tmp.path, 'old', 'Mods.datc64');
+    const newPath = join(tmp.path, 'new', 'Mods.datc64');
+    mkdirSync(dirname(oldPath));
+    mkdirSync(dirname(newPath));
+    writeFileSync(
+      oldPath,
+      buildDat(MODS, [
+        { Id: 'a', Level: 1 },
+        { Id: 'b', Level: 2 },
+      ])
+    );
+    writeFileSync(newPath, buildDat(MODS, [{ Id: 'b', Level: 5 }]));
+    const output = join(tmp.path, 'mods.patch.json');
+
+    const diff = await diffDatFiles(oldPath, newPath, { schemaPath } as Config, {
+      format: 'json',
+      output,
+    });
+
+    expect(diff.keyColumn).toBe('Id');
+    expect(JSON.parse(readFileSync(output, 'utf-8'))).toEqual([
+      { op: 'remove', path: '/a' },
+      { op: 'replace', path: '/b/Level', value: 5 },
+    ]);
+  });
+});
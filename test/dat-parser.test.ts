@@ -0,0 +1,285 @@
+import { afterAll, beforeAll, describe, expect, mock, spyOn, test } from 'bun:test';
+import { existsSync, mkdirSync, readFileSync, truncateSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  DATParser,
+  MAX_DAT_FILE_SIZE,
+  parseAllDatFiles,
+  readDatLayout,
+} from '../src/dat/dat-parser';
+import { parseAllDatFilesParallel } from '../src/dat/parallel-parser';
+import { buildDat, column, enumeration, makeTempDir, schema, table } from './fixtures';
+
+const ITEMS = table('Items', [
+  column('Id', 'string', { unique: true }),
+  column('Level', 'i32'),
+  column('Flag', 'bool'),
+  column('Weight', 'f32'),
+  column('Small', 'i16'),
+  column('Count', 'u16'),
+  column('Big', 'u32'),
+  column('Parent', 'row'),
+  column('Base', 'foreignrow', { references: { table: 'Bases' } }),
+  column('Tags', 'string', { array: true }),
+  column('Values', 'i32', { array: true }),
+  column(null, 'i32'),
+]);
+
+const ROWS = [
+  {
+    Id: 'First',
+    Level: 10,
+    Flag: true,
+    Weight: 1.5,
+    Small: -2,
+    Count: 65535,
+    Big: 4000000000,
+    Parent: null,
+    Base: 3,
+    Tags: ['a', 'bc'],
+    Values: [1, -2, 3],
+    _unknown11: 7,
+  },
+  {
+    Id: null,
+    Level: -1,
+    Flag: false,
+    Weight: 0,
+    Small: 0,
+    Count: 0,
+    Big: 0,
+    Parent: 0,
+    Base: null,
+    Tags: [],
+    Values: [],
+    _unknown11: 0,
+  },
+];
+
+describe('DATParser', () => {
+  const parser = new DATParser(schema([ITEMS]));
+
+  test('reads every column type back', () => {
+    const result = parser.parse(buildDat(ITEMS, ROWS), 'items');
+    expect(result.error).toBeUndefined();
+    expect(result.rowCount).toBe(2);
+    expect(result.rows).toEqual(ROWS.map((row, rid) => ({ _rid: rid, ...row })));
+  });
+
+  test('reads -1 and -2 as null references too', () => {
+    const refs = table('Refs', [
+      column('Name', 'string'),
+      column('Parent', 'row'),
+      column('Base', 'foreignrow'),
+    ]);
+    const buffer = buildDat(refs, [{ Name: null, Parent: null, Base: null }]);
+    buffer.writeBigInt64LE(-1n, 4);
+    buffer.writeBigInt64LE(-1n, 12);
+    buffer.writeBigInt64LE(-2n, 20);
+    expect(new DATParser(schema([refs])).parse(buffer, 'Refs').rows).toEqual([
+      { _rid: 0, Name: null, Parent: null, Base: null },
+    ]);
+  });
+
+  test('parses tables with no rows', () => {
+    expect(parser.parse(buildDat(ITEMS, []), 'Items')).toEqual({ rows: [], rowCount: 0 });
+  });
+
+  test('locates the fixed and variable sections', () => {
+    const buffer = buildDat(ITEMS, ROWS);
+    const rowSize = parser.getSchemaRowSize('Items')!;
+    expect(readDatLayout(buffer)).toEqual({
+      rowCount: 2,
+      rowSize,
+      fixedDataStart: 4,
+      variableDataStart: 4 + 2 * rowSize,
+    });
+  });
+
+  test('reports unknown tables and unreadable files', () => {
+    expect(parser.parse(Buffer.alloc(16), 'Missing').error).toBe('Unknown table: Missing');
+    expect(parser.parse(Buffer.from([1, 0, 0, 0, 0]), 'Items').error).toBe('Magic bytes not found');
+  });
+
+  test('uses the row size in the file when the schema is short', () => {
+    const short = table('Items', ITEMS.columns.slice(0, 2));
+    const result = new DATParser(schema([short])).parse(buildDat(ITEMS, ROWS), 'Items');
+    expect(result.rows).toEqual([
+      { _rid: 0, Id: 'First', Level: 10 },
+      { _rid: 1, Id: null, Level: -1 },
+    ]);
+  });
+
+  test('iterates rows one at a time', () => {
+    const rows = parser.iterateRows(buildDat(ITEMS, ROWS), 'Items');
+    expect(rows.next().value).toMatchObject({ _rid: 0, Id: 'First' });
+    expect(rows.next().value).toMatchObject({ _rid: 1, Id: null });
+    expect(rows.next().done).toBe(true);
+    expect(() => parser.iterateRows(Buffer.alloc(4), 'Missing').next()).toThrow('Unknown table');
+  });
+
+  test('stops at a row that fails to parse, reporting its index', () => {
+    const failing = new DATParser(schema([ITEMS]));
+    spyOn(failing as any, 'readRows').mockImplementation(function* () {
+      yield { _rid: 0 };
+      throw new Error('bad row');
+    });
+    const buffer = buildDat(ITEMS, ROWS);
+
+    const status: { error?: string } = {};
+    expect(Array.from(failing.iterateRows(buffer, 'Items', status))).toEqual([{ _rid: 0 }]);
+    expect(status.error).toBe('Parse error at row 1: Error: bad row');
+    expect(() => Array.from(failing.iterateRows(buffer, 'Items'))).toThrow('Parse error at row 1');
+  });
+
+  test('lists column names in row order', () => {
+    expect(parser.getColumnNames('Items')).toEqual([
+      '_rid',
+      ...ITEMS.columns.map((col, i) => col.name ?? `_unknown${i}`),
+    ]);
+  });
+
+  test('parses a file named after its table', () => {
+    const result = parser.parseNamed(buildDat(ITEMS, ROWS), '/tmp/data/items.datc64');
+    expect(result.tableName).toBe('items');
+    expect(result.rowCount).toBe(2);
+  });
+});
+
+describe('DATParser enumerations', () => {
+  const RARITY = enumeration('Rarity', ['Normal', 'Magic', 'Rare', null], 1);
+  const LOOT = table('Loot', [
+    column('Rarity', 'enumrow', { references: { table: 'Rarity' } }),
+    column('Allowed', 'enumrow', { array: true, references: { table: 'Rarity' } }),
+  ]);
+  const buffer = buildDat(LOOT, [
+    { Rarity: 2, Allowed: [1, 3] },
+    { Rarity: 4, Allowed: [] },
+  ]);
+
+  test('maps values to enumerator names', () => {
+    const parser = new DATParser(schema([LOOT], [RARITY]));
+    expect(parser.parse(buffer, 'Loot').rows).toEqual([
+      { _rid: 0, Rarity: 'Magic', Allowed: ['Normal', 'Rare'] },
+      // Enumerators without a name stay numbers
+      { _rid: 1, Rarity: 4, Allowed: [] },
+    ]);
+  });
+
+  test('keeps numeric values on request', () => {
+    const parser = new DATParser(schema([LOOT], [RARITY]), true, { keepEnumValues: true });
+    expect(parser.parse(buffer, 'Loot').rows[0]).toEqual({
+      _rid: 0,
+      Rarity: 'Magic',
+      Rarity_value: 2,
+      Allowed: ['Normal', 'Rare'],
+      Allowed_value: [1, 3],
+    });
+    expect(parser.getColumnNames('Loot')).toEqual([
+      '_rid',
+      'Rarity',
+      'Rarity_value',
+      'Allowed',
+      'Allowed_value',
+    ]);
+  });
+
+  test('leaves values alone without the enumeration', () => {
+    const parser = new DATParser(schema([LOOT]));
+    expect(parser.parse(buffer, 'Loot').rows[0]).toEqual({ _rid: 0, Rarity: 2, Allowed: [1, 3] });
+  });
+});
+
+describe('DATParser intervals and wide integers', () => {
+  const RANGES = table('Ranges', [
+    column('Level', 'i32', { interval: true }),
+    column('Levels', 'i32', { interval: true, array: true }),
+    column('Tiny', 'i8'),
+    column('Byte', 'u8'),
+    column('Signed', 'i64'),
+    column('Unsigned', 'u64'),
+  ]);
+  const parser = new DATParser(schema([RANGES]));
+
+  test('reads intervals as [min, max] pairs', () => {
+    const rows = [
+      {
+        Level: [1, 68],
+        Levels: [
+          [2, 3],
+          [4, 5],
+        ],
+        Tiny: -3,
+        Byte: 200,
+        Signed: -5,
+        Unsigned: 6,
+      },
+    ];
+    expect(parser.getSchemaRowSize('Ranges')).toBe(8 + 16 + 1 + 1 + 8 + 8);
+    expect(parser.parse(buildDat(RANGES, rows), 'Ranges').rows).toEqual([{ _rid: 0, ...rows[0] }]);
+  });
+
+  test('keeps 64-bit values beyond the safe integer range as strings', () => {
+    const row = parser.parse(
+      buildDat(RANGES, [{ Signed: '-9007199254740993', Unsigned: '18446744073709551615' }]),
+      'Ranges'
+    ).rows[0];
+    expect(row.Signed).toBe('-9007199254740993');
+    expect(row.Unsigned).toBe('18446744073709551615');
+  });
+});
+
+describe('parse-all', () => {
+  const TAGS = table('Tags', [column('Id', 'string')]);
+  let tmp: ReturnType<typeof makeTempDir>;
+  let schemaPath: string;
+  let inputDir: string;
+
+  beforeAll(() => {
+    tmp = makeTempDir();
+    for (const method of ['log', 'warn', 'error'] as const) {
+      spyOn(console, method).mockImplementation(() => {});
+    }
+    spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    schemaPath = join(tmp.path, 'schema.min.json');
+    writeFileSync(schemaPath, JSON.stringify(schema([TAGS, table('Huge', [column('Id', 'i32')])])));
+    inputDir = join(tmp.path, 'data');
+    mkdirSync(inputDir);
+    writeFileSync(join(inputDir, 'Tags.datc64'), buildDat(TAGS, [{ Id: 'weapon' }]));
+    // Sparse, so the oversized table takes no disk space
+    writeFileSync(join(inputDir, 'Huge.datc64'), '');
+    truncateSync(join(inputDir, 'Huge.datc64'), MAX_DAT_FILE_SIZE + 1);
+  });
+
+  afterAll(() => {
+    mock.restore();
+    tmp.cleanup();
+  });
+
+  test('skips files too large to read into memory', async () => {
+    const outputDir = join(tmp.path, 'sequential');
+    expect(await parseAllDatFiles(inputDir, outputDir, schemaPath, { useCache: false })).toEqual({
+      success: 1,
+      partial: 0,
+      failed: 1,
+      skipped: 0,
+      cached: 0,
+    });
+    expect(JSON.parse(readFileSync(join(outputDir, 'Tags.json'), 'utf-8'))).toEqual([
+      { _rid: 0, Id: 'weapon' },
+    ]);
+    expect(existsSync(join(outputDir, 'Huge.json'))).toBe(false);
+  });
+
+  test('skips files too large to read into memory in workers', async () => {
+    const outputDir = join(tmp.path, 'parallel');
+    const result = await parseAllDatFilesParallel(inputDir, outputDir, schemaPath, {
+      concurrency: 1,
+      useCache: false,
+    });
+    expect(result).toMatchObject({ success: 1, failed: 1, totalRows: 1 });
+    expect(console.warn).toHaveBeenCalledWith('[!]', 'Failed: Huge: File too large: 100.0MB');
+    expect(existsSync(join(outputDir, 'Huge.json'))).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, test } from 'bun:test';
+import { DATParser } from '../src/dat/dat-parser';
+import { summarizeGuess, validateTable } from '../src/dat/dat-validator';
+import { buildDat, column, schema, table } from './fixtures';
+
+const KNOWN = [column('Id', 'string'), column('Level', 'i32')];
+const KNOWN_ROWS = [
+  { Id: 'First', Level: 1 },
+  { Id: 'Second', Level: 20 },
+  { Id: 'Third', Level: 300 },
+];
+
+/**
+ * Validate a table written with `extra` columns after KNOWN against a schema that
+ * only has KNOWN
+ */
+function validateExtra(extra: ReturnType<typeof column>[], values: Record<string, unknown>[]) {
+  const full = table('Items', [...KNOWN, ...extra]);
+  const rows = KNOWN_ROWS.map((row, i) => ({ ...row, ...values[i] }));
+  const parser = new DATParser(schema([table('Items', KNOWN)]));
+  return validateTable(parser, buildDat(full, rows), 'Items');
+}
+
+describe('validateTable', () => {
+  test('accepts tables whose row size matches the schema', () => {
+    const parser = new DATParser(schema([table('Items', KNOWN)]));
+    expect(validateTable(parser, buildDat(table('Items', KNOWN), KNOWN_ROWS), 'Items')).toEqual({
+      table: 'Items',
+      status: 'ok',
+      rowCount: 3,
+      schemaRowSize: 12,
+      actualRowSize: 12,
+      delta: 0,
+      unreadBytes: null,
+      overflowingColumns: [],
+      guess: [],
+      guessSummary: null,
+    });
+  });
+
+  test('reports empty tables, unknown tables and unreadable files', () => {
+    const parser = new DATParser(schema([table('Items', KNOWN)]));
+    expect(validateTable(parser, buildDat(table('Items', KNOWN), []), 'Items').status).toBe(
+      'empty'
+    );
+    expect(validateTable(parser, Buffer.alloc(16), 'Missing')).toMatchObject({
+      status: 'error',
+      error: 'No schema for table',
+    });
+    expect(validateTable(parser, Buffer.from([1, 0, 0, 0, 0]), 'Items')).toMatchObject({
+      status: 'error',
+      error: 'Magic bytes not found',
+    });
+  });
+
+  test('guesses a missing foreignrow and bool', () => {
+    const result = validateExtra(
+      [column('Base', 'foreignrow'), column('Flag', 'bool')],
+      [
+        { Base: 3, Flag: true },
+        { Base: null, Flag: false },
+        { Base: 0, Flag: true },
+      ]
+    );
+    expect(result).toMatchObject({
+      status: 'mismatch',
+      schemaRowSize: 12,
+      actualRowSize: 29,
+      delta: 17,
+      unreadBytes: { offset: 12, size: 17 },
+      guessSummary: '1 foreignrow + 1 bool',
+    });
+    expect(result.guess).toEqual([
+      { type: 'foreignrow', offset: 12, size: 16 },
+      { type: 'bool', offset: 28, size: 1 },
+    ]);
+  });
+
+  test('guesses missing strings, arrays and row references', () => {
+    const result = validateExtra(
+      [column('Name', 'string'), column('Tags', 'i32', { array: true }), column('Next', 'row')],
+      [
+        { Name: 'a', Tags: [1, 2], Next: 1 },
+        { Name: 'bc', Tags: [3], Next: 2 },
+        { Name: 'd', Tags: [4, 5, 6], Next: 0 },
+      ]
+    );
+    expect(result.guessSummary).toBe('1 string + 1 array + 1 row');
+  });
+
+  test('guesses missing 32-bit integers', () => {
+    const result = validateExtra(
+      [column('A', 'i32'), column('B', 'i32')],
+      [
+        { A: -5, B: 1 << 30 },
+        { A: 100000000, B: -1 },
+        { A: 7, B: 0 },
+      ]
+    );
+    expect(result.guessSummary).toBe('2 i32');
+  });
+
+  test('guesses a missing 64-bit integer as one column', () => {
+    const result = validateExtra(
+      [column('Big', 'u64')],
+      [{ Big: '18446744073709551615' }, { Big: '18446744073689551616' }, { Big: 123456789 }]
+    );
+    expect(result.guess).toEqual([{ type: 'i64', offset: 12, size: 8 }]);
+    expect(result.guessSummary).toBe('1 i64');
+  });
+
+  test('lists schema columns that overflow a shorter row', () => {
+    const parser = new DATParser(
+      schema([table('Items', [...KNOWN, column('Base', 'foreignrow'), column('Flag', 'bool')])])
+    );
+    const result = validateTable(parser, buildDat(table('Items', KNOWN), KNOWN_ROWS), 'Items');
+    expect(result).toMatchObject({ status: 'mismatch', delta: -17, unreadBytes: null });
+    expect(result.overflowingColumns).toEqual([
+      { name: 'Base', type: 'foreignrow', offset: 12, size: 16 },
+      { name: 'Flag', type: 'bool', offset: 28, size: 1 },
+    ]);
+  });
+});
+
+describe('summarizeGuess', () => {
+  test('counts columns per type in order of first appearance', () => {
+    expect(
+      summarizeGuess([
+        { type: 'i32', offset: 0, size: 4 },
+        { type: 'bool', offset: 4, size: 1 },
+        { type: 'i32', offset: 5, size: 4 },
+      ])
+    ).toBe('2 i32 + 1 bool');
+  });
+});
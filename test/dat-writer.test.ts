@@ -0,0 +1,142 @@
+import { describe, expect, test } from 'bun:test';
+import { DATParser } from '../src/dat/dat-parser';
+import { DATWriter } from '../src/dat/dat-writer';
+import { buildDat, column, enumeration, schema, table } from './fixtures';
+
+const RARITY = enumeration('Rarity', ['Normal', 'Magic', 'Rare'], 1);
+
+const ITEMS = table('Items', [
+  column('Id', 'string', { unique: true }),
+  column('Level', 'i32', { interval: true }),
+  column('Flag', 'bool'),
+  column('Weight', 'f32'),
+  column('Tiny', 'i8'),
+  column('Count', 'u16'),
+  column('Big', 'u64'),
+  column('Parent', 'row'),
+  column('Base', 'foreignrow', { references: { table: 'Bases' } }),
+  column('Rarity', 'enumrow', { references: { table: 'Rarity' } }),
+  column('Tags', 'string', { array: true }),
+  column('Values', 'i32', { array: true }),
+  column(null, 'i64'),
+]);
+
+const ROWS = [
+  {
+    Id: 'First',
+    Level: [1, 68],
+    Flag: true,
+    Weight: 1.5,
+    Tiny: -3,
+    Count: 65535,
+    Big: '18446744073709551615',
+    Parent: null,
+    Base: 3,
+    Rarity: 2,
+    Tags: ['a', 'bc', 'a'],
+    Values: [1, -2, 3],
+    _unknown12: -7,
+  },
+  {
+    Id: null,
+    Level: [0, 0],
+    Flag: false,
+    Weight: 0,
+    Tiny: 0,
+    Count: 0,
+    Big: 0,
+    Parent: 0,
+    Base: null,
+    Rarity: 3,
+    Tags: [],
+    Values: [],
+    _unknown12: 0,
+  },
+  {
+    // Strings already written by the first row, and an empty array after a full one
+    Id: 'bc',
+    Level: [2, 3],
+    Flag: true,
+    Weight: -0.25,
+    Tiny: 1,
+    Count: 1,
+    Big: 1,
+    Parent: 1,
+    Base: 0,
+    Rarity: 1,
+    Tags: ['First', '', 'a'],
+    Values: [],
+    _unknown12: '-9223372036854775808',
+  },
+];
+
+const SCHEMA = schema([ITEMS], [RARITY]);
+
+describe('DATWriter', () => {
+  test('writes rows that parse back unchanged', () => {
+    const buffer = new DATWriter().write(ROWS, ITEMS);
+    const result = new DATParser(schema([ITEMS])).parse(buffer, 'Items');
+    expect(result.error).toBeUndefined();
+    expect(result.rows).toEqual(ROWS.map((row, rid) => ({ _rid: rid, ...row })));
+  });
+
+  test('writes parsed rows back byte for byte', () => {
+    // Encoded independently of DATWriter, with shared strings and empty arrays
+    const original = buildDat(ITEMS, ROWS);
+    const parser = new DATParser(SCHEMA);
+    const parsed = parser.parse(original, 'Items').rows;
+    expect(parsed[0].Rarity).toBe('Magic');
+
+    expect(new DATWriter(SCHEMA).write(parsed, ITEMS).equals(original)).toBe(true);
+    expect(new DATWriter(SCHEMA).write([], ITEMS).equals(buildDat(ITEMS, []))).toBe(true);
+  });
+
+  test('stores identical strings once', () => {
+    const names = table('Names', [
+      column('Name', 'string'),
+      column('Aliases', 'string', { array: true }),
+    ]);
+    const buffer = new DATWriter().write(
+      [
+        { Name: 'Sword', Aliases: ['Blade', 'Sword'] },
+        { Name: 'Blade', Aliases: [] },
+      ],
+      names
+    );
+    const stringOffset = (pos: number) => buffer.readBigUInt64LE(pos);
+    const rowSize = 24;
+    const variableDataStart = 4 + 2 * rowSize;
+    const aliases = variableDataStart + Number(buffer.readBigUInt64LE(4 + 16));
+
+    // Sword, Blade, then the two alias offsets; the empty array points past them
+    expect(stringOffset(aliases)).toBe(stringOffset(4 + rowSize));
+    expect(stringOffset(aliases + 8)).toBe(stringOffset(4));
+    expect(buffer.readBigUInt64LE(4 + rowSize + 16)).toBe(
+      BigInt(buffer.length - variableDataStart)
+    );
+    expect(buffer.length - variableDataStart).toBe(8 + 14 + 14 + 16);
+  });
+
+  test('rewrites its own output byte for byte', () => {
+    const writer = new DATWriter(SCHEMA);
+    const first = writer.write(ROWS, ITEMS);
+    const second = writer.write(new DATParser(SCHEMA).parse(first, 'Items').rows, ITEMS);
+    expect(second.equals(first)).toBe(true);
+  });
+
+  test('takes enumrow numbers from keepEnumValues output', () => {
+    const parser = new DATParser(SCHEMA, true, { keepEnumValues: true });
+    const parsed = parser.parse(new DATWriter().write(ROWS, ITEMS), 'Items').rows;
+    expect(parsed[0]).toMatchObject({ Rarity: 'Magic', Rarity_value: 2 });
+    // Without the enumeration, names could not be mapped back
+    expect(new DATWriter().write(parsed, ITEMS).equals(new DATWriter().write(ROWS, ITEMS))).toBe(
+      true
+    );
+  });
+
+  test('rejects enumerator names the enumeration does not have', () => {
+    expect(() => new DATWriter(SCHEMA).write([{ Rarity: 'Unique' }], ITEMS)).toThrow(
+      'Unknown enumerator Unique'
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { afterAll, beforeAll, describe, expect, mock, test } from 'bun:test';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { runExtractionPipeline } from '../src/extraction/extraction-pipeline';
+import { loadManifest } from '../src/extraction/extraction-manifest';
+import * as decompressor from '../src/ggpk/decompressor';
+import {
+  buildDat,
+  column,
+  makeTempDir,
+  schema,
+  storedBlockDecompressor,
+  table,
+  writeBundles2,
+  type BundleFixture,
+} from './fixtures';
+
+const MODS = table('Mods', [column('Id', 'string'), column('Level', 'i32')]);
+const MODS_DAT = buildDat(MODS, [
+  { Id: 'Strength1', Level: 1 },
+  { Id: 'Strength2', Level: 11 },
+]);
+
+let tmp: ReturnType<typeof makeTempDir>;
+let outputDir: string;
+let schemaPath: string;
+const originalDecompressor = { ...decompressor };
+
+beforeAll(() => {
+  tmp = makeTempDir();
+  outputDir = join(tmp.path, 'extracted');
+  schemaPath = join(tmp.path, 'schema.min.json');
+  writeFileSync(
+    schemaPath,
+    JSON.stringify(schema([MODS, table('Empty', MODS.columns), table('Broken', MODS.columns)]))
+  );
+  // The fixture bundles are stored uncompressed, so Oodle isn't needed to read them
+  mock.module('../src/ggpk/decompressor', () => ({
+    ...originalDecompressor,
+    createBlockDecompressor: () => storedBlockDecompressor,
+  }));
+});
+
+afterAll(() => {
+  mock.module('../src/ggpk/decompressor', () => originalDecompressor);
+  tmp.cleanup();
+});
+
+/**
+ * Write a Steam install for one run. Opened installs are cached by path, so each
+ * version of the archive gets its own directory.
+ */
+function install(name: string, bundles: BundleFixture[]): string {
+  const gameDir = join(tmp.path, name);
+  writeBundles2(join(gameDir, 'Bundles2'), bundles);
+  return gameDir;
+}
+
+function extract(ggpkPath: string) {
+  return runExtractionPipeline('.*', {
+    ggpkPath,
+    outputDir,
+    schemaPath,
+    convertImages: false,
+  });
+}
+
+describe('runExtractionPipeline', () => {
+  test('extracts, skips unchanged files and follows files that moved', async () => {
+    const first = await extract(
+      install('v1', [
+        {
+          name: 'Folders/data',
+          files: {
+            'data/mods.datc64': MODS_DAT,
+            'data/empty.datc64': buildDat(MODS, []),
+            'data/broken.datc64': 'not a table',
+          },
+        },
+        { name: 'Folders/misc', files: { 'readme.txt': 'hello' } },
+      ])
+    );
+
+    expect(first).toMatchObject({
+      extracted: 4,
+      skipped: 0,
+      removed: 0,
+      data: { parsed: 2, failed: 1 },
+    });
+    expect(JSON.parse(readFileSync(join(outputDir, 'data/mods.json'), 'utf-8')).rows).toEqual([
+      { _rid: 0, Id: 'Strength1', Level: 1 },
+      { _rid: 1, Id: 'Strength2', Level: 11 },
+    ]);
+    // A table with no rows is still a successful parse
+    expect(JSON.parse(readFileSync(join(outputDir, 'data/empty.json'), 'utf-8')).rows).toEqual([]);
+    expect(existsSync(join(outputDir, 'data/empty.datc64'))).toBe(false);
+    // A failed conversion keeps the extracted file and is recorded as failed
+    expect(existsSync(join(outputDir, 'data/broken.datc64'))).toBe(true);
+
+    let manifest = await loadManifest(outputDir);
+    expect(manifest.files['data/mods.datc64'].outputs).toEqual(['data/mods.json']);
+    expect(manifest.files['data/broken.datc64']).toMatchObject({
+      outputs: ['data/broken.datc64'],
+      failed: true,
+    });
+    expect(manifest.files['readme.txt']).toMatchObject({ bundle: 'Folders/misc', offset: 0 });
+
+    // Nothing changed, including the failed conversion, so nothing is extracted again
+    const second = await extract(join(tmp.path, 'v1'));
+    expect(second).toMatchObject({
+      extracted: 0,
+      skipped: 4,
+      removed: 0,
+      data: { parsed: 0, failed: 0 },
+    });
+
+    // readme.txt moves behind a new file with the same contents, and broken.datc64 is gone
+    const third = await extract(
+      install('v2', [
+        {
+          name: 'Folders/data',
+          files: { 'data/mods.datc64': MODS_DAT, 'data/empty.datc64': buildDat(MODS, []) },
+        },
+        { name: 'Folders/misc', files: { 'notes.txt': 'new file', 'readme.txt': 'hello' } },
+      ])
+    );
+    expect(third).toMatchObject({ extracted: 1, skipped: 3, removed: 1 });
+    expect(readFileSync(join(outputDir, 'notes.txt'), 'utf-8')).toBe('new file');
+    expect(existsSync(join(outputDir, 'data/broken.datc64'))).toBe(false);
+
+    manifest = await loadManifest(outputDir);
+    expect(Object.keys(manifest.files).sort()).toEqual([
+      'data/empty.datc64',
+      'data/mods.datc64',
+      'notes.txt',
+      'readme.txt',
+    ]);
+    expect(manifest.files['readme.txt']).toMatchObject({ bundle: 'Folders/misc', offset: 8 });
+  });
+
+  test('converts a failed file again once its contents change', async () => {
+    const bundles = (broken: string | Buffer): BundleFixture[] => [
+      { name: 'Folders/data', files: { 'data/broken.datc64': broken } },
+    ];
+    await extract(install('fail-v1', bundles('still not a table')));
+
+    const fixed = await extract(install('fail-v2', bundles(MODS_DAT)));
+    expect(fixed).toMatchObject({ extracted: 1, data: { parsed: 1, failed: 0 } });
+    expect(existsSync(join(outputDir, 'data/broken.json'))).toBe(true);
+    expect(existsSync(join(outputDir, 'data/broken.datc64'))).toBe(false);
+    expect((await loadManifest(outputDir)).files['data/broken.datc64']).toEqual({
+      hash: expect.any(String),
+      size: MODS_DAT.length,
+      bundle: 'Folders/data',
+      offset: 0,
+      outputs: ['data/broken.json'],
+    });
+  });
+});
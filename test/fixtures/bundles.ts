@@ -0,0 +1,211 @@
+// Synthetic Bundles2 data
+// Bundles are written with uncompressed ("stored") blocks so they can be read back
+// with storedBlockDecompressor instead of the native Oodle library.
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { murmurHash64A } from '../../src/ggpk/hash';
+import { BUNDLE_SUFFIX, INDEX_FILE_NAME } from '../../src/ggpk/bundle-source';
+import type { BlockDecompressor } from '../../src/ggpk/decompressor';
+import type { FixtureTree } from './ggpk';
+
+/** Compressor id for blocks that are stored as-is */
+export const STORED_COMPRESSOR = 3;
+export const DEFAULT_GRANULARITY = 256 * 1024;
+
+export interface BundleFixture {
+  /** Bundle name without the .bundle.bin suffix, e.g. "Folders/data" */
+  name: string;
+  /** Files stored in the bundle, keyed by virtual path */
+  files: { [path: string]: string | Uint8Array };
+}
+
+/**
+ * Stands in for Oodle: stored blocks already hold the decompressed bytes
+ */
+export const storedBlockDecompressor: BlockDecompressor = {
+  name: 'stored',
+  decompress(block: Buffer, uncompressedSize: number): Buffer {
+    if (block.length !== uncompressedSize) {
+      throw new Error(`Stored block is ${block.length} bytes, expected ${uncompressedSize}`);
+    }
+    return Buffer.from(block);
+  },
+};
+
+function u32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+function u64(value: bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value);
+  return buffer;
+}
+
+function toBuffer(data: string | Uint8Array): Buffer {
+  return typeof data === 'string' ? Buffer.from(data) : Buffer.from(data);
+}
+
+/**
+ * Wrap data in a bundle split into stored blocks of `granularity` bytes
+ */
+export function buildBundle(data: Uint8Array, granularity = DEFAULT_GRANULARITY): Buffer {
+  const blocks: Buffer[] = [];
+  for (let start = 0; start < data.length; start += granularity) {
+    blocks.push(Buffer.from(data.subarray(start, start + granularity)));
+  }
+
+  const head = Buffer.alloc(48 + blocks.length * 4);
+  head.writeUInt32LE(STORED_COMPRESSOR, 0);
+  head.writeUInt32LE(1, 4);
+  head.writeBigUInt64LE(BigInt(data.length), 8);
+  head.writeBigUInt64LE(BigInt(data.length), 16);
+  head.writeUInt32LE(blocks.length, 24);
+  head.writeUInt32LE(granularity, 28);
+  blocks.forEach((block, i) => head.writeUInt32LE(block.length, 48 + i * 4));
+
+  const outer = Buffer.concat([u32(data.length), u32(data.length), u32(head.length)]);
+  return Buffer.concat([outer, head, ...blocks]);
+}
+
+/**
+ * Encode paths grouped by directory: each directory record enters base mode,
+ * adds "dir/" as base 1, then lists its file names relative to it
+ */
+function buildPathRepresentation(paths: string[]): {
+  data: Buffer;
+  directories: { path: string; offset: number; size: number }[];
+} {
+  const byDirectory = new Map<string, string[]>();
+  for (const path of paths) {
+    const slash = path.lastIndexOf('/');
+    const dir = slash === -1 ? '' : path.slice(0, slash);
+    const names = byDirectory.get(dir) ?? [];
+    names.push(path.slice(slash + 1));
+    byDirectory.set(dir, names);
+  }
+
+  const parts: Buffer[] = [];
+  const directories: { path: string; offset: number; size: number }[] = [];
+  let offset = 0;
+
+  for (const [dir, names] of byDirectory) {
+    const segment = Buffer.concat([
+      u32(0),
+      u32(1),
+      Buffer.from(dir ? `${dir}/\0` : '\0'),
+      u32(0),
+      ...names.flatMap(name => [u32(1), Buffer.from(`${name}\0`)]),
+    ]);
+    directories.push({ path: dir, offset, size: segment.length });
+    parts.push(segment);
+    offset += segment.length;
+  }
+
+  return { data: Buffer.concat(parts), directories };
+}
+
+/**
+ * Build an `_.index.bin` and the bundle files it describes.
+ * Returned bundle keys are file names relative to Bundles2 (e.g. "Folders/data.bundle.bin").
+ */
+export function buildBundles(
+  bundles: BundleFixture[],
+  granularity = DEFAULT_GRANULARITY
+): { index: Buffer; bundleFiles: Map<string, Buffer> } {
+  const bundleFiles = new Map<string, Buffer>();
+  const bundleRecords: Buffer[] = [];
+  const fileRecords: Buffer[] = [];
+  const paths: string[] = [];
+
+  bundles.forEach((bundle, bundleIndex) => {
+    const contents: Buffer[] = [];
+    let offset = 0;
+
+    for (const [path, value] of Object.entries(bundle.files)) {
+      const data = toBuffer(value);
+      fileRecords.push(
+        Buffer.concat([
+          u64(murmurHash64A(Buffer.from(path.toLowerCase()))),
+          u32(bundleIndex),
+          u32(offset),
+          u32(data.length),
+        ])
+      );
+      paths.push(path);
+      contents.push(data);
+      offset += data.length;
+    }
+
+    const name = Buffer.from(bundle.name);
+    bundleRecords.push(u32(name.length), name, u32(offset));
+    bundleFiles.set(bundle.name + BUNDLE_SUFFIX, buildBundle(Buffer.concat(contents), granularity));
+  });
+
+  const pathRepresentation = buildPathRepresentation(paths);
+  const directoryRecords = pathRepresentation.directories.map(dir =>
+    Buffer.concat([
+      u64(murmurHash64A(Buffer.from(dir.path.toLowerCase()))),
+      u32(dir.offset),
+      u32(dir.size),
+      u32(dir.size),
+    ])
+  );
+
+  const indexData = Buffer.concat([
+    u32(bundles.length),
+    ...bundleRecords,
+    u32(fileRecords.length),
+    ...fileRecords,
+    u32(directoryRecords.length),
+    ...directoryRecords,
+    buildBundle(pathRepresentation.data, granularity),
+  ]);
+
+  return { index: buildBundle(indexData, granularity), bundleFiles };
+}
+
+/**
+ * The Bundles2 directory as a tree, for embedding in a GGPK with buildGGPK({ Bundles2: ... })
+ */
+export function bundles2Tree(
+  bundles: BundleFixture[],
+  granularity = DEFAULT_GRANULARITY
+): FixtureTree {
+  const { index, bundleFiles } = buildBundles(bundles, granularity);
+  const tree: FixtureTree = { [INDEX_FILE_NAME]: index };
+
+  for (const [fileName, data] of bundleFiles) {
+    const parts = fileName.split('/');
+    let dir = tree;
+    for (const part of parts.slice(0, -1)) {
+      dir = (dir[part] ??= {}) as FixtureTree;
+    }
+    dir[parts[parts.length - 1]] = data;
+  }
+
+  return tree;
+}
+
+/**
+ * Write a loose Bundles2 directory (Steam layout)
+ */
+export function writeBundles2(
+  dir: string,
+  bundles: BundleFixture[],
+  granularity = DEFAULT_GRANULARITY
+): string {
+  const { index, bundleFiles } = buildBundles(bundles, granularity);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, INDEX_FILE_NAME), index);
+
+  for (const [fileName, data] of bundleFiles) {
+    const path = join(dir, fileName);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, data);
+  }
+  return dir;
+}
@@ -0,0 +1,221 @@
+// Synthetic .datc64 tables
+// Rows are encoded from a SchemaTable the same way DATParser reads them back:
+// [rowCount:u32][fixed-size rows][0xBB x 8][variable data], with variable data
+// offsets measured from the start of the 0xBB marker. The variable data is laid out like
+// a game file's: identical strings are shared, empty arrays point at the end of the data
+// written so far, and nulls are 0xFE bytes.
+
+import type {
+  Schema,
+  SchemaColumn,
+  SchemaEnumeration,
+  SchemaTable,
+} from '../../src/dat/dat-parser';
+
+const VARIABLE_DATA_MAGIC = Buffer.alloc(8, 0xbb);
+const NULL_MARKER = 0xfefefefefefefefen;
+
+const FIELD_SIZES: Record<string, number> = {
+  bool: 1,
+  i8: 1,
+  u8: 1,
+  i16: 2,
+  u16: 2,
+  i32: 4,
+  u32: 4,
+  i64: 8,
+  u64: 8,
+  f32: 4,
+  string: 8,
+  row: 8,
+  foreignrow: 16,
+  enumrow: 4,
+  array: 16,
+};
+
+/**
+ * A schema column with the defaults dat-schema uses for unremarkable columns
+ */
+export function column(
+  name: string | null,
+  type: SchemaColumn['type'],
+  options: Partial<SchemaColumn> = {}
+): SchemaColumn {
+  return {
+    name,
+    description: null,
+    array: false,
+    type,
+    interval: false,
+    unique: false,
+    localized: false,
+    references: null,
+    until: null,
+    file: null,
+    files: null,
+    ...options,
+  };
+}
+
+export function table(name: string, columns: SchemaColumn[], validFor = 3): SchemaTable {
+  return { validFor, name, columns };
+}
+
+export function enumeration(
+  name: string,
+  enumerators: (string | null)[],
+  indexing = 0,
+  validFor = 3
+): SchemaEnumeration {
+  return { validFor, name, indexing, enumerators };
+}
+
+export function schema(tables: SchemaTable[], enumerations: SchemaEnumeration[] = []): Schema {
+  return { version: 7, createdAt: 0, tables, enumerations };
+}
+
+function valueSize(col: SchemaColumn): number {
+  return (FIELD_SIZES[col.type] ?? 8) * (col.interval ? 2 : 1);
+}
+
+/**
+ * Encode rows for `table`. Rows are keyed by column name (or `_unknown<index>` for
+ * unnamed columns), like DATParser's output; missing values are written as nulls.
+ * Interval columns take `[min, max]` pairs.
+ */
+export function buildDat(table: SchemaTable, rows: Record<string, unknown>[]): Buffer {
+  const rowSize = table.columns.reduce((size, col) => size + (col.array ? 16 : valueSize(col)), 0);
+
+  const fixed = Buffer.alloc(4 + rows.length * rowSize);
+  fixed.writeUInt32LE(rows.length, 0);
+
+  // Variable data starts with the magic, so the first payload is at offset 8
+  const variable: Buffer[] = [VARIABLE_DATA_MAGIC];
+  let variableSize = VARIABLE_DATA_MAGIC.length;
+  const appendVariable = (data: Buffer): number => {
+    const offset = variableSize;
+    variable.push(data);
+    variableSize += data.length;
+    return offset;
+  };
+  const stringOffsets = new Map<string, number>();
+  const appendString = (text: string): number => {
+    if (!stringOffsets.has(text)) {
+      // UTF-16LE with a 4-byte null terminator
+      const encoded = Buffer.concat([Buffer.from(text, 'utf16le'), Buffer.alloc(4)]);
+      stringOffsets.set(text, appendVariable(encoded));
+    }
+    return stringOffsets.get(text)!;
+  };
+
+  let pos = 4;
+  for (const row of rows) {
+    table.columns.forEach((col, colIndex) => {
+      const value = row[col.name ?? `_unknown${colIndex}`];
+
+      if (col.array) {
+        const values = Array.isArray(value) ? value : [];
+        const elementSize = valueSize(col);
+        fixed.writeBigUInt64LE(BigInt(values.length), pos);
+        if (values.length > 0) {
+          const elements = Buffer.alloc(values.length * elementSize);
+          values.forEach((element, i) => {
+            writeValue(elements, i * elementSize, col, element, appendString);
+          });
+          fixed.writeBigUInt64LE(BigInt(appendVariable(elements)), pos + 8);
+        } else {
+          fixed.writeBigUInt64LE(BigInt(variableSize), pos + 8);
+        }
+        pos += 16;
+      } else {
+        writeValue(fixed, pos, col, value, appendString);
+        pos += valueSize(col);
+      }
+    });
+  }
+
+  return Buffer.concat([fixed, ...variable]);
+}
+
+function writeValue(
+  buffer: Buffer,
+  offset: number,
+  col: SchemaColumn,
+  value: unknown,
+  appendString: (text: string) => number
+): void {
+  if (!col.interval) {
+    writeField(buffer, offset, col.type, value, appendString);
+    return;
+  }
+  const [min, max] = Array.isArray(value) ? value : [];
+  writeField(buffer, offset, col.type, min, appendString);
+  writeField(buffer, offset + (FIELD_SIZES[col.type] ?? 8), col.type, max, appendString);
+}
+
+function writeField(
+  buffer: Buffer,
+  offset: number,
+  type: string,
+  value: unknown,
+  appendString: (text: string) => number
+): void {
+  switch (type) {
+    case 'bool':
+      buffer.writeUInt8(value ? 1 : 0, offset);
+      break;
+    case 'i8':
+      buffer.writeInt8(Number(value ?? 0), offset);
+      break;
+    case 'u8':
+      buffer.writeUInt8(Number(value ?? 0), offset);
+      break;
+    case 'i16':
+      buffer.writeInt16LE(Number(value ?? 0), offset);
+      break;
+    case 'u16':
+      buffer.writeUInt16LE(Number(value ?? 0), offset);
+      break;
+    case 'i32':
+    case 'enumrow':
+      buffer.writeInt32LE(Number(value ?? 0), offset);
+      break;
+    case 'u32':
+      buffer.writeUInt32LE(Number(value ?? 0), offset);
+      break;
+    case 'i64':
+      buffer.writeBigInt64LE(BigInt(String(value ?? 0)), offset);
+      break;
+    case 'u64':
+      buffer.writeBigUInt64LE(BigInt(String(value ?? 0)), offset);
+      break;
+    case 'f32':
+      buffer.writeFloatLE(Number(value ?? 0), offset);
+      break;
+    case 'string':
+      if (value === null || value === undefined) {
+        buffer.writeBigUInt64LE(NULL_MARKER, offset);
+      } else {
+        buffer.writeBigInt64LE(BigInt(appendString(String(value))), offset);
+      }
+      break;
+    case 'row':
+      if (value === null || value === undefined) {
+        buffer.writeBigUInt64LE(NULL_MARKER, offset);
+      } else {
+        buffer.writeBigInt64LE(BigInt(Number(value)), offset);
+      }
+      break;
+    case 'foreignrow':
+      if (value === null || value === undefined) {
+        buffer.writeBigUInt64LE(NULL_MARKER, offset);
+        buffer.writeBigUInt64LE(NULL_MARKER, offset + 8);
+      } else {
+        buffer.writeBigInt64LE(BigInt(Number(value)), offset);
+      }
+      break;
+    default:
+      // Unknown types are left zeroed
+      break;
+  }
+}
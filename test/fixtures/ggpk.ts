@@ -0,0 +1,149 @@
+// Synthetic GGPK archives
+// Builds small but structurally complete Content.ggpk files: a GGPK header record,
+// FILE and PDIR records with real SHA-256 and name hashes, and an optional FREE chain.
+
+import { createHash } from 'crypto';
+import { writeFileSync } from 'fs';
+import { encodeName, nameCharSize, nameHash } from '../../src/ggpk/ggpk-reader';
+
+/** Directory contents: strings and byte arrays are files, objects are subdirectories */
+export type FixtureTree = { [name: string]: string | Uint8Array | FixtureTree };
+
+export interface GGPKFixtureOptions {
+  /** GGPK version written to the header (default: 3). Version 4 stores names as UTF-32LE. */
+  version?: number;
+  /** Sizes of FREE records appended after the tree, linked in order (each at least 16) */
+  freeRegions?: number[];
+}
+
+interface BuiltRecord {
+  offset: bigint;
+  hash: Buffer;
+}
+
+const HEADER_SIZE = 28;
+
+function sha256(data: Uint8Array): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+// Null terminated name as stored in FILE and PDIR records
+function encodeRecordName(name: string, version: number): Buffer {
+  return encodeName(name + '\0', version);
+}
+
+export function fileRecord(name: string, data: Uint8Array, version = 3): Buffer {
+  const encodedName = encodeRecordName(name, version);
+  const length = 44 + encodedName.length + data.length;
+  const record = Buffer.alloc(length);
+  record.writeUInt32LE(length, 0);
+  record.write('FILE', 4, 'latin1');
+  record.writeUInt32LE(encodedName.length / nameCharSize(version), 8);
+  sha256(data).copy(record, 12);
+  encodedName.copy(record, 44);
+  Buffer.from(data).copy(record, 44 + encodedName.length);
+  return record;
+}
+
+export function directoryRecord(
+  name: string,
+  children: { name: string; offset: bigint; hash: Buffer }[],
+  version = 3
+): Buffer {
+  // Entries are sorted by name hash so readers can binary search them
+  const sorted = children
+    .map(child => ({ ...child, nameHash: nameHash(child.name, version) }))
+    .sort((a, b) => a.nameHash - b.nameHash);
+
+  const encodedName = encodeRecordName(name, version);
+  const length = 48 + encodedName.length + sorted.length * 12;
+  const record = Buffer.alloc(length);
+  record.writeUInt32LE(length, 0);
+  record.write('PDIR', 4, 'latin1');
+  record.writeUInt32LE(encodedName.length / nameCharSize(version), 8);
+  record.writeUInt32LE(sorted.length, 12);
+  sha256(Buffer.concat(sorted.map(child => child.hash))).copy(record, 16);
+  encodedName.copy(record, 48);
+
+  let pos = 48 + encodedName.length;
+  for (const child of sorted) {
+    record.writeUInt32LE(child.nameHash, pos);
+    record.writeBigUInt64LE(child.offset, pos + 4);
+    pos += 12;
+  }
+  return record;
+}
+
+export function freeRecord(length: number, nextFreeOffset: bigint): Buffer {
+  if (length < 16) {
+    throw new Error(`FREE records need at least 16 bytes, got ${length}`);
+  }
+  const record = Buffer.alloc(length);
+  record.writeUInt32LE(length, 0);
+  record.write('FREE', 4, 'latin1');
+  record.writeBigUInt64LE(nextFreeOffset, 8);
+  return record;
+}
+
+/**
+ * Build a GGPK holding `tree` under ROOT. Children are written before their
+ * directory, so ROOT is the last record before any FREE regions.
+ */
+export function buildGGPK(tree: FixtureTree, options: GGPKFixtureOptions = {}): Buffer {
+  const { version = 3, freeRegions = [] } = options;
+  const records: Buffer[] = [];
+  let offset = BigInt(HEADER_SIZE);
+
+  const append = (record: Buffer): bigint => {
+    const recordOffset = offset;
+    records.push(record);
+    offset += BigInt(record.length);
+    return recordOffset;
+  };
+
+  const writeDirectory = (name: string, contents: FixtureTree): BuiltRecord => {
+    const children = Object.entries(contents).map(([childName, value]) => {
+      let built: BuiltRecord;
+      if (typeof value === 'string' || value instanceof Uint8Array) {
+        const data = typeof value === 'string' ? Buffer.from(value) : value;
+        const record = fileRecord(childName, data, version);
+        built = { offset: append(record), hash: record.subarray(12, 44) };
+      } else {
+        built = writeDirectory(childName, value);
+      }
+      return { name: childName, ...built };
+    });
+
+    const record = directoryRecord(name, children, version);
+    return { offset: append(record), hash: record.subarray(16, 48) };
+  };
+
+  const root = writeDirectory('ROOT', tree);
+
+  // FREE records link to the one after them; the last ends the chain
+  const freeStart = offset;
+  let freeOffset = freeStart;
+  freeRegions.forEach((length, i) => {
+    const next = i < freeRegions.length - 1 ? freeOffset + BigInt(length) : 0n;
+    append(freeRecord(length, next));
+    freeOffset += BigInt(length);
+  });
+
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.writeUInt32LE(HEADER_SIZE, 0);
+  header.write('GGPK', 4, 'latin1');
+  header.writeUInt32LE(version, 8);
+  header.writeBigUInt64LE(root.offset, 12);
+  header.writeBigUInt64LE(freeRegions.length > 0 ? freeStart : 0n, 20);
+
+  return Buffer.concat([header, ...records]);
+}
+
+export function writeGGPK(
+  path: string,
+  tree: FixtureTree,
+  options: GGPKFixtureOptions = {}
+): string {
+  writeFileSync(path, buildGGPK(tree, options));
+  return path;
+}
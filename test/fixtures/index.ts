@@ -0,0 +1,18 @@
+// Fixture builders for tests
+// Everything here is generated in memory, so tests never need the real (100GB+) archive.
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+export * from './ggpk';
+export * from './bundles';
+export * from './dat';
+
+/**
+ * Create an empty temporary directory; call the returned cleanup when done
+ */
+export function makeTempDir(prefix = 'ggpk-tool-'): { path: string; cleanup: () => void } {
+  const path = mkdtempSync(join(tmpdir(), prefix));
+  return { path, cleanup: () => rmSync(path, { recursive: true, force: true }) };
+}
@@ -0,0 +1,224 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { join } from 'path';
+import {
+  GGPKReader,
+  decodeName,
+  encodeName,
+  nameCharSize,
+  nameHash,
+} from '../src/ggpk/ggpk-reader';
+import { AsyncGGPKReader } from '../src/ggpk/async-ggpk-reader';
+import { makeTempDir, writeGGPK, type FixtureTree } from './fixtures';
+
+const TREE: FixtureTree = {
+  Art: {
+    Textures: { 'Icon.dds': 'dds bytes', 'Empty.dds': '' },
+  },
+  Data: { 'Mods.datc64': new Uint8Array([1, 2, 3, 4]) },
+  'README.txt': 'hello ggpk',
+};
+
+let tmp: ReturnType<typeof makeTempDir>;
+let ggpkPath: string;
+let reader: GGPKReader;
+
+beforeAll(() => {
+  tmp = makeTempDir();
+  ggpkPath = writeGGPK(join(tmp.path, 'Content.ggpk'), TREE, { freeRegions: [64, 32] });
+  reader = new GGPKReader(ggpkPath);
+});
+
+afterAll(() => {
+  reader.close();
+  tmp.cleanup();
+});
+
+describe('GGPKReader', () => {
+  test('reads the header', () => {
+    const header = reader.readHeader();
+    expect(header.magic).toBe('GGPK');
+    expect(header.version).toBe(3);
+    expect(reader.readRecord(header.firstRecordOffset)).toMatchObject({
+      type: 'PDIR',
+      name: 'ROOT',
+    });
+  });
+
+  test('resolves paths case-insensitively through directory name hashes', () => {
+    const record = reader.resolve('art/textures/ICON.DDS');
+    expect(record).toMatchObject({ type: 'FILE', name: 'Icon.dds', dataLength: 9 });
+    expect(reader.resolve('Art\\Textures')).toMatchObject({ type: 'PDIR', name: 'Textures' });
+    expect(reader.resolve('')).toMatchObject({ type: 'PDIR', name: 'ROOT' });
+  });
+
+  test('returns null for missing paths', () => {
+    expect(reader.resolve('Art/Missing.dds')).toBeNull();
+    expect(reader.resolve('README.txt/child')).toBeNull();
+  });
+
+  test('reads file data, whole and in parts', () => {
+    const record = reader.resolve('README.txt');
+    if (record?.type !== 'FILE') throw new Error('README.txt not found');
+
+    expect(reader.readFileData(record).toString()).toBe('hello ggpk');
+    expect(reader.readFileData(record, 6).toString()).toBe('ggpk');
+    expect(reader.readFileData(record, 0, 5).toString()).toBe('hello');
+    expect(() => reader.readFileData(record, 8, 5)).toThrow(RangeError);
+  });
+
+  test('verifies file data against the stored SHA-256', () => {
+    for (const path of ['README.txt', 'Data/Mods.datc64', 'Art/Textures/Empty.dds']) {
+      const record = reader.resolve(path);
+      if (record?.type !== 'FILE') throw new Error(`${path} not found`);
+      expect(reader.verifyFile(record)).toBe(true);
+    }
+  });
+
+  test('indexes every file by path', async () => {
+    const index = await reader.buildIndex();
+    expect(Array.from(index.keys()).sort()).toEqual([
+      'Art/Textures/Empty.dds',
+      'Art/Textures/Icon.dds',
+      'Data/Mods.datc64',
+      'README.txt',
+    ]);
+    expect(reader.listFiles(/\.dds$/).sort()).toEqual([
+      'Art/Textures/Empty.dds',
+      'Art/Textures/Icon.dds',
+    ]);
+  });
+
+  test('reuses the index cache', async () => {
+    const cacheDir = join(tmp.path, 'cache');
+    const first = new GGPKReader(ggpkPath);
+    const second = new GGPKReader(ggpkPath);
+    try {
+      const built = await first.buildIndex({ cacheDir });
+      const cached = await second.buildIndex({ cacheDir });
+      expect(Array.from(cached.keys()).sort()).toEqual(Array.from(built.keys()).sort());
+      expect(cached.get('Data/Mods.datc64')).toEqual(built.get('Data/Mods.datc64')!);
+    } finally {
+      first.close();
+      second.close();
+    }
+  });
+
+  test('follows the FREE chain', () => {
+    const chain = reader.readFreeChain();
+    expect(chain.map(record => record.length)).toEqual([64, 32]);
+    expect(chain[0].nextFreeOffset).toBe(chain[1].offset);
+    expect(chain[1].nextFreeOffset).toBe(0n);
+  });
+
+  test('scans every record in file order', () => {
+    const tags = Array.from(reader.scanRecords(), record => record.tag);
+    expect(tags[0]).toBe('GGPK');
+    expect(tags.filter(tag => tag === 'FILE')).toHaveLength(4);
+    expect(tags.filter(tag => tag === 'PDIR')).toHaveLength(4);
+    expect(tags.slice(-2)).toEqual(['FREE', 'FREE']);
+  });
+});
+
+describe('AsyncGGPKReader', () => {
+  test('reads and extracts the same data as GGPKReader', async () => {
+    const record = reader.resolve('Art/Textures/Icon.dds');
+    if (record?.type !== 'FILE') throw new Error('Icon.dds not found');
+
+    const asyncReader = await AsyncGGPKReader.open(ggpkPath);
+    try {
+      expect((await asyncReader.readFileData(record)).toString()).toBe('dds bytes');
+
+      const outputPath = join(tmp.path, 'out', 'Icon.dds');
+      await asyncReader.extractFile(record, outputPath, { verify: true });
+      expect(await Bun.file(outputPath).text()).toBe('dds bytes');
+    } finally {
+      await asyncReader.close();
+    }
+  });
+});
+
+describe.each([3, 4])('GGPK version %i', version => {
+  // Non-ASCII names, including one outside the Basic Multilingual Plane
+  const tree: FixtureTree = {
+    Metadata: { 'Ünïcode.txt': 'accented', 'Emoji😀.txt': 'astral' },
+    Data: { 'Mods.datc64': 'mods' },
+  };
+
+  let versionTmp: ReturnType<typeof makeTempDir>;
+  let versionReader: GGPKReader;
+
+  beforeAll(() => {
+    versionTmp = makeTempDir();
+    versionReader = new GGPKReader(
+      writeGGPK(join(versionTmp.path, 'Content.ggpk'), tree, { version })
+    );
+  });
+
+  afterAll(() => {
+    versionReader.close();
+    versionTmp.cleanup();
+  });
+
+  test('detects the version from the header', () => {
+    expect(versionReader.readHeader().version).toBe(version);
+  });
+
+  test('decodes record names', () => {
+    const metadata = versionReader.resolve('Metadata');
+    if (metadata?.type !== 'PDIR') throw new Error('Metadata not found');
+    const names = metadata.entries.map(offset => {
+      const record = versionReader.readRecord(offset);
+      return record.type === 'FREE' ? null : record.name;
+    });
+    expect(names.sort()).toEqual(['Emoji😀.txt', 'Ünïcode.txt']);
+  });
+
+  test('resolves paths through name hashes in the version encoding', () => {
+    for (const [path, data] of [
+      ['metadata/üNÏCODE.TXT', 'accented'],
+      ['Metadata/Emoji😀.txt', 'astral'],
+      ['DATA/mods.datc64', 'mods'],
+    ]) {
+      const record = versionReader.resolve(path);
+      if (record?.type !== 'FILE') throw new Error(`${path} not found`);
+      expect(versionReader.readFileData(record).toString()).toBe(data);
+      expect(versionReader.verifyFile(record)).toBe(true);
+    }
+  });
+
+  test('places file data after the encoded name', () => {
+    const record = versionReader.resolve('Metadata/Emoji😀.txt');
+    if (record?.type !== 'FILE') throw new Error('Emoji😀.txt not found');
+    // 44 byte header, then the null terminated name: 10 code points, or 11 UTF-16 units
+    const nameBytes = version === 4 ? 11 * 4 : 12 * 2;
+    expect(Number(record.dataOffset - record.offset)).toBe(44 + nameBytes);
+  });
+
+  test('indexes every file', async () => {
+    expect(Array.from((await versionReader.buildIndex()).keys()).sort()).toEqual([
+      'Data/Mods.datc64',
+      'Metadata/Emoji😀.txt',
+      'Metadata/Ünïcode.txt',
+    ]);
+  });
+});
+
+describe('record name encoding', () => {
+  test('uses UTF-16LE before version 4 and UTF-32LE from version 4', () => {
+    expect(nameCharSize(3)).toBe(2);
+    expect(nameCharSize(4)).toBe(4);
+    expect(encodeName('a😀', 3)).toEqual(Buffer.from('a😀', 'utf16le'));
+    expect(encodeName('a😀', 4)).toEqual(Buffer.from([0x61, 0, 0, 0, 0x00, 0xf6, 0x01, 0]));
+  });
+
+  test('round-trips names', () => {
+    for (const version of [3, 4]) {
+      expect(decodeName(encodeName('Ünïcode😀', version), version)).toBe('Ünïcode😀');
+    }
+  });
+
+  test('hashes names case-insensitively in the version encoding', () => {
+    expect(nameHash('ROOT', 4)).toBe(nameHash('root', 4));
+    expect(nameHash('root', 4)).not.toBe(nameHash('root', 3));
+  });
+});
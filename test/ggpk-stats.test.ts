@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { GGPKReader } from '../src/ggpk/ggpk-reader';
+import { collectGGPKStats } from '../src/tasks/ggpk-stats';
+import { makeTempDir, writeGGPK, type FixtureTree } from './fixtures';
+
+const TREE: FixtureTree = {
+  Data: { 'Mods.datc64': 'mods table' },
+  'README.txt': 'hello ggpk',
+};
+
+let tmp: ReturnType<typeof makeTempDir>;
+
+beforeAll(() => {
+  tmp = makeTempDir();
+});
+
+afterAll(() => {
+  tmp.cleanup();
+});
+
+describe('collectGGPKStats', () => {
+  test('counts records by tag and sums the FREE chain', () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'free.ggpk'), TREE, { freeRegions: [48, 200, 96] });
+    const fileSize = statSync(ggpkPath).size;
+    const stats = collectGGPKStats(ggpkPath, { top: 2 });
+
+    expect(stats.version).toBe(3);
+    expect(stats.fileSize).toBe(fileSize);
+    expect(Object.keys(stats.records).sort()).toEqual(['FILE', 'FREE', 'GGPK', 'PDIR']);
+    expect(stats.records.GGPK).toEqual({ count: 1, bytes: 28 });
+    expect(stats.records.FILE.count).toBe(2);
+    expect(stats.records.PDIR.count).toBe(2);
+    expect(stats.records.FREE).toEqual({ count: 3, bytes: 344 });
+
+    // Largest regions first, limited to `top`
+    const freeStart = fileSize - 344;
+    expect(stats.free).toEqual({
+      count: 3,
+      bytes: 344,
+      largest: [
+        { offset: freeStart + 48, length: 200 },
+        { offset: freeStart + 48 + 200, length: 96 },
+      ],
+    });
+    expect(stats.orphaned).toEqual({ count: 0, bytes: 0 });
+    expect(stats.wastedBytes).toBe(344);
+    expect(stats.wastedPercent).toBeCloseTo((344 / fileSize) * 100);
+  });
+
+  test('reports records that nothing points to as orphaned', () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'orphans.ggpk'), TREE, { freeRegions: [64, 32] });
+    const archive = readFileSync(ggpkPath);
+
+    // Start the FREE chain at its second record, leaving the first unlinked
+    const firstFree = archive.readBigUInt64LE(20);
+    archive.writeBigUInt64LE(firstFree + 64n, 20);
+    // Drop README.txt from ROOT by pointing its entry at Data's directory record
+    const reader = new GGPKReader(ggpkPath);
+    const root = reader.resolve('')!;
+    const data = reader.resolve('Data')!;
+    const readme = reader.resolve('README.txt')!;
+    reader.close();
+    if (root.type !== 'PDIR') throw new Error('ROOT is not a directory');
+    const entryIndex = root.entries.indexOf(readme.offset);
+    const entriesStart = Number(root.offset) + root.length - root.entries.length * 12;
+    archive.writeBigUInt64LE(data.offset, entriesStart + entryIndex * 12 + 4);
+    writeFileSync(ggpkPath, archive);
+
+    const stats = collectGGPKStats(ggpkPath);
+    expect(stats.free).toMatchObject({ count: 1, bytes: 32 });
+    expect(stats.orphaned).toEqual({
+      count: 2,
+      bytes: 64 + readme.length,
+    });
+    expect(stats.wastedBytes).toBe(32 + stats.orphaned.bytes);
+  });
+});
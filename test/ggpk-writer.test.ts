@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { GGPKReader, type DirectoryRecord } from '../src/ggpk/ggpk-reader';
+import { GGPKWriter, getJournalPath } from '../src/ggpk/ggpk-writer';
+import { makeTempDir, writeGGPK, type FixtureTree } from './fixtures';
+
+const TREE: FixtureTree = {
+  Data: { 'a.txt': 'hello', 'b.txt': 'world' },
+  'readme.txt': 'top level',
+};
+
+let tmp: ReturnType<typeof makeTempDir>;
+
+beforeEach(() => {
+  tmp = makeTempDir();
+});
+
+afterEach(() => {
+  tmp.cleanup();
+});
+
+function sha256(data: Uint8Array): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+/**
+ * Check the file's data, its record hash and every directory hash up to ROOT
+ */
+function expectConsistent(reader: GGPKReader, path: string, data: string): void {
+  const chain = reader.resolveChain(path);
+  expect(chain).not.toBeNull();
+
+  const file = chain![chain!.length - 1].record;
+  if (file.type !== 'FILE') throw new Error(`${path} is not a file`);
+  expect(reader.readFileData(file).toString()).toBe(data);
+  expect(file.hash.equals(sha256(Buffer.from(data)))).toBe(true);
+
+  for (const { record } of chain!.slice(0, -1)) {
+    const dir = record as DirectoryRecord;
+    const childHashes = dir.entries.map(offset => {
+      const child = reader.readRecord(offset);
+      if (child.type === 'FREE') throw new Error(`${dir.name} points at a FREE record`);
+      return child.hash;
+    });
+    expect(dir.hash.equals(sha256(Buffer.concat(childHashes)))).toBe(true);
+  }
+}
+
+function replace(ggpkPath: string, path: string, data: string) {
+  const writer = new GGPKWriter(ggpkPath);
+  try {
+    return writer.replaceFile(path, Buffer.from(data));
+  } finally {
+    writer.close();
+  }
+}
+
+function withReader<T>(ggpkPath: string, fn: (reader: GGPKReader) => T): T {
+  const reader = new GGPKReader(ggpkPath);
+  try {
+    return fn(reader);
+  } finally {
+    reader.close();
+  }
+}
+
+describe('GGPKWriter.replaceFile', () => {
+  test('rewrites a record of the same size in place', () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'Content.ggpk'), TREE);
+    const before = withReader(ggpkPath, reader => reader.resolve('Data/a.txt')!);
+    const size = statSync(ggpkPath).size;
+
+    const result = replace(ggpkPath, 'Data/a.txt', 'HELLO');
+
+    expect(result.placement).toBe('in-place');
+    expect(result.record.offset).toBe(before.offset);
+    expect(statSync(ggpkPath).size).toBe(size);
+    withReader(ggpkPath, reader => {
+      expectConsistent(reader, 'Data/a.txt', 'HELLO');
+      expectConsistent(reader, 'Data/b.txt', 'world');
+      expect(reader.readFreeChain()).toEqual([]);
+    });
+    expect(existsSync(getJournalPath(ggpkPath))).toBe(false);
+  });
+
+  test('moves a grown record into a FREE record and keeps the remainder free', () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'Content.ggpk'), TREE, { freeRegions: [256] });
+    const [free] = withReader(ggpkPath, reader => reader.readFreeChain());
+    const old = withReader(ggpkPath, reader => reader.resolve('Data/a.txt')!);
+    const size = statSync(ggpkPath).size;
+
+    const result = replace(ggpkPath, 'Data/a.txt', 'a longer greeting');
+
+    expect(result.placement).toBe('free-record');
+    expect(result.record.offset).toBe(free.offset);
+    expect(statSync(ggpkPath).size).toBe(size);
+    withReader(ggpkPath, reader => {
+      expectConsistent(reader, 'Data/a.txt', 'a longer greeting');
+      expectConsistent(reader, 'readme.txt', 'top level');
+
+      // The old record heads the chain, followed by what is left of the FREE record
+      const chain = reader.readFreeChain();
+      expect(chain.map(record => [record.offset, record.length])).toEqual([
+        [old.offset, old.length],
+        [free.offset + BigInt(result.record.length), free.length - result.record.length],
+      ]);
+    });
+  });
+
+  test('appends a grown record when no FREE record fits', () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'Content.ggpk'), TREE, { freeRegions: [16] });
+    const [free] = withReader(ggpkPath, reader => reader.readFreeChain());
+    const old = withReader(ggpkPath, reader => reader.resolve('Data/a.txt')!);
+    const size = statSync(ggpkPath).size;
+
+    const result = replace(ggpkPath, 'Data/a.txt', 'does not fit in sixteen bytes');
+
+    expect(result.placement).toBe('appended');
+    expect(result.record.offset).toBe(BigInt(size));
+    expect(statSync(ggpkPath).size).toBe(size + result.record.length);
+    withReader(ggpkPath, reader => {
+      expectConsistent(reader, 'Data/a.txt', 'does not fit in sixteen bytes');
+      expect(reader.readFreeChain().map(record => record.offset)).toEqual([
+        old.offset,
+        free.offset,
+      ]);
+    });
+  });
+
+  test('shrinking a record frees the old one', () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'Content.ggpk'), TREE);
+    const old = withReader(ggpkPath, reader => reader.resolve('readme.txt')!);
+
+    replace(ggpkPath, 'readme.txt', 'top');
+
+    withReader(ggpkPath, reader => {
+      expectConsistent(reader, 'readme.txt', 'top');
+      expect(reader.readFreeChain().map(record => record.offset)).toEqual([old.offset]);
+    });
+  });
+
+  test('rejects paths that are not files', () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'Content.ggpk'), TREE);
+    expect(() => replace(ggpkPath, 'Data', 'x')).toThrow('File not found');
+    expect(() => replace(ggpkPath, 'Data/missing.txt', 'x')).toThrow('File not found');
+  });
+
+  test('works on version 4 archives', () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'Content.ggpk'), TREE, { version: 4 });
+
+    expect(replace(ggpkPath, 'Data/b.txt', 'a new world').placement).toBe('appended');
+    withReader(ggpkPath, reader => expectConsistent(reader, 'Data/b.txt', 'a new world'));
+  });
+});
+
+describe('GGPKWriter.recover', () => {
+  test('rolls back the writes recorded in a journal', () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'Content.ggpk'), TREE);
+    const original = readFileSync(ggpkPath);
+    const record = withReader(ggpkPath, reader => reader.resolve('Data/a.txt')!);
+
+    // A commit that overwrote the record's data and appended 8 bytes, then crashed
+    const journal = Buffer.alloc(16 + 12 + 5);
+    journal.write('GJNL', 0, 'latin1');
+    journal.writeBigUInt64LE(BigInt(original.length), 4);
+    journal.writeUInt32LE(1, 12);
+    journal.writeBigUInt64LE(record.offset + BigInt(record.length - 5), 16);
+    journal.writeUInt32LE(5, 24);
+    journal.write('hello', 28);
+    writeFileSync(getJournalPath(ggpkPath), journal);
+
+    const damaged = Buffer.concat([original, Buffer.alloc(8)]);
+    damaged.write('XXXXX', record.length + Number(record.offset) - 5);
+    writeFileSync(ggpkPath, damaged);
+
+    expect(GGPKWriter.recover(ggpkPath)).toBe(true);
+    expect(readFileSync(ggpkPath).equals(original)).toBe(true);
+    expect(existsSync(getJournalPath(ggpkPath))).toBe(false);
+  });
+
+  test('discards a journal that was cut short while being written', () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'Content.ggpk'), TREE);
+    const original = readFileSync(ggpkPath);
+
+    const journal = Buffer.alloc(16 + 12 + 2);
+    journal.write('GJNL', 0, 'latin1');
+    journal.writeBigUInt64LE(BigInt(original.length), 4);
+    journal.writeUInt32LE(1, 12);
+    journal.writeBigUInt64LE(100n, 16);
+    journal.writeUInt32LE(64, 24);
+    writeFileSync(getJournalPath(ggpkPath), journal);
+    writeFileSync(`${getJournalPath(ggpkPath)}.tmp`, 'partial');
+
+    // Opening for writing recovers first and must not fail
+    expect(replace(ggpkPath, 'Data/a.txt', 'HELLO').placement).toBe('in-place');
+    expect(existsSync(getJournalPath(ggpkPath))).toBe(false);
+    expect(existsSync(`${getJournalPath(ggpkPath)}.tmp`)).toBe(false);
+    withReader(ggpkPath, reader => expectConsistent(reader, 'Data/a.txt', 'HELLO'));
+  });
+
+  test('closes the archive when opening for writing fails to recover', () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'Content.ggpk'), TREE);
+    writeFileSync(getJournalPath(ggpkPath), Buffer.alloc(32, 'X'));
+    const openFds = () => readdirSync('/proc/self/fd').length;
+
+    const before = openFds();
+    expect(() => new GGPKWriter(ggpkPath)).toThrow('Invalid GGPK journal');
+    expect(openFds()).toBe(before);
+  });
+
+  test('returns false without a journal', () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'Content.ggpk'), TREE);
+    expect(GGPKWriter.recover(ggpkPath)).toBe(false);
+  });
+});
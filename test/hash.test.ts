@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test';
+import { nameHash } from '../src/ggpk/ggpk-reader';
+import { BUNDLE_PATH_SEED, fnv1a64, murmurHash2, murmurHash64A } from '../src/ggpk/hash';
+
+// Expected values come from implementations other than src/ggpk/hash.ts, so the
+// fixtures (which hash with src) can't hide a wrong hash: MurmurHash64A from the
+// pathofexile-dat bundle reader, MurmurHash2 from the murmurhash package, FNV-1a from
+// the FNV reference test vectors, and SMHasher's verification values for both Murmurs.
+
+function utf32(text: string): Buffer {
+  const codePoints = Array.from(text, char => char.codePointAt(0)!);
+  const buffer = Buffer.alloc(codePoints.length * 4);
+  codePoints.forEach((codePoint, i) => buffer.writeUInt32LE(codePoint, i * 4));
+  return buffer;
+}
+
+/**
+ * SMHasher's VerificationTest: hash keys [], [0], [0, 1], ... with seeds 256, 255, ...,
+ * then hash the concatenated results with seed 0 and take the first 4 bytes
+ */
+function smhasherVerification(hash: (key: Uint8Array, seed: number) => Buffer): number {
+  const key = new Uint8Array(256);
+  const hashes: Buffer[] = [];
+  for (let i = 0; i < 256; i++) {
+    key[i] = i;
+    hashes.push(hash(key.subarray(0, i), 256 - i));
+  }
+  return hash(Buffer.concat(hashes), 0).readUInt32LE(0);
+}
+
+describe('murmurHash64A', () => {
+  test('hashes lowercased bundle paths with seed 0x1337b33f', () => {
+    expect(BUNDLE_PATH_SEED).toBe(0x1337b33fn);
+    const hash = (path: string) => murmurHash64A(Buffer.from(path, 'utf8'));
+    expect(hash('data/mods.datc64')).toBe(0xfa959799798303b7n);
+    expect(hash('art/2ditems/currency/currencyrerollrare.dds')).toBe(0xdcd072f25efa107cn);
+    expect(hash('metadata/items')).toBe(0xfee90d45cdda2815n);
+    expect(hash('')).toBe(0xf42a94e69cff42fen);
+  });
+
+  test('matches the SMHasher verification value', () => {
+    const hash = (key: Uint8Array, seed: number) => {
+      const out = Buffer.alloc(8);
+      out.writeBigUInt64LE(murmurHash64A(key, BigInt(seed)));
+      return out;
+    };
+    expect(smhasherVerification(hash)).toBe(0x1f0d3804);
+  });
+});
+
+describe('murmurHash2', () => {
+  test('hashes UTF-16LE names (GGPK before version 4)', () => {
+    const hash = (name: string) => murmurHash2(Buffer.from(name, 'utf16le'));
+    expect(hash('root')).toBe(0x92cfad99);
+    expect(hash('bundles2')).toBe(0xa28a8828);
+    expect(hash('mods.datc64')).toBe(0x4f9850d6);
+    expect(hash('ünïcode😀.txt')).toBe(0xe9ba0725);
+  });
+
+  test('hashes UTF-32LE names (GGPK version 4)', () => {
+    const hash = (name: string) => murmurHash2(utf32(name));
+    expect(hash('root')).toBe(0x587ed4e4);
+    expect(hash('bundles2')).toBe(0xfe26a8a5);
+    expect(hash('mods.datc64')).toBe(0xa86dce6e);
+    expect(hash('ünïcode😀.txt')).toBe(0xb753af8f);
+  });
+
+  test('nameHash lowercases and encodes for the version', () => {
+    expect(nameHash('ROOT', 3)).toBe(0x92cfad99);
+    expect(nameHash('Bundles2', 4)).toBe(0xfe26a8a5);
+    expect(nameHash('Mods.datc64', 3)).toBe(0x4f9850d6);
+  });
+
+  test('matches the SMHasher verification value', () => {
+    const hash = (key: Uint8Array, seed: number) => {
+      const out = Buffer.alloc(4);
+      out.writeUInt32LE(murmurHash2(key, seed));
+      return out;
+    };
+    expect(smhasherVerification(hash)).toBe(0x27864c1e);
+  });
+});
+
+describe('fnv1a64', () => {
+  test('matches the reference test vectors', () => {
+    expect(fnv1a64(Buffer.from(''))).toBe(0xcbf29ce484222325n);
+    expect(fnv1a64(Buffer.from('a'))).toBe(0xaf63dc4c8601ec8cn);
+    expect(fnv1a64(Buffer.from('foobar'))).toBe(0x85944171f73967e8n);
+  });
+
+  test('hashes lowercased bundle paths with the "++" suffix', () => {
+    expect(fnv1a64(Buffer.from('data/mods.datc64++'))).toBe(0x01ac1c6ef9a2701dn);
+    expect(fnv1a64(Buffer.from('metadata/items++'))).toBe(0x3bea2372b3b29a6dn);
+  });
+});
@@ -0,0 +1,230 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parquetMetadata, parquetReadObjects } from 'hyparquet';
+import { DATParser } from '../src/dat/dat-parser';
+import { ParquetWriter, parquetColumns } from '../src/dat/parquet-writer';
+import { writeTableOutput } from '../src/dat/row-formatter';
+import { buildDat, column, makeTempDir, schema, table } from './fixtures';
+
+const ITEMS = table('Items', [
+  column('Id', 'string'),
+  column('Hash', 'u64'),
+  column('Offset', 'i64'),
+  column('Class', 'foreignrow', { references: { table: 'ItemClasses' } }),
+  column('Tags', 'string', { array: true }),
+  column('Levels', 'i32', { interval: true }),
+  column('Enabled', 'bool'),
+  column('Weight', 'f32'),
+]);
+const PARSER = new DATParser(schema([ITEMS]));
+
+const ROWS = [
+  {
+    Id: 'Rusted Sword',
+    Hash: '18446744073709551615',
+    Offset: '-9007199254740993',
+    Class: 0,
+    Tags: ['weapon', 'sword'],
+    Levels: [1, 5],
+    Enabled: true,
+    Weight: 1.5,
+  },
+  {
+    Id: 'Ring',
+    Hash: 5,
+    Offset: 7,
+    Class: null,
+    Tags: [],
+    Levels: [2, 2],
+    Enabled: false,
+    Weight: 0,
+  },
+  {
+    Id: 'Amulet',
+    Hash: 0,
+    Offset: -1,
+    Class: 1,
+    Tags: ['jewellery'],
+    Levels: [3, 9],
+    Enabled: true,
+    Weight: -2,
+  },
+];
+
+function parsedRows(): any[] {
+  const parsed = PARSER.parse(buildDat(ITEMS, ROWS), 'Items');
+  expect(parsed.error).toBeUndefined();
+  return parsed.rows;
+}
+
+function readBack(path: string): ArrayBuffer {
+  const data = readFileSync(path);
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+describe('ParquetWriter', () => {
+  let tmp: ReturnType<typeof makeTempDir>;
+
+  beforeAll(() => {
+    tmp = makeTempDir();
+  });
+
+  afterAll(() => {
+    tmp.cleanup();
+  });
+
+  test('maps schema columns to Parquet types', () => {
+    expect(
+      parquetColumns(PARSER, 'Items').map(c => `${c.name} ${c.type}${c.array ? '[]' : ''}`)
+    ).toEqual([
+      '_rid int32',
+      'Id string',
+      'Hash int64',
+      'Offset int64',
+      'Class int64',
+      'Tags string[]',
+      'Levels string',
+      'Enabled boolean',
+      'Weight float',
+    ]);
+    expect(parquetColumns(PARSER, 'Unknown')).toEqual([]);
+  });
+
+  test('writes a footer with the schema, row groups and column chunks', () => {
+    const outputPath = join(tmp.path, 'footer.parquet');
+    const writer = new ParquetWriter(outputPath, parquetColumns(PARSER, 'Items'), {
+      rowGroupSize: 2,
+    });
+    writer.writeRows(parsedRows());
+    expect(writer.close()).toBe(3);
+
+    const file = readFileSync(outputPath);
+    expect(file.subarray(0, 4).toString()).toBe('PAR1');
+    expect(file.subarray(-4).toString()).toBe('PAR1');
+
+    const metadata = parquetMetadata(readBack(outputPath));
+    expect(metadata.num_rows).toBe(3n);
+    expect(metadata.created_by).toBe('ggpk-extract');
+    expect(
+      metadata.schema.map(
+        e => `${e.name} ${e.type ?? 'group'} ${e.repetition_type ?? '-'} ${e.converted_type ?? '-'}`
+      )
+    ).toEqual([
+      'schema group - -',
+      '_rid INT32 OPTIONAL -',
+      'Id BYTE_ARRAY OPTIONAL UTF8',
+      'Hash INT64 OPTIONAL UINT_64',
+      'Offset INT64 OPTIONAL INT_64',
+      'Class INT64 OPTIONAL INT_64',
+      'Tags group OPTIONAL LIST',
+      'list group REPEATED -',
+      'element BYTE_ARRAY OPTIONAL UTF8',
+      'Levels BYTE_ARRAY OPTIONAL UTF8',
+      'Enabled BOOLEAN OPTIONAL -',
+      'Weight FLOAT OPTIONAL -',
+    ]);
+
+    // Two rows, then the last one
+    expect(metadata.row_groups.map(group => group.num_rows)).toEqual([2n, 1n]);
+    const [first, second] = metadata.row_groups;
+    expect(first.columns.map(chunk => chunk.meta_data?.path_in_schema.join('.'))).toEqual([
+      '_rid',
+      'Id',
+      'Hash',
+      'Offset',
+      'Class',
+      'Tags.list.element',
+      'Levels',
+      'Enabled',
+      'Weight',
+    ]);
+    // The empty Tags list still takes a level entry
+    expect(first.columns.map(chunk => chunk.meta_data?.num_values)).toEqual([
+      2n,
+      2n,
+      2n,
+      2n,
+      2n,
+      3n,
+      2n,
+      2n,
+      2n,
+    ]);
+    expect(second.columns[5].meta_data?.num_values).toBe(1n);
+    for (const chunk of [...first.columns, ...second.columns]) {
+      expect(chunk.meta_data?.codec).toBe('UNCOMPRESSED');
+      expect(chunk.meta_data?.data_page_offset).toBeGreaterThanOrEqual(4n);
+    }
+  });
+
+  test('writes rows an independent reader reads back', async () => {
+    const outputPath = join(tmp.path, 'items.parquet');
+    const count = await writeTableOutput(
+      outputPath,
+      PARSER.iterateRows(buildDat(ITEMS, ROWS), 'Items'),
+      PARSER,
+      'Items',
+      { format: 'parquet' }
+    );
+    expect(count).toBe(3);
+
+    expect(await parquetReadObjects({ file: readBack(outputPath) })).toEqual([
+      {
+        _rid: 0,
+        Id: 'Rusted Sword',
+        Hash: 18446744073709551615n,
+        Offset: -9007199254740993n,
+        Class: 0n,
+        Tags: ['weapon', 'sword'],
+        Levels: '[1,5]',
+        Enabled: true,
+        Weight: 1.5,
+      },
+      {
+        _rid: 1,
+        Id: 'Ring',
+        Hash: 5n,
+        Offset: 7n,
+        Class: null,
+        Tags: [],
+        Levels: '[2,2]',
+        Enabled: false,
+        Weight: 0,
+      },
+      {
+        _rid: 2,
+        Id: 'Amulet',
+        Hash: 0n,
+        Offset: -1n,
+        Class: 1n,
+        Tags: ['jewellery'],
+        Levels: '[3,9]',
+        Enabled: true,
+        Weight: -2,
+      },
+    ]);
+  });
+
+  test('keeps null strings and null list elements apart from empty ones', async () => {
+    const outputPath = join(tmp.path, 'nulls.parquet');
+    const writer = new ParquetWriter(outputPath, [
+      { name: '_rid', type: 'int32', array: false },
+      { name: 'Name', type: 'string', converted: 0, array: false },
+      { name: 'Values', type: 'int32', array: true },
+    ]);
+    writer.writeRows([
+      { _rid: 0, Name: null, Values: null },
+      { _rid: 1, Name: '', Values: [] },
+      { _rid: 2, Name: 'ä', Values: [1, null, 3] },
+    ]);
+    writer.close();
+
+    expect(await parquetReadObjects({ file: readBack(outputPath) })).toEqual([
+      // hyparquet reads a null list as undefined
+      { _rid: 0, Name: null, Values: undefined },
+      { _rid: 1, Name: '', Values: [] },
+      { _rid: 2, Name: 'ä', Values: [1, null, 3] },
+    ]);
+  });
+});
@@ -0,0 +1,233 @@
+import { afterAll, beforeAll, describe, expect, mock, spyOn, test } from 'bun:test';
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import * as decompressor from '../src/ggpk/decompressor';
+import {
+  createSnapshot,
+  diffSnapshots,
+  formatDiff,
+  runPatchDiff,
+  type FileIndexSnapshot,
+  type SnapshotFile,
+} from '../src/tasks/patch-diff';
+import {
+  bundles2Tree,
+  makeTempDir,
+  storedBlockDecompressor,
+  writeGGPK,
+  type BundleFixture,
+} from './fixtures';
+
+function snapshot(source: string, files: Record<string, SnapshotFile>): FileIndexSnapshot {
+  return { version: 1, source, createdAt: '2024-01-01T00:00:00.000Z', files };
+}
+
+const OLD = snapshot('old.json', {
+  'data/mods.datc64': { size: 100, hash: 'aa' },
+  'data/stats.datc64': { size: 50, hash: 'bb' },
+  'art/icon.dds': { size: 10 },
+  'art/removed.dds': { size: 7 },
+  'readme.txt': { size: 5, hash: 'cc' },
+});
+
+const NEW = snapshot('new.json', {
+  // Same size, different contents
+  'data/mods.datc64': { size: 100, hash: 'ab' },
+  'data/stats.datc64': { size: 50, hash: 'bb' },
+  // Grown, though neither side has a hash
+  'art/icon.dds': { size: 12 },
+  'art/added.dds': { size: 3 },
+  // Hashed on one side only, same size
+  'readme.txt': { size: 5 },
+});
+
+let tmp: ReturnType<typeof makeTempDir>;
+const originalDecompressor = { ...decompressor };
+
+beforeAll(() => {
+  tmp = makeTempDir();
+  // Indexing and saving report progress on the console
+  for (const method of ['log', 'error'] as const) {
+    spyOn(console, method).mockImplementation(() => {});
+  }
+  // The fixture bundles are stored uncompressed, so Oodle isn't needed to read them
+  mock.module('../src/ggpk/decompressor', () => ({
+    ...originalDecompressor,
+    createBlockDecompressor: () => storedBlockDecompressor,
+  }));
+});
+
+afterAll(() => {
+  mock.module('../src/ggpk/decompressor', () => originalDecompressor);
+  mock.restore();
+  tmp.cleanup();
+});
+
+describe('diffSnapshots', () => {
+  test('sorts files into added, removed, changed and unchanged', () => {
+    expect(diffSnapshots(OLD, NEW)).toEqual({
+      oldSource: 'old.json',
+      newSource: 'new.json',
+      added: [{ path: 'art/added.dds', size: 3 }],
+      removed: [{ path: 'art/removed.dds', size: 7 }],
+      changed: [
+        { path: 'art/icon.dds', oldSize: 10, newSize: 12, oldHash: undefined, newHash: undefined },
+        { path: 'data/mods.datc64', oldSize: 100, newSize: 100, oldHash: 'aa', newHash: 'ab' },
+      ],
+      unchanged: 2,
+      // icon.dds and readme.txt
+      comparedBySizeOnly: 2,
+    });
+  });
+
+  test('only compares paths matching the pattern', () => {
+    const diff = diffSnapshots(OLD, NEW, /^data\//);
+    expect(diff.changed.map(file => file.path)).toEqual(['data/mods.datc64']);
+    expect(diff).toMatchObject({ added: [], removed: [], unchanged: 1, comparedBySizeOnly: 0 });
+  });
+});
+
+describe('formatDiff', () => {
+  const diff = diffSnapshots(OLD, NEW);
+  const note =
+    '2 files had no content hash on both sides and were compared by size only; ' +
+    'snapshot with --hash to compare bundled file contents.';
+
+  test('text', () => {
+    expect(formatDiff(diff, 'text')).toBe(
+      [
+        'Old: old.json',
+        'New: new.json',
+        '',
+        'Added: 1, removed: 1, changed: 2, unchanged: 2',
+        `Note: ${note}`,
+        '',
+        'Added (1):',
+        '  + art/added.dds (3 bytes)',
+        '',
+        'Removed (1):',
+        '  - art/removed.dds (7 bytes)',
+        '',
+        'Changed (2):',
+        '  ~ art/icon.dds (10 → 12 bytes (+2))',
+        '  ~ data/mods.datc64 (100 bytes)',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('markdown', () => {
+    expect(formatDiff(diff, 'markdown')).toBe(
+      [
+        '# Patch diff',
+        '',
+        '- Old: `old.json`',
+        '- New: `new.json`',
+        '',
+        '| Category | Files |',
+        '| --- | ---: |',
+        '| Added | 1 |',
+        '| Removed | 1 |',
+        '| Changed | 2 |',
+        '| Unchanged | 2 |',
+        '',
+        `> **Note:** ${note}`,
+        '',
+        '## Added (1)',
+        '',
+        '| Path | Size |',
+        '| --- | ---: |',
+        '| `art/added.dds` | 3 |',
+        '',
+        '## Removed (1)',
+        '',
+        '| Path | Size |',
+        '| --- | ---: |',
+        '| `art/removed.dds` | 7 |',
+        '',
+        '## Changed (2)',
+        '',
+        '| Path | Size |',
+        '| --- | ---: |',
+        '| `art/icon.dds` | 10 → 12 bytes (+2) |',
+        '| `data/mods.datc64` | 100 bytes |',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('json', () => {
+    expect(JSON.parse(formatDiff(diff, 'json'))).toEqual({
+      ...JSON.parse(JSON.stringify(diff)),
+      note,
+    });
+  });
+
+  test('leaves the note out when every file was compared by hash', () => {
+    const hashed = diffSnapshots(OLD, NEW, /^data\//);
+    expect(formatDiff(hashed, 'text')).not.toContain('Note:');
+    expect(formatDiff(hashed, 'markdown')).not.toContain('Note:');
+    expect(JSON.parse(formatDiff(hashed, 'json'))).not.toHaveProperty('note');
+  });
+});
+
+describe('runPatchDiff', () => {
+  const BUNDLES: BundleFixture[] = [
+    {
+      name: 'Folders/data',
+      files: { 'data/mods.datc64': 'mods table', 'data/stats.datc64': 'stats' },
+    },
+  ];
+
+  function sha256(data: string): string {
+    return createHash('sha256').update(data).digest('hex');
+  }
+
+  test('snapshots a GGPK install and diffs it against a saved snapshot', async () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'Content.ggpk'), {
+      Bundles2: bundles2Tree(BUNDLES),
+      'README.txt': 'hello',
+    });
+
+    const current = await createSnapshot(ggpkPath, { hash: true });
+    expect(current.files).toEqual({
+      'data/mods.datc64': { size: 10, hash: sha256('mods table') },
+      'data/stats.datc64': { size: 5, hash: sha256('stats') },
+      'README.txt': { size: 5, hash: sha256('hello') },
+    });
+
+    const oldPath = join(tmp.path, 'old.json');
+    writeFileSync(
+      oldPath,
+      JSON.stringify(
+        snapshot(oldPath, {
+          'data/mods.datc64': { size: 10, hash: sha256('mods tab1e') },
+          'data/stats.datc64': { size: 5, hash: sha256('stats') },
+          'data/gone.datc64': { size: 1, hash: sha256('x') },
+        })
+      )
+    );
+    const output = join(tmp.path, 'diff.md');
+    const diff = await runPatchDiff(oldPath, ggpkPath, {
+      format: 'markdown',
+      output,
+      hash: true,
+    });
+
+    expect(diff).toMatchObject({
+      added: [{ path: 'README.txt', size: 5 }],
+      removed: [{ path: 'data/gone.datc64', size: 1 }],
+      changed: [{ path: 'data/mods.datc64', oldSize: 10, newSize: 10 }],
+      unchanged: 1,
+      comparedBySizeOnly: 0,
+    });
+    expect(readFileSync(output, 'utf-8')).toBe(formatDiff(diff, 'markdown'));
+  });
+
+  test('rejects snapshots from another version', async () => {
+    const path = join(tmp.path, 'future.json');
+    writeFileSync(path, JSON.stringify({ ...snapshot(path, {}), version: 2 }));
+    await expect(runPatchDiff(path, path)).rejects.toThrow('Unsupported snapshot version 2');
+  });
+});
@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { DATParser } from '../src/dat/dat-parser';
+import { formatRows, writeTableOutput, type OutputOptions } from '../src/dat/row-formatter';
+import { buildDat, column, makeTempDir, schema, table } from './fixtures';
+
+const COLUMNS = ['_rid', 'Id', 'Tags', 'Ranges'];
+
+const ROWS = [
+  { _rid: 0, Id: 'plain', Tags: [1, 2], Ranges: [] },
+  {
+    _rid: 1,
+    Id: 'comma, "quote"',
+    Tags: ['a|b', 'c'],
+    Ranges: [
+      [1, 2],
+      [3, 4],
+    ],
+  },
+  { _rid: 2, Id: 'line\r\nbreak\ttab', Tags: null, Ranges: [{ min: 1 }] },
+];
+
+function format(rows: any[], options: OutputOptions): string {
+  return [...formatRows(rows, COLUMNS, options)].join('');
+}
+
+describe('formatRows', () => {
+  test('quotes CSV cells with commas, quotes and line breaks', () => {
+    expect(format(ROWS, { format: 'csv' })).toBe(
+      [
+        '_rid,Id,Tags,Ranges',
+        '0,plain,1|2,',
+        // An element containing the separator turns the whole cell into JSON
+        '1,"comma, ""quote""","[""a|b"",""c""]","[1,2]|[3,4]"',
+        '2,"line\r\nbreak\ttab",,"{""min"":1}"',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('replaces tabs and line breaks in TSV cells', () => {
+    expect(format(ROWS, { format: 'tsv', arraySeparator: ';' })).toBe(
+      [
+        '_rid\tId\tTags\tRanges',
+        '0\tplain\t1;2\t',
+        '1\tcomma, "quote"\ta|b;c\t[1,2];[3,4]',
+        '2\tline  break tab\t\t{"min":1}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('writes JSON as JSON.stringify would', () => {
+    expect(format(ROWS, { format: 'json' })).toBe(JSON.stringify(ROWS));
+    expect(format(ROWS, { format: 'json', pretty: true })).toBe(JSON.stringify(ROWS, null, 2));
+    expect(format([], { format: 'json' })).toBe('[]');
+    expect(format(ROWS, { format: 'ndjson' })).toBe(
+      ROWS.map(row => JSON.stringify(row) + '\n').join('')
+    );
+  });
+
+  test('writes only the header for an empty table', () => {
+    expect(format([], { format: 'csv' })).toBe('_rid,Id,Tags,Ranges\n');
+  });
+
+  test('rejects unknown formats', () => {
+    expect(() => format(ROWS, { format: 'xml' as OutputOptions['format'] })).toThrow(
+      'Unknown output format: xml'
+    );
+  });
+});
+
+describe('writeTableOutput', () => {
+  const ITEMS = table('Items', [
+    column('Id', 'string'),
+    column('Tags', 'i32', { array: true }),
+    column('Levels', 'i32', { interval: true }),
+  ]);
+  const PARSER = new DATParser(schema([ITEMS]));
+  let tmp: ReturnType<typeof makeTempDir>;
+
+  beforeAll(() => {
+    tmp = makeTempDir();
+  });
+
+  afterAll(() => {
+    tmp.cleanup();
+  });
+
+  test('writes parsed rows in the table column order', async () => {
+    const buffer = buildDat(ITEMS, [
+      { Id: 'Sword, "Rusted"', Tags: [1, 2], Levels: [1, 5] },
+      { Id: 'Ring', Tags: [], Levels: [2, 2] },
+    ]);
+    const outputPath = join(tmp.path, 'items.csv');
+
+    const count = await writeTableOutput(
+      outputPath,
+      PARSER.iterateRows(buffer, 'Items'),
+      PARSER,
+      'Items',
+      { format: 'csv' }
+    );
+
+    expect(count).toBe(2);
+    expect(readFileSync(outputPath, 'utf-8')).toBe(
+      ['_rid,Id,Tags,Levels', '0,"Sword, ""Rusted""",1|2,1|5', '1,Ring,,2|2', ''].join('\n')
+    );
+  });
+
+  test('removes the partial file when the rows fail', async () => {
+    const outputPath = join(tmp.path, 'broken.tsv');
+    function* failing() {
+      yield { _rid: 0, Id: 'a' };
+      throw new Error('Parse error at row 1');
+    }
+
+    await expect(
+      writeTableOutput(outputPath, failing(), PARSER, 'Items', { format: 'tsv' })
+    ).rejects.toThrow('Parse error at row 1');
+    expect(existsSync(outputPath)).toBe(false);
+  });
+});
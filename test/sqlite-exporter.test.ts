@@ -0,0 +1,211 @@
+import { afterAll, beforeAll, describe, expect, mock, spyOn, test } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { Config } from '../src/config';
+import { DATParser, type SchemaTable } from '../src/dat/dat-parser';
+import { exportTable } from '../src/dat/sqlite-exporter';
+import { exportSqlite } from '../src/tasks/export-sqlite';
+import { buildDat, column, makeTempDir, schema, table } from './fixtures';
+
+const CLASSES = table('ItemClasses', [
+  column('Id', 'string', { unique: true }),
+  column('Code', 'i32', { unique: true }),
+  column('Hash', 'u64'),
+  column('Offset', 'i64'),
+]);
+// Unique in the schema, but not in the data
+const GROUPS = table('ItemGroups', [column('Code', 'i32', { unique: true })]);
+const ITEMS = table('Items', [
+  column('Id', 'string', { unique: true }),
+  column('Class', 'foreignrow', { references: { table: 'ItemClasses' } }),
+  column('ClassCode', 'foreignrow', { references: { table: 'ItemClasses', column: 'Code' } }),
+  column('GroupCode', 'foreignrow', { references: { table: 'ItemGroups', column: 'Code' } }),
+  column('Next', 'row'),
+  column('Tags', 'i32', { array: true }),
+  column('Levels', 'i32', { interval: true }),
+]);
+
+const PARSER = new DATParser(schema([CLASSES, GROUPS, ITEMS]));
+
+const TABLES: [SchemaTable, Record<string, unknown>[]][] = [
+  [
+    CLASSES,
+    [
+      { Id: 'Sword', Code: 10, Hash: '18446744073709551615', Offset: '-9007199254740993' },
+      { Id: 'Ring', Code: 20, Hash: 5, Offset: 7 },
+    ],
+  ],
+  [GROUPS, [{ Code: 1 }, { Code: 1 }]],
+  [
+    ITEMS,
+    [
+      {
+        Id: 'Rusted',
+        Class: 0,
+        ClassCode: 10,
+        GroupCode: 1,
+        Next: 1,
+        Tags: [1, 2],
+        Levels: [1, 5],
+      },
+      { Id: 'Copper', Class: 1, ClassCode: 20, GroupCode: 1, Next: null, Tags: [], Levels: [2, 2] },
+    ],
+  ],
+];
+
+function parse(schemaTable: SchemaTable, rows: Record<string, unknown>[]): any[] {
+  const parsed = PARSER.parse(buildDat(schemaTable, rows), schemaTable.name);
+  expect(parsed.error).toBeUndefined();
+  return parsed.rows;
+}
+
+/** Export every fixture table into an in-memory database, parents first */
+function exportAll(options: { joinTables?: boolean } = {}) {
+  const db = new Database(':memory:');
+  const duplicated = Object.fromEntries(
+    TABLES.map(([schemaTable, rows]) => [
+      schemaTable.name,
+      exportTable(db, PARSER, schemaTable, parse(schemaTable, rows), options),
+    ])
+  );
+  return { db, duplicated };
+}
+
+function foreignKeys(db: Database, tableName: string) {
+  return (
+    db.query(`PRAGMA foreign_key_list("${tableName}")`).all() as {
+      table: string;
+      from: string;
+      to: string;
+    }[]
+  ).map(({ table, from, to }) => `${from} -> ${table}.${to}`);
+}
+
+describe('exportTable', () => {
+  test('creates typed columns, foreign keys and indexes', () => {
+    const { db, duplicated } = exportAll();
+
+    expect(
+      db
+        .query(`PRAGMA table_info("Items")`)
+        .all()
+        .map((c: any) => `${c.name} ${c.type}`)
+    ).toEqual([
+      '_rid INTEGER',
+      'Id TEXT',
+      'Class INTEGER',
+      'ClassCode INTEGER',
+      'GroupCode INTEGER',
+      'Next INTEGER',
+      'Tags TEXT',
+      'Levels TEXT',
+    ]);
+    // ItemGroups.Code has duplicates, so only a plain index and no foreign key to it
+    expect(duplicated).toEqual({ ItemClasses: [], ItemGroups: ['Code'], Items: [] });
+    expect(foreignKeys(db, 'Items').sort()).toEqual([
+      'Class -> ItemClasses._rid',
+      'ClassCode -> ItemClasses.Code',
+      'Next -> Items._rid',
+    ]);
+    expect(db.query(`SELECT name, "unique" FROM pragma_index_list('ItemGroups')`).all()).toEqual([
+      { name: 'ItemGroups_Code_idx', unique: 0 },
+    ]);
+    expect(
+      (db.query(`SELECT name, "unique" FROM pragma_index_list('ItemClasses')`).all() as any[])
+        .map(index => `${index.name} ${index.unique}`)
+        .sort()
+    ).toEqual(['ItemClasses_Code_idx 1', 'ItemClasses_Id_idx 1']);
+
+    db.run('PRAGMA foreign_keys = ON');
+    expect(db.query('PRAGMA foreign_key_check').all()).toEqual([]);
+    db.close();
+  });
+
+  test('keeps 64-bit values exact', () => {
+    const { db } = exportAll();
+    expect(
+      db
+        .query(
+          `SELECT Hash, typeof(Hash) AS hashType, CAST(Offset AS TEXT) AS offset,
+             typeof(Offset) AS offsetType FROM ItemClasses ORDER BY _rid`
+        )
+        .all()
+    ).toEqual([
+      {
+        Hash: '18446744073709551615',
+        hashType: 'text',
+        offset: '-9007199254740993',
+        offsetType: 'integer',
+      },
+      { Hash: '5', hashType: 'text', offset: '7', offsetType: 'integer' },
+    ]);
+    db.close();
+  });
+
+  test('stores arrays and intervals as JSON text', () => {
+    const { db } = exportAll();
+    expect(db.query('SELECT Id, Tags, Levels FROM Items ORDER BY _rid').all()).toEqual([
+      { Id: 'Rusted', Tags: '[1,2]', Levels: '[1,5]' },
+      { Id: 'Copper', Tags: '[]', Levels: '[2,2]' },
+    ]);
+    expect(
+      db.query('SELECT value FROM Items, json_each(Items.Tags) WHERE Items.Id = ?').all('Rusted')
+    ).toEqual([{ value: 1 }, { value: 2 }]);
+    db.close();
+  });
+
+  test('stores arrays in join tables', () => {
+    const { db } = exportAll({ joinTables: true });
+    expect(
+      db
+        .query(`PRAGMA table_info("Items")`)
+        .all()
+        .map((c: any) => c.name)
+    ).not.toContain('Tags');
+    expect(db.query('SELECT * FROM Items_Tags ORDER BY _rid, _index').all()).toEqual([
+      { _rid: 0, _index: 0, value: 1 },
+      { _rid: 0, _index: 1, value: 2 },
+    ]);
+    expect(foreignKeys(db, 'Items_Tags')).toEqual(['_rid -> Items._rid']);
+    db.close();
+  });
+});
+
+describe('exportSqlite', () => {
+  let tmp: ReturnType<typeof makeTempDir>;
+
+  beforeAll(() => {
+    tmp = makeTempDir();
+    for (const method of ['log', 'warn', 'error'] as const) {
+      spyOn(console, method).mockImplementation(() => {});
+    }
+    spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterAll(() => {
+    mock.restore();
+    tmp.cleanup();
+  });
+
+  test('exports tables referenced by column before the tables that reference them', async () => {
+    // "Armour" sorts before "ItemClasses", which it references by Code
+    const armour = table('Armour', [
+      column('ClassCode', 'foreignrow', { references: { table: 'ItemClasses', column: 'Code' } }),
+    ]);
+    const schemaPath = join(tmp.path, 'schema.min.json');
+    writeFileSync(schemaPath, JSON.stringify(schema([CLASSES, armour])));
+    const inputDir = join(tmp.path, 'data');
+    mkdirSync(inputDir);
+    writeFileSync(join(inputDir, 'armour.datc64'), buildDat(armour, [{ ClassCode: 20 }]));
+    writeFileSync(join(inputDir, 'itemclasses.datc64'), buildDat(CLASSES, TABLES[0][1]));
+    const outputPath = join(tmp.path, 'data.sqlite');
+
+    const result = await exportSqlite(inputDir, outputPath, { schemaPath } as Config);
+
+    expect(result).toEqual({ tables: 2, rows: 3, failed: 0, noSchema: 0 });
+    const db = new Database(outputPath, { readonly: true });
+    expect(foreignKeys(db, 'Armour')).toEqual(['ClassCode -> ItemClasses.Code']);
+    db.close();
+  });
+});
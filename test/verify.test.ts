@@ -0,0 +1,77 @@
+import { afterAll, beforeAll, describe, expect, mock, spyOn, test } from 'bun:test';
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { Config } from '../src/config';
+import { GGPKReader } from '../src/ggpk/ggpk-reader';
+import { verifyGGPK } from '../src/tasks/verify';
+import { makeTempDir, writeBundles2, writeGGPK, type FixtureTree } from './fixtures';
+
+const TREE: FixtureTree = {
+  Data: { 'Mods.datc64': 'mods table', 'Stats.datc64': 'stats table' },
+  'README.txt': 'hello ggpk',
+};
+
+let tmp: ReturnType<typeof makeTempDir>;
+
+beforeAll(() => {
+  tmp = makeTempDir();
+  // The task reports progress and results on the console
+  for (const method of ['log', 'warn', 'error'] as const) {
+    spyOn(console, method).mockImplementation(() => {});
+  }
+  spyOn(process.stdout, 'write').mockImplementation(() => true);
+});
+
+afterAll(() => {
+  mock.restore();
+  tmp.cleanup();
+});
+
+function config(poe2Path: string): Config {
+  return { poe2Path } as Config;
+}
+
+describe('verifyGGPK', () => {
+  test('passes an intact archive', async () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'intact.ggpk'), TREE);
+    const result = await verifyGGPK(config(ggpkPath));
+    expect(result).toEqual({ checked: 3, bytes: 31, mismatches: [] });
+  });
+
+  test('reports files whose data no longer matches the record hash', async () => {
+    const ggpkPath = writeGGPK(join(tmp.path, 'corrupt.ggpk'), TREE);
+    const reader = new GGPKReader(ggpkPath);
+    const record = reader.resolve('Data/Stats.datc64');
+    reader.close();
+    if (record?.type !== 'FILE') throw new Error('Stats.datc64 not found');
+
+    // Flip the first byte of the file's data
+    const archive = readFileSync(ggpkPath);
+    archive[Number(record.dataOffset)] ^= 0xff;
+    writeFileSync(ggpkPath, archive);
+    const corrupted = Buffer.from('stats table');
+    corrupted[0] ^= 0xff;
+
+    const result = await verifyGGPK(config(ggpkPath));
+    expect(result.checked).toBe(3);
+    expect(result.mismatches).toEqual([
+      {
+        path: 'Data/Stats.datc64',
+        offset: record.offset,
+        expected: createHash('sha256').update('stats table').digest('hex'),
+        actual: createHash('sha256').update(corrupted).digest('hex'),
+      },
+    ]);
+
+    // Only files matching the pattern are checked
+    const filtered = await verifyGGPK(config(ggpkPath), { pattern: 'data/mods*' });
+    expect(filtered).toEqual({ checked: 1, bytes: 10, mismatches: [] });
+  });
+
+  test('rejects Steam installs, which have no record hashes', async () => {
+    const gameDir = join(tmp.path, 'steam');
+    writeBundles2(join(gameDir, 'Bundles2'), [{ name: 'Folders/data', files: { 'a.txt': 'a' } }]);
+    await expect(verifyGGPK(config(gameDir))).rejects.toThrow('Steam install');
+  });
+});